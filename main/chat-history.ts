@@ -0,0 +1,90 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import * as electronLog from 'electron-log';
+import { getAppDataPath } from './file-handler';
+
+// One turn of a chat conversation
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: string;
+}
+
+// Layout of a history file on disk
+interface HistoryFile {
+  version: number;
+  filePath: string;
+  updatedAt: string;
+  messages: ChatMessage[];
+}
+
+const HISTORY_FILE_VERSION = 1;
+const MAX_MESSAGES = 200; // Older turns are dropped from the saved conversation
+
+// Chat conversations kept per document
+// Each document's conversation is a JSON file in the app data directory named after a hash of its path
+export class ChatHistoryStore {
+  private directory: string;
+  
+  // S1: Initialize history store
+  // Sets the directory the conversations are kept in
+  constructor(directory: string = getAppDataPath('chat-history')) {
+    this.directory = directory;
+  }
+  
+  // S2: Get conversation
+  // Returns the saved conversation of a document, or an empty one
+  get(filePath: string): ChatMessage[] {
+    try {
+      const historyPath = this.getHistoryPath(filePath);
+      if (!fs.existsSync(historyPath)) {
+        return [];
+      }
+      
+      const data: HistoryFile = JSON.parse(fs.readFileSync(historyPath, 'utf8'));
+      if (data.version !== HISTORY_FILE_VERSION || !Array.isArray(data.messages)) {
+        electronLog.warn(`Ignoring chat history with an unknown layout for ${filePath}`);
+        return [];
+      }
+      
+      return data.messages;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      electronLog.error('Failed to load chat history:', errorMessage);
+      return [];
+    }
+  }
+  
+  // S3: Save conversation
+  // Replaces the saved conversation of a document, keeping the latest turns
+  save(filePath: string, messages: ChatMessage[]): void {
+    const data: HistoryFile = {
+      version: HISTORY_FILE_VERSION,
+      filePath,
+      updatedAt: new Date().toISOString(),
+      messages: messages.slice(-MAX_MESSAGES)
+    };
+    
+    fs.mkdirSync(this.directory, { recursive: true });
+    fs.writeFileSync(this.getHistoryPath(filePath), JSON.stringify(data, null, 2), 'utf8');
+  }
+  
+  // S4: Clear conversation
+  // Deletes the saved conversation of a document
+  clear(filePath: string): void {
+    const historyPath = this.getHistoryPath(filePath);
+    
+    if (fs.existsSync(historyPath)) {
+      fs.unlinkSync(historyPath);
+    }
+    
+    electronLog.info(`Chat history cleared for ${filePath}`);
+  }
+  
+  // Helper method to name the history file of a document
+  private getHistoryPath(filePath: string): string {
+    const hash = crypto.createHash('sha256').update(path.resolve(filePath)).digest('hex');
+    return path.join(this.directory, `${hash}.json`);
+  }
+}
@@ -25,12 +25,66 @@ export const IpcChannels = {
   
   // AI operations
   AI_CHECK_GRAMMAR: 'ai:check-grammar',
+  AI_CHECK_DOCUMENT: 'ai:check-document',
   AI_REPHRASE_TEXT: 'ai:rephrase-text',
+  AI_STREAM_START: 'ai:stream-start',
+  AI_STREAM_CHUNK: 'ai:stream-chunk',
+  AI_CANCEL: 'ai:cancel',
+  AI_QUEUE_STATUS: 'ai:queue-status',
+  AI_LIST_MODELS: 'ai:list-models',
+  AI_HEALTH_CHECK: 'ai:health-check',
+  AI_HEALTH_GET: 'ai:health-get',
+  AI_HEALTH_STATUS: 'ai:health-status',
+  AI_REDACTION_PREVIEW: 'ai:redaction-preview',
+  AI_USAGE_STATUS: 'ai:usage-status',
+  AI_LINT_GRAMMAR: 'ai:lint-grammar',
+  AI_TRANSLATE_TEXT: 'ai:translate-text',
+  AI_SUMMARIZE_TEXT: 'ai:summarize-text',
+  AI_EXPAND_TEXT: 'ai:expand-text',
+  AI_OUTLINE_TEXT: 'ai:outline-text',
+  AI_COMPLETE_TEXT: 'ai:complete-text',
+  AI_TOGGLE_AUTOCOMPLETE: 'ai:toggle-autocomplete',
+  AI_CHAT: 'ai:chat',
+  AI_TOGGLE_CHAT: 'ai:toggle-chat',
+  AI_EXPLAIN_SUGGESTION: 'ai:explain-suggestion',
   
   // Settings
   SETTINGS_GET: 'settings:get',
   SETTINGS_SAVE: 'settings:save',
   
+  // API keys, which only the main process reads
+  API_KEYS_STATUS: 'keys:status',
+  API_KEYS_SET: 'keys:set',
+  
+  // LLM response cache
+  CACHE_STATS: 'cache:stats',
+  CACHE_CLEAR: 'cache:clear',
+  CACHE_EXPORT: 'cache:export',
+  
+  // LLM usage and cost
+  USAGE_REPORT: 'usage:report',
+  USAGE_STATUS: 'usage:status',
+  USAGE_CLEAR: 'usage:clear',
+  
+  // Prompt templates
+  PROMPTS_LIST: 'prompts:list',
+  PROMPTS_SAVE: 'prompts:save',
+  PROMPTS_RESET: 'prompts:reset',
+  PROMPTS_PREVIEW: 'prompts:preview',
+  
+  // Chat history, kept per file
+  CHAT_HISTORY_GET: 'chat:history-get',
+  CHAT_HISTORY_SAVE: 'chat:history-save',
+  CHAT_HISTORY_CLEAR: 'chat:history-clear',
+  
+  // User dictionary and ignore rules, global and for the folder of the open file
+  DICTIONARY_GET: 'dictionary:get',
+  DICTIONARY_ADD_WORD: 'dictionary:add-word',
+  DICTIONARY_ADD_IGNORE: 'dictionary:add-ignore',
+  DICTIONARY_SAVE: 'dictionary:save',
+  DICTIONARY_FILTER: 'dictionary:filter',
+  DICTIONARY_CHANGED: 'dictionary:changed',
+  
   // UI
   SHOW_SETTINGS: 'ui:show-settings',
   SHOW_DOCUMENTATION: 'ui:show-documentation',
@@ -40,11 +94,31 @@ export const IpcChannels = {
   WINDOW_BLURRED: 'window:blurred'
 };
 
+// Display names of the LLM providers
+export const LLM_PROVIDER_LABELS: Record<string, string> = {
+  local: 'Local server',
+  openai: 'OpenAI',
+  anthropic: 'Anthropic',
+  gemini: 'Google Gemini'
+};
+
+// Display names of the built-in personal data detectors
+export const REDACTION_DETECTORS: Record<string, string> = {
+  email: 'Email addresses',
+  url: 'Web addresses',
+  iban: 'Bank account numbers (IBAN)',
+  card: 'Payment card numbers',
+  ssn: 'Social security numbers',
+  phone: 'Phone numbers',
+  ip: 'IP addresses'
+};
+
 // Error codes for application errors
 export const ErrorCodes = {
   // General errors
   UNKNOWN_ERROR: 'ERR_UNKNOWN',
   VALIDATION_ERROR: 'ERR_VALIDATION',
+  CANCELLED: 'ERR_CANCELLED',
   
   // File errors
   FILE_NOT_FOUND: 'ERR_FILE_NOT_FOUND',
@@ -58,6 +132,7 @@ export const ErrorCodes = {
   TIMEOUT_ERROR: 'ERR_TIMEOUT',
   AUTH_ERROR: 'ERR_AUTH',
   RATE_LIMIT_ERROR: 'ERR_RATE_LIMIT',
+  USAGE_LIMIT_ERROR: 'ERR_USAGE_LIMIT',
   
   // LLM errors
   LLM_PARSE_ERROR: 'ERR_LLM_PARSE',
@@ -72,19 +147,52 @@ export const DEFAULT_SETTINGS = {
   fontSize: 14,
   wordWrap: true,
   defaultLanguage: 'en',
-  llmProvider: 'local', // local, openai, anthropic
-  apiKeys: {
-    openai: '',
-    anthropic: ''
-  }
+  llmProvider: 'local', // local, openai, anthropic, gemini - API keys live in the encrypted key store, not in settings
+  baseUrls: {
+    local: '' // Empty uses LM_STUDIO_URL or http://localhost:1234/v1
+  },
+  fallbackProviders: [], // Providers tried in order when llmProvider fails
+  cloudFallbackConsent: {}, // Cloud providers allowed to receive text as a fallback, by id
+  operationSettings: {}, // Model by provider, temperature and max tokens per operation ('default' applies to all)
+  redaction: { // Personal data replaced by placeholders before text is sent to a cloud provider
+    enabled: true,
+    disabledDetectors: [], // Ids of REDACTION_DETECTORS turned off
+    rules: [] // Patterns and term lists written by the user
+  },
+  modelPrices: { // USD per million input and output tokens, by model name or name prefix
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    'claude-3-5-haiku': { input: 0.8, output: 4 },
+    'gemini-1.5-flash': { input: 0.075, output: 0.3 }
+  },
+  usageLimits: { // Monthly soft limits, asked about before sending past them - 0 for none
+    monthlyCost: 0, // USD
+    monthlyTokens: 0
+  },
+  liveGrammarCheck: false, // Lint paragraphs in the background as you type
+  customStyles: [], // User-defined rephrase styles, listed after REPHRASE_STYLES
+  translationInsertMode: 'below', // Put translations below the original ('below') or in its place ('replace')
+  summaryLength: 100, // Target summary length in words, 0 leaves it to the model
+  inlineCompletion: false, // Suggest continuations as ghost text while typing
+  inlineCompletionDelay: 800, // Pause in ms after typing stops before a continuation is requested
+  dictionaryScope: 'global' as const // Where words and ignore rules added from a suggestion go ('global' or 'workspace')
 };
 
 // Supported LLM operations
 export const LLM_OPERATIONS = [
   'grammar-check',
-  'rephrase'
+  'rephrase',
+  'translate',
+  'summarize',
+  'expand',
+  'outline',
+  'complete',
+  'chat',
+  'explain'
 ];
 
+// Layouts offered for summaries
+export const SUMMARY_FORMATS = ['bullets', 'paragraph'];
+
 // Supported languages for grammar checking
 export const SUPPORTED_LANGUAGES = [
   'en', // English
@@ -100,6 +208,25 @@ export const SUPPORTED_LANGUAGES = [
   'ko'  // Korean
 ];
 
+// Display names of the supported languages, also used in translation prompts
+export const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English',
+  es: 'Spanish',
+  fr: 'French',
+  de: 'German',
+  it: 'Italian',
+  pt: 'Portuguese',
+  nl: 'Dutch',
+  ru: 'Russian',
+  zh: 'Chinese',
+  ja: 'Japanese',
+  ko: 'Korean'
+};
+
+// Languages with a bundled Hunspell dictionary for offline spell checking, under public/dictionaries/<language>
+// Chinese and Japanese don't separate words with spaces, and the Korean dictionary needs syllable decomposition
+export const SPELLCHECK_LANGUAGES = ['en', 'es', 'fr', 'de', 'it', 'pt', 'nl', 'ru'];
+
 // Supported styles for text rephrasing
 export const REPHRASE_STYLES = [
   'formal',
@@ -135,3 +262,6 @@ export const THEME_COLORS = {
     border: '#454545'
   }
 };
+
+// Categories of grammar issues, which ignore rules can be limited to
+export const GRAMMAR_CATEGORIES = ['grammar', 'spelling', 'punctuation', 'style'];
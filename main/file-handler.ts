@@ -24,6 +24,19 @@ const schema = {
   }
 };
 
+// Resolve a path inside the application's data directory
+export function getAppDataPath(...segments: string[]): string {
+  return path.join(
+    process.platform === 'win32'
+      ? process.env.APPDATA || ''
+      : process.platform === 'darwin'
+        ? path.join(process.env.HOME || '', 'Library', 'Application Support')
+        : process.env.XDG_CONFIG_HOME || path.join(process.env.HOME || '', '.config'),
+    'ai-notepad',
+    ...segments
+  );
+}
+
 export class FileHandler {
   private currentFile: FileData | null;
   private recentFiles: string[];
@@ -40,15 +53,7 @@ export class FileHandler {
     this.backupInterval = null;
     
     // Create backup directory
-    this.backupDir = path.join(
-      process.platform === 'win32'
-        ? process.env.APPDATA || ''
-        : process.platform === 'darwin'
-          ? path.join(process.env.HOME || '', 'Library', 'Application Support')
-          : process.env.XDG_CONFIG_HOME || path.join(process.env.HOME || '', '.config'),
-      'ai-notepad',
-      'backups'
-    );
+    this.backupDir = getAppDataPath('backups');
     
     this.ensureBackupDirExists();
     
@@ -306,6 +311,12 @@ export class FileHandler {
     }
   }
   
+  // S11: Get current file path
+  // Returns the path of the open file, or an empty string while it has never been saved
+  getCurrentPath(): string {
+    return this.currentFile ? this.currentFile.path : '';
+  }
+  
   // Helper method to clean up old backups
   private async cleanupOldBackups(): Promise<void> {
     try {
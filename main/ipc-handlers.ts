@@ -1,15 +1,46 @@
-import { ipcMain } from 'electron';
+import { ipcMain, dialog, BrowserWindow, WebContents } from 'electron';
 import * as electronLog from 'electron-log';
 import { WindowManager } from './window-manager';
+import { MenuManager } from './menu-manager';
 import { FileHandler } from './file-handler';
-import { LLMService } from './llm-service';
+import {
+  LLMService,
+  LLMCallOptions,
+  LLMResponse,
+  CustomStyle,
+  ChatTurn,
+  ChatContext,
+  OperationSettings,
+  ModelPrice,
+  UsageLimits,
+  UsageStatus
+} from './llm-service';
+import { RedactionSettings } from './pii-redactor';
+import { ChatHistoryStore, ChatMessage } from './chat-history';
+import { ApiKeyStore } from './key-store';
+import { UserDictionaryStore, DictionaryEntries, DictionaryScope, IgnoreRule, isIgnoredIssue } from './user-dictionary';
 import { IpcChannels, DEFAULT_SETTINGS } from './constants';
 import Store from 'electron-store';
 
 // Define settings store schema
 interface SettingsSchema {
   llmProvider?: string;
+  // Plaintext keys saved by older versions, moved into the key store on first use
   apiKeys?: Record<string, string>;
+  baseUrls?: Record<string, string>;
+  fallbackProviders?: string[];
+  cloudFallbackConsent?: Record<string, boolean>;
+  operationSettings?: Record<string, OperationSettings>;
+  redaction?: RedactionSettings;
+  modelPrices?: Record<string, ModelPrice>;
+  usageLimits?: UsageLimits;
+  liveGrammarCheck?: boolean;
+  translationInsertMode?: string;
+  summaryLength?: number;
+  inlineCompletion?: boolean;
+  inlineCompletionDelay?: number;
+  dictionaryScope?: string;
+  customStyles?: CustomStyle[];
   autoSave?: boolean;
   autoSaveInterval?: number;
   theme?: string;
@@ -20,25 +51,78 @@ interface SettingsSchema {
 // File handler instance
 const fileHandler = new FileHandler();
 
+// Chat conversations, one per file
+const chatHistory = new ChatHistoryStore();
+
+// Words and ignore rules the checks leave alone
+const userDictionary = new UserDictionaryStore();
+
 // LLM service instance - lazy initialized
 let llmService: LLMService | null = null;
 
+// API key store - lazy initialized, safeStorage can only be used once the app is ready
+let apiKeyStore: ApiKeyStore | null = null;
+
+// Counter used to build unique LLM request IDs
+let requestCounter = 0;
+
+// Abort controllers for LLM requests that are still in flight, keyed by request ID
+const activeRequests = new Map<string, AbortController>();
+
+// Pause between health checks of the providers in use, shorter while none of them can be reached
+const HEALTH_CHECK_INTERVAL = 60000;
+const HEALTH_RETRY_INTERVAL = 15000;
+
+// Timer of the next health check
+let healthTimer: NodeJS.Timeout | null = null;
+
+// Operations whose results share the editor's suggestion panel, so a newer one makes an older one stale
+const EDITOR_OPERATIONS = ['grammar-check', 'rephrase', 'translate', 'summarize', 'expand', 'outline'];
+
+// Settings store with proper typing
+const settingsStore = new Store<SettingsSchema>({
+  name: 'settings',
+  defaults: DEFAULT_SETTINGS
+});
+
 const getLLMService = (): LLMService => {
   if (!llmService) {
     llmService = new LLMService();
+    
+    // Apply the saved provider settings
+    const settings: SettingsSchema = (settingsStore as any).store;
+    if (settings.llmProvider) {
+      llmService.initialize(settings.llmProvider, getApiKeyStore().getAll(), settings.baseUrls || {});
+    }
+    llmService.setFallbackChain(settings.fallbackProviders || [], settings.cloudFallbackConsent || {});
+    llmService.setOperationSettings(settings.operationSettings || {});
+    llmService.setRedactionSettings(settings.redaction || DEFAULT_SETTINGS.redaction);
+    llmService.setUsageSettings(settings.modelPrices || DEFAULT_SETTINGS.modelPrices, settings.usageLimits || DEFAULT_SETTINGS.usageLimits);
+    llmService.setCustomStyles(settings.customStyles || []);
+    llmService.setDictionarySource(() => userDictionary.get(fileHandler.getCurrentPath()));
+    
+    // Keep every window informed of the request queue, provider health and this month's usage
+    llmService.onQueueStatus(status => broadcast(IpcChannels.AI_QUEUE_STATUS, status));
+    llmService.onHealthStatus(status => broadcast(IpcChannels.AI_HEALTH_STATUS, status));
+    llmService.onUsageStatus(status => broadcast(IpcChannels.AI_USAGE_STATUS, status));
+    
+    // Ask before a request is sent past a monthly soft limit
+    llmService.setUsageLimitPrompt(confirmUsageLimit);
   }
   return llmService;
 };
 
-// Settings store with proper typing
-const settingsStore = new Store<SettingsSchema>({
-  name: 'settings',
-  defaults: DEFAULT_SETTINGS
-});
+const getApiKeyStore = (): ApiKeyStore => {
+  if (!apiKeyStore) {
+    apiKeyStore = new ApiKeyStore();
+    migrateApiKeys(apiKeyStore);
+  }
+  return apiKeyStore;
+};
 
 // S1: Set up IPC communication handlers
 // Registers all IPC handlers for main process
-export function setupIPC(windowManager: WindowManager): void {
+export function setupIPC(windowManager: WindowManager, menuManager: MenuManager): void {
   // File operations
   registerFileHandlers(windowManager);
   
@@ -46,11 +130,51 @@ export function setupIPC(windowManager: WindowManager): void {
   registerLLMHandlers();
   
   // Settings operations
-  registerSettingsHandlers();
+  registerSettingsHandlers(windowManager, menuManager);
+  
+  // API key operations
+  registerApiKeyHandlers();
+  
+  // List the saved rephrase styles and the autocomplete state in the menus built from now on
+  const settings: SettingsSchema = (settingsStore as any).store;
+  menuManager.setRephraseStyles(settings.customStyles || []);
+  menuManager.setInlineCompletion(!!settings.inlineCompletion);
+  
+  // Response cache operations
+  registerCacheHandlers();
+  
+  // Usage and cost operations
+  registerUsageHandlers();
+  
+  // Prompt template operations
+  registerPromptHandlers();
+  
+  // Chat history operations
+  registerChatHandlers();
+  
+  // User dictionary operations
+  registerDictionaryHandlers();
+  
+  // Start following provider health
+  scheduleHealthCheck(0);
   
   electronLog.info('IPC handlers registered');
 }
 
+// S5: Tear down IPC state
+// Saves state held by the handlers before the app quits
+export function teardownIPC(): void {
+  if (healthTimer) {
+    clearTimeout(healthTimer);
+    healthTimer = null;
+  }
+  
+  if (llmService) {
+    llmService.flushCache();
+    llmService.flushUsage();
+  }
+}
+
 // S2: Register file operation handlers
 // Sets up handlers for file operations
 function registerFileHandlers(windowManager: WindowManager): void {
@@ -129,14 +253,19 @@ function registerFileHandlers(windowManager: WindowManager): void {
 // Sets up handlers for LLM operations
 function registerLLMHandlers(): void {
   // Check grammar
-  ipcMain.handle(IpcChannels.AI_CHECK_GRAMMAR, (_event, data: { text: string, language?: string }) => {
+  ipcMain.handle(IpcChannels.AI_CHECK_GRAMMAR, (event, data: { text: string, language?: string, batch?: boolean }) => {
     try {
       // Validate input
       if (!data || !data.text) {
         throw new Error('Invalid input for grammar check');
       }
       
-      return getLLMService().checkGrammar(data.text, data.language);
+      return runRequest(
+        event.sender,
+        'grammar-check',
+        options => getLLMService().checkGrammar(data.text, data.language, options),
+        !!data.batch
+      );
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       electronLog.error('Error checking grammar:', errorMessage);
@@ -145,29 +274,331 @@ function registerLLMHandlers(): void {
   });
   
   // Rephrase text
-  ipcMain.handle(IpcChannels.AI_REPHRASE_TEXT, (_event, data: { text: string, style?: string }) => {
+  ipcMain.handle(IpcChannels.AI_REPHRASE_TEXT, (event, data: { text: string, style?: string, batch?: boolean }) => {
     try {
       // Validate input
       if (!data || !data.text) {
         throw new Error('Invalid input for text rephrasing');
       }
       
-      return getLLMService().rephraseText(data.text, data.style);
+      return runRequest(
+        event.sender,
+        'rephrase',
+        options => getLLMService().rephraseText(data.text, data.style, options),
+        !!data.batch
+      );
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       electronLog.error('Error rephrasing text:', errorMessage);
       throw error;
     }
   });
+  
+  // Translate text
+  ipcMain.handle(IpcChannels.AI_TRANSLATE_TEXT, (event, data: { text: string, targetLanguage: string, sourceLanguage?: string }) => {
+    try {
+      // Validate input
+      if (!data || !data.text || !data.targetLanguage) {
+        throw new Error('Invalid input for translation');
+      }
+      
+      return runRequest(event.sender, 'translate', options =>
+        getLLMService().translateText(data.text, data.targetLanguage, data.sourceLanguage, options)
+      );
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      electronLog.error('Error translating text:', errorMessage);
+      throw error;
+    }
+  });
+  
+  // Summarize text
+  ipcMain.handle(IpcChannels.AI_SUMMARIZE_TEXT, (event, data: { text: string, format?: string, targetLength?: number }) => {
+    try {
+      // Validate input
+      if (!data || !data.text) {
+        throw new Error('Invalid input for summarizing');
+      }
+      
+      return runRequest(event.sender, 'summarize', options =>
+        getLLMService().summarizeText(data.text, data.format, data.targetLength, options)
+      );
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      electronLog.error('Error summarizing text:', errorMessage);
+      throw error;
+    }
+  });
+  
+  // Expand notes into prose
+  ipcMain.handle(IpcChannels.AI_EXPAND_TEXT, (event, data: { text: string }) => {
+    try {
+      // Validate input
+      if (!data || !data.text) {
+        throw new Error('Invalid input for expanding');
+      }
+      
+      return runRequest(event.sender, 'expand', options =>
+        getLLMService().expandText(data.text, options)
+      );
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      electronLog.error('Error expanding text:', errorMessage);
+      throw error;
+    }
+  });
+  
+  // Generate an outline
+  ipcMain.handle(IpcChannels.AI_OUTLINE_TEXT, (event, data: { text: string }) => {
+    try {
+      // Validate input
+      if (!data || !data.text) {
+        throw new Error('Invalid input for outlining');
+      }
+      
+      return runRequest(event.sender, 'outline', options =>
+        getLLMService().outlineText(data.text, options)
+      );
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      electronLog.error('Error outlining text:', errorMessage);
+      throw error;
+    }
+  });
+  
+  // Check a paragraph in the background for live grammar linting
+  ipcMain.handle(IpcChannels.AI_LINT_GRAMMAR, (event, data: { text: string, language?: string }) => {
+    try {
+      // Validate input
+      if (!data || !data.text) {
+        throw new Error('Invalid input for grammar linting');
+      }
+      
+      // No stream events - the renderer only cares about the final markers
+      return getLLMService().checkGrammar(data.text, data.language, {
+        background: true,
+        supersedeKey: `${event.sender.id}:lint`
+      });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      electronLog.error('Error linting grammar:', errorMessage);
+      throw error;
+    }
+  });
+  
+  // Suggest a continuation for inline autocomplete
+  ipcMain.handle(IpcChannels.AI_COMPLETE_TEXT, async (event, data: { text: string, requestId: string }) => {
+    try {
+      // Validate input
+      if (!data || !data.text || !data.requestId) {
+        throw new Error('Invalid input for completion');
+      }
+      
+      // The renderer picks the ID so it can cancel a stale completion while the user keeps typing
+      const controller = new AbortController();
+      activeRequests.set(data.requestId, controller);
+      
+      try {
+        return await getLLMService().completeText(data.text, {
+          background: true,
+          signal: controller.signal,
+          supersedeKey: `${event.sender.id}:complete`
+        });
+      } finally {
+        activeRequests.delete(data.requestId);
+      }
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      electronLog.error('Error completing text:', errorMessage);
+      throw error;
+    }
+  });
+  
+  // Reply to a chat message
+  ipcMain.handle(IpcChannels.AI_CHAT, (event, data: { messages: ChatTurn[], context?: ChatContext }) => {
+    try {
+      // Validate input
+      if (!data || !Array.isArray(data.messages) || data.messages.length === 0) {
+        throw new Error('Invalid input for chat');
+      }
+      
+      return runRequest(event.sender, 'chat', options =>
+        getLLMService().chat(data.messages, data.context, options)
+      );
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      electronLog.error('Error in chat:', errorMessage);
+      throw error;
+    }
+  });
+  
+  // List the models a provider offers
+  ipcMain.handle(IpcChannels.AI_LIST_MODELS, async (_event, data: { provider: string, baseUrl?: string }) => {
+    try {
+      // Validate input
+      if (!data || !data.provider) {
+        throw new Error('Invalid input for listing models');
+      }
+      
+      return await getLLMService().listModels(data.provider, data.baseUrl);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      electronLog.error('Error listing models:', errorMessage);
+      throw error;
+    }
+  });
+  
+  // Preview what a cloud provider would receive, optionally with redaction settings that haven't been saved yet
+  ipcMain.handle(IpcChannels.AI_REDACTION_PREVIEW, (_event, data: { text: string, operation?: string, settings?: RedactionSettings }) => {
+    try {
+      // Validate input
+      if (!data || typeof data.text !== 'string') {
+        throw new Error('Invalid input for redaction preview');
+      }
+      
+      return getLLMService().previewRedaction(data.text, data.operation, data.settings);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      electronLog.error('Error previewing redaction:', errorMessage);
+      throw error;
+    }
+  });
+  
+  // Test the connection to a provider, optionally with settings that haven't been saved yet
+  ipcMain.handle(IpcChannels.AI_HEALTH_CHECK, async (_event, data: { provider: string, baseUrl?: string, apiKey?: string }) => {
+    try {
+      // Validate input
+      if (!data || !data.provider) {
+        throw new Error('Invalid input for connection test');
+      }
+      
+      return await getLLMService().checkHealth(data.provider, { baseUrl: data.baseUrl, apiKey: data.apiKey });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      electronLog.error('Error testing connection:', errorMessage);
+      throw error;
+    }
+  });
+  
+  // Get the last known provider health
+  ipcMain.handle(IpcChannels.AI_HEALTH_GET, () => {
+    try {
+      return getLLMService().getHealthStatus();
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      electronLog.error('Error getting provider health:', errorMessage);
+      throw error;
+    }
+  });
+  
+  // Explain the rule behind a suggested change
+  ipcMain.handle(IpcChannels.AI_EXPLAIN_SUGGESTION, (_event, data: { original: string, replacement: string }) => {
+    try {
+      // Validate input
+      if (!data || !data.original || typeof data.replacement !== 'string') {
+        throw new Error('Invalid input for explanation');
+      }
+      
+      // No stream events - the explanation is shown once it is complete, without disturbing the open panel
+      return getLLMService().explainSuggestion(data.original, data.replacement);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      electronLog.error('Error explaining suggestion:', errorMessage);
+      throw error;
+    }
+  });
+  
+  // Cancel a request that is still in flight
+  ipcMain.handle(IpcChannels.AI_CANCEL, (_event, requestId: string) => {
+    const controller = activeRequests.get(requestId);
+    if (!controller) {
+      return false;
+    }
+    
+    controller.abort();
+    activeRequests.delete(requestId);
+    electronLog.info(`Cancelled LLM request ${requestId}`);
+    return true;
+  });
+}
+
+// Helper to send an event to every open window
+function broadcast(channel: string, payload: any): void {
+  BrowserWindow.getAllWindows().forEach(window => {
+    if (!window.webContents.isDestroyed()) {
+      window.webContents.send(channel, payload);
+    }
+  });
+}
+
+// Helper to check the providers in use after a delay, then again at the pace their health calls for
+function scheduleHealthCheck(delay: number): void {
+  if (healthTimer) {
+    clearTimeout(healthTimer);
+  }
+  
+  healthTimer = setTimeout(async () => {
+    healthTimer = null;
+    
+    let available = true;
+    try {
+      available = (await getLLMService().checkAllHealth()).available;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      electronLog.error('Error checking provider health:', errorMessage);
+    }
+    
+    // A check scheduled meanwhile, after a settings change, takes over
+    if (!healthTimer) {
+      scheduleHealthCheck(available ? HEALTH_CHECK_INTERVAL : HEALTH_RETRY_INTERVAL);
+    }
+  }, delay);
+}
+
+// Helper to run an LLM request under a new request ID
+// Announces the ID to the renderer, forwards streamed output and registers the request for cancellation;
+// batch items are queued behind interactive requests and don't supersede each other
+async function runRequest(
+  sender: WebContents,
+  operation: string,
+  request: (options: LLMCallOptions) => Promise<LLMResponse>,
+  batch: boolean = false
+): Promise<LLMResponse> {
+  const requestId = `${operation}-${Date.now()}-${++requestCounter}`;
+  const controller = new AbortController();
+  activeRequests.set(requestId, controller);
+  
+  sender.send(IpcChannels.AI_STREAM_START, { requestId, operation });
+  
+  try {
+    const group = EDITOR_OPERATIONS.includes(operation) ? 'editor' : operation;
+    const response = await request({
+      signal: controller.signal,
+      priority: batch ? 'batch' : 'interactive',
+      supersedeKey: batch ? undefined : `${sender.id}:${group}`,
+      onDelta: (text: string) => {
+        if (!sender.isDestroyed()) {
+          sender.send(IpcChannels.AI_STREAM_CHUNK, { requestId, text });
+        }
+      }
+    });
+    
+    return { ...response, requestId };
+  } finally {
+    activeRequests.delete(requestId);
+  }
 }
 
 // S4: Register settings handlers
 // Sets up handlers for settings operations
-function registerSettingsHandlers(): void {
+function registerSettingsHandlers(windowManager: WindowManager, menuManager: MenuManager): void {
   // Get settings
   ipcMain.handle(IpcChannels.SETTINGS_GET, () => {
     try {
-      return (settingsStore as any).store;
+      // Keys never reach the renderer, even ones an older version left in the settings file
+      const settings: SettingsSchema = { ...(settingsStore as any).store };
+      delete settings.apiKeys;
+      return settings;
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       electronLog.error('Error getting settings:', errorMessage);
@@ -183,12 +614,64 @@ function registerSettingsHandlers(): void {
         throw new Error('Invalid settings object');
       }
       
-      // Update settings - use Object.assign to merge with current store
-      Object.assign((settingsStore as any).store, settings);
+      // Keys go to the key store rather than the plain settings file
+      const { apiKeys, ...rest } = settings;
+      if (apiKeys) {
+        storeApiKeys(apiKeys);
+      }
+      
+      // Update settings - set() merges top-level keys and persists them
+      (settingsStore as any).set(rest);
       
       // Update LLM provider if changed
       if (settings.llmProvider) {
-        getLLMService().initialize(settings.llmProvider, settings.apiKeys || {});
+        getLLMService().initialize(settings.llmProvider, getApiKeyStore().getAll(), settings.baseUrls || {});
+      }
+      
+      // Update the fallback chain if changed, keeping whichever half wasn't sent
+      if (settings.fallbackProviders || settings.cloudFallbackConsent) {
+        const saved: SettingsSchema = (settingsStore as any).store;
+        getLLMService().setFallbackChain(saved.fallbackProviders || [], saved.cloudFallbackConsent || {});
+      }
+      
+      // Check the providers again when the ones in use or their connection may have changed
+      if (settings.llmProvider || settings.baseUrls || settings.fallbackProviders || settings.cloudFallbackConsent) {
+        scheduleHealthCheck(0);
+      }
+      
+      // Update the models and sampling of the operations if changed
+      if (settings.operationSettings) {
+        getLLMService().setOperationSettings(settings.operationSettings);
+      }
+      
+      // Update the redaction rules if changed
+      if (settings.redaction) {
+        getLLMService().setRedactionSettings(settings.redaction);
+      }
+      
+      // Update the model prices and soft limits if changed, keeping whichever half wasn't sent
+      if (settings.modelPrices || settings.usageLimits) {
+        const saved: SettingsSchema = (settingsStore as any).store;
+        getLLMService().setUsageSettings(
+          saved.modelPrices || DEFAULT_SETTINGS.modelPrices,
+          saved.usageLimits || DEFAULT_SETTINGS.usageLimits
+        );
+      }
+      
+      // Keep the autocomplete checkbox of the AI menu in step
+      if (typeof settings.inlineCompletion === 'boolean') {
+        menuManager.setInlineCompletion(settings.inlineCompletion);
+      }
+      
+      // Pass custom rephrase styles on and show them in the native menu
+      if (settings.customStyles) {
+        getLLMService().setCustomStyles(settings.customStyles);
+        menuManager.setRephraseStyles(settings.customStyles);
+        
+        const mainWindow = windowManager.getWindow('main');
+        if (mainWindow) {
+          menuManager.buildMenu(mainWindow);
+        }
       }
       
       return true;
@@ -199,3 +682,397 @@ function registerSettingsHandlers(): void {
     }
   });
 }
+
+// S9: Register API key handlers
+// Sets up handlers that store keys and report which providers have one, never the keys themselves
+function registerApiKeyHandlers(): void {
+  // Get key status
+  ipcMain.handle(IpcChannels.API_KEYS_STATUS, () => {
+    try {
+      const stored = getApiKeyStore().list();
+      const undecryptable = getApiKeyStore().listUndecryptable();
+      const configured: Record<string, 'stored' | 'environment' | 'undecryptable'> = {};
+      
+      getLLMService().listProviders().forEach(provider => {
+        if (stored.includes(provider.id)) {
+          configured[provider.id] = 'stored';
+        } else if (undecryptable.includes(provider.id)) {
+          configured[provider.id] = 'undecryptable';
+        } else if (getLLMService().hasEnvironmentKey(provider.id)) {
+          configured[provider.id] = 'environment';
+        }
+      });
+      
+      return { encrypted: getApiKeyStore().isEncryptionAvailable(), configured };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      electronLog.error('Error getting API key status:', errorMessage);
+      throw error;
+    }
+  });
+  
+  // Store or remove a key
+  ipcMain.handle(IpcChannels.API_KEYS_SET, (_event, data: { provider: string, key: string }) => {
+    try {
+      // Validate input
+      if (!data || !data.provider || typeof data.key !== 'string') {
+        throw new Error('Invalid API key');
+      }
+      
+      getApiKeyStore().set(data.provider, data.key);
+      getLLMService().setApiKey(data.provider, data.key.trim());
+      scheduleHealthCheck(0);
+      
+      electronLog.info(`API key ${data.key.trim() ? 'stored' : 'removed'} for ${data.provider}`);
+      return true;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      electronLog.error('Error storing API key:', errorMessage);
+      throw error;
+    }
+  });
+}
+
+// Helper to put keys into the key store; blank keys are left alone so partial updates keep the others
+function storeApiKeys(keys: Record<string, string>): void {
+  Object.entries(keys).forEach(([providerId, key]) => {
+    if (typeof key === 'string' && key.trim()) {
+      getApiKeyStore().set(providerId, key);
+    }
+  });
+}
+
+// Helper to move plaintext keys saved by older versions from the settings file into the key store
+function migrateApiKeys(store: ApiKeyStore): void {
+  const legacyKeys: Record<string, string> | undefined = (settingsStore as any).get('apiKeys');
+  if (!legacyKeys) {
+    return;
+  }
+  
+  try {
+    Object.entries(legacyKeys).forEach(([providerId, key]) => {
+      // A key stored since takes precedence over the old one
+      if (typeof key === 'string' && key.trim() && !store.get(providerId)) {
+        store.set(providerId, key);
+      }
+    });
+    
+    (settingsStore as any).delete('apiKeys');
+    electronLog.info('Moved API keys from the settings file into the key store');
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    electronLog.error('Failed to migrate API keys, leaving them in the settings file:', errorMessage);
+  }
+}
+
+// S6: Register response cache handlers
+// Sets up handlers for inspecting, clearing and exporting the LLM response cache
+function registerCacheHandlers(): void {
+  // Get cache statistics
+  ipcMain.handle(IpcChannels.CACHE_STATS, () => {
+    try {
+      return getLLMService().getCacheStats();
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      electronLog.error('Error getting cache statistics:', errorMessage);
+      throw error;
+    }
+  });
+  
+  // Clear cache
+  ipcMain.handle(IpcChannels.CACHE_CLEAR, () => {
+    try {
+      getLLMService().clearCache();
+      return true;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      electronLog.error('Error clearing cache:', errorMessage);
+      throw error;
+    }
+  });
+  
+  // Export cache to a file chosen by the user
+  ipcMain.handle(IpcChannels.CACHE_EXPORT, async (event) => {
+    try {
+      const window = BrowserWindow.fromWebContents(event.sender);
+      const options = {
+        defaultPath: 'llm-cache-export.json',
+        filters: [{ name: 'JSON Files', extensions: ['json'] }]
+      };
+      const result = window
+        ? await dialog.showSaveDialog(window, options)
+        : await dialog.showSaveDialog(options);
+      
+      if (result.canceled || !result.filePath) {
+        return null;
+      }
+      
+      return await getLLMService().exportCache(result.filePath);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      electronLog.error('Error exporting cache:', errorMessage);
+      throw error;
+    }
+  });
+}
+
+// S10: Register usage handlers
+// Sets up handlers for the usage report, this month's status and clearing the usage log
+function registerUsageHandlers(): void {
+  // Get the usage of the last days
+  ipcMain.handle(IpcChannels.USAGE_REPORT, (_event, data?: { days?: number }) => {
+    try {
+      return getLLMService().getUsageReport(data?.days);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      electronLog.error('Error getting usage report:', errorMessage);
+      throw error;
+    }
+  });
+  
+  // Get this month's usage against the soft limits
+  ipcMain.handle(IpcChannels.USAGE_STATUS, () => {
+    try {
+      return getLLMService().getUsageStatus();
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      electronLog.error('Error getting usage status:', errorMessage);
+      throw error;
+    }
+  });
+  
+  // Clear the usage log
+  ipcMain.handle(IpcChannels.USAGE_CLEAR, () => {
+    try {
+      getLLMService().clearUsage();
+      return true;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      electronLog.error('Error clearing usage:', errorMessage);
+      throw error;
+    }
+  });
+}
+
+// Helper to ask the user whether to send requests past a monthly soft limit
+async function confirmUsageLimit(status: UsageStatus): Promise<boolean> {
+  const limits: string[] = [];
+  if (status.limits.monthlyCost > 0) {
+    limits.push(`$${status.cost.toFixed(2)} of $${status.limits.monthlyCost.toFixed(2)}`);
+  }
+  if (status.limits.monthlyTokens > 0) {
+    limits.push(`${status.tokens.toLocaleString()} of ${status.limits.monthlyTokens.toLocaleString()} tokens`);
+  }
+  
+  const options = {
+    type: 'warning' as const,
+    buttons: ['Send Anyway', 'Cancel'],
+    defaultId: 1,
+    cancelId: 1,
+    title: 'Monthly Usage Limit Reached',
+    message: 'This month\'s AI usage has reached its limit.',
+    detail: `Used so far: ${limits.join(', ')}. Send this request and any others this month anyway? ` +
+      'The limits can be changed in Settings under Usage.'
+  };
+  
+  const window = BrowserWindow.getFocusedWindow();
+  const result = window
+    ? await dialog.showMessageBox(window, options)
+    : await dialog.showMessageBox(options);
+  return result.response === 0;
+}
+
+// S7: Register prompt template handlers
+// Sets up handlers for listing, editing and previewing prompt templates
+function registerPromptHandlers(): void {
+  // List templates
+  ipcMain.handle(IpcChannels.PROMPTS_LIST, () => {
+    try {
+      return getLLMService().listPromptTemplates();
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      electronLog.error('Error listing prompt templates:', errorMessage);
+      throw error;
+    }
+  });
+  
+  // Save template
+  ipcMain.handle(IpcChannels.PROMPTS_SAVE, (_event, data: { id: string, system: string, user: string }) => {
+    try {
+      if (!data || typeof data.system !== 'string' || typeof data.user !== 'string') {
+        throw new Error('Invalid prompt template');
+      }
+      
+      return getLLMService().savePromptTemplate(data.id, data.system, data.user);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      electronLog.error('Error saving prompt template:', errorMessage);
+      throw error;
+    }
+  });
+  
+  // Reset template to the built-in wording
+  ipcMain.handle(IpcChannels.PROMPTS_RESET, (_event, id: string) => {
+    try {
+      return getLLMService().resetPromptTemplate(id);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      electronLog.error('Error resetting prompt template:', errorMessage);
+      throw error;
+    }
+  });
+  
+  // Preview a template against sample values
+  ipcMain.handle(IpcChannels.PROMPTS_PREVIEW, (_event, data: { system: string, user: string, text: string, language?: string, style?: string }) => {
+    try {
+      return getLLMService().previewPrompt(
+        { system: data.system || '', user: data.user || '' },
+        { text: data.text || '', language: data.language, style: data.style }
+      );
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      electronLog.error('Error previewing prompt template:', errorMessage);
+      throw error;
+    }
+  });
+}
+
+// S8: Register chat history handlers
+// Sets up handlers for loading, saving and clearing the conversation of a file
+function registerChatHandlers(): void {
+  // Get conversation
+  ipcMain.handle(IpcChannels.CHAT_HISTORY_GET, (_event, filePath: string) => {
+    try {
+      if (!filePath) {
+        throw new Error('File path is required');
+      }
+      
+      return chatHistory.get(filePath);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      electronLog.error('Error loading chat history:', errorMessage);
+      throw error;
+    }
+  });
+  
+  // Save conversation
+  ipcMain.handle(IpcChannels.CHAT_HISTORY_SAVE, (_event, data: { filePath: string, messages: ChatMessage[] }) => {
+    try {
+      if (!data || !data.filePath || !Array.isArray(data.messages)) {
+        throw new Error('Invalid chat history');
+      }
+      
+      chatHistory.save(data.filePath, data.messages);
+      return true;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      electronLog.error('Error saving chat history:', errorMessage);
+      throw error;
+    }
+  });
+  
+  // Clear conversation
+  ipcMain.handle(IpcChannels.CHAT_HISTORY_CLEAR, (_event, filePath: string) => {
+    try {
+      if (!filePath) {
+        throw new Error('File path is required');
+      }
+      
+      chatHistory.clear(filePath);
+      return true;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      electronLog.error('Error clearing chat history:', errorMessage);
+      throw error;
+    }
+  });
+}
+
+// S11: Register user dictionary handlers
+// Sets up handlers for reading, changing and applying the dictionary of the open file, telling every window about changes
+function registerDictionaryHandlers(): void {
+  // Get the global entries and those of the open file's folder
+  ipcMain.handle(IpcChannels.DICTIONARY_GET, () => {
+    try {
+      return userDictionary.get(fileHandler.getCurrentPath());
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      electronLog.error('Error loading the user dictionary:', errorMessage);
+      throw error;
+    }
+  });
+  
+  // Add a word
+  ipcMain.handle(IpcChannels.DICTIONARY_ADD_WORD, (_event, data: { scope: DictionaryScope, word: string }) => {
+    try {
+      if (!data || !isDictionaryScope(data.scope) || typeof data.word !== 'string' || !data.word.trim()) {
+        throw new Error('Invalid dictionary word');
+      }
+      
+      const dictionary = userDictionary.addWord(data.scope, fileHandler.getCurrentPath(), data.word);
+      broadcast(IpcChannels.DICTIONARY_CHANGED, dictionary);
+      return dictionary;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      electronLog.error('Error adding to the user dictionary:', errorMessage);
+      throw error;
+    }
+  });
+  
+  // Add an ignore rule
+  ipcMain.handle(IpcChannels.DICTIONARY_ADD_IGNORE, (_event, data: { scope: DictionaryScope, rule: IgnoreRule }) => {
+    try {
+      if (!data || !isDictionaryScope(data.scope) || !data.rule || typeof data.rule.pattern !== 'string' || !data.rule.pattern.trim()) {
+        throw new Error('Invalid ignore rule');
+      }
+      
+      const dictionary = userDictionary.addIgnoreRule(data.scope, fileHandler.getCurrentPath(), data.rule);
+      broadcast(IpcChannels.DICTIONARY_CHANGED, dictionary);
+      return dictionary;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      electronLog.error('Error adding an ignore rule:', errorMessage);
+      throw error;
+    }
+  });
+  
+  // Replace the entries of a scope
+  ipcMain.handle(IpcChannels.DICTIONARY_SAVE, (_event, data: { scope: DictionaryScope, entries: DictionaryEntries }) => {
+    try {
+      if (!data || !isDictionaryScope(data.scope) || !data.entries) {
+        throw new Error('Invalid dictionary entries');
+      }
+      
+      const dictionary = userDictionary.save(data.scope, fileHandler.getCurrentPath(), data.entries);
+      broadcast(IpcChannels.DICTIONARY_CHANGED, dictionary);
+      return dictionary;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      electronLog.error('Error saving the user dictionary:', errorMessage);
+      throw error;
+    }
+  });
+  
+  // Find the issues the dictionary hides, for checks made in the renderer such as offline spell checking
+  ipcMain.handle(IpcChannels.DICTIONARY_FILTER, (_event, data: { issues: Array<{ original: string, replacement: string, category: string }> }) => {
+    try {
+      if (!data || !Array.isArray(data.issues)) {
+        throw new Error('Invalid issues');
+      }
+      
+      const dictionary = userDictionary.get(fileHandler.getCurrentPath());
+      return data.issues
+        .map((issue, index) => issue && typeof issue.original === 'string' && isIgnoredIssue(issue, dictionary) ? index : -1)
+        .filter(index => index >= 0);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      electronLog.error('Error filtering issues with the user dictionary:', errorMessage);
+      throw error;
+    }
+  });
+}
+
+// Helper to check a dictionary scope sent by the renderer
+function isDictionaryScope(scope: unknown): scope is DictionaryScope {
+  return scope === 'global' || scope === 'workspace';
+}
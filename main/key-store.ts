@@ -0,0 +1,169 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { safeStorage } from 'electron';
+import * as electronLog from 'electron-log';
+import { getAppDataPath } from './file-handler';
+
+// Layout of the key file on disk
+// Keys are base64 ciphertext from safeStorage, or plain text when encrypted is false
+interface KeyFile {
+  version: number;
+  encrypted: boolean;
+  keys: Record<string, string>;
+  // Base64 ciphertext of keys the keyring could not decrypt, kept until they are entered again
+  undecryptable?: Record<string, string>;
+}
+
+const KEY_FILE_VERSION = 1;
+
+// API keys of the cloud providers, encrypted with the OS keyring through Electron safeStorage
+// Falls back to a plaintext file, with a warning, where no keyring is available
+// Only the main process reads keys; the renderer learns which providers have one
+export class ApiKeyStore {
+  private filePath: string;
+  // Decrypted keys, read on first use since safeStorage is only available once the app is ready
+  private keys: Record<string, string> | null = null;
+  // Ciphertext of keys that failed to decrypt, e.g. after a keyring reset, written back unchanged
+  private undecryptable: Record<string, string> = {};
+  
+  // S1: Initialize key store
+  // Sets the file the keys are kept in
+  constructor(filePath: string = getAppDataPath('api-keys.json')) {
+    this.filePath = filePath;
+  }
+  
+  // S2: Check encryption
+  // Tells whether keys are encrypted by the OS keyring rather than stored as plain text
+  isEncryptionAvailable(): boolean {
+    try {
+      if (!safeStorage.isEncryptionAvailable()) {
+        return false;
+      }
+      
+      // Without a keyring Linux encrypts with a hard-coded password, which is no better than plain text
+      return process.platform !== 'linux' || safeStorage.getSelectedStorageBackend() !== 'basic_text';
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      electronLog.warn('Could not check for safeStorage encryption:', errorMessage);
+      return false;
+    }
+  }
+  
+  // S3: Get key
+  // Returns the stored key of a provider, or an empty string
+  get(providerId: string): string {
+    return this.load()[providerId] || '';
+  }
+  
+  // S4: Get all keys
+  // Returns a copy of every stored key by provider
+  getAll(): Record<string, string> {
+    return { ...this.load() };
+  }
+  
+  // S5: Store key
+  // Saves the key of a provider, removing it when the key is blank
+  set(providerId: string, key: string): void {
+    const keys = this.load();
+    
+    if (key.trim()) {
+      keys[providerId] = key.trim();
+    } else {
+      delete keys[providerId];
+    }
+    
+    // A new key, or removing it, replaces one that could not be decrypted
+    delete this.undecryptable[providerId];
+    this.persist(keys);
+  }
+  
+  // S6: List configured providers
+  // Returns the ids of the providers that have a stored key
+  list(): string[] {
+    return Object.keys(this.load());
+  }
+  
+  // S7: List undecryptable keys
+  // Returns the ids of the providers whose stored key could not be decrypted and has to be entered again
+  listUndecryptable(): string[] {
+    this.load();
+    return Object.keys(this.undecryptable);
+  }
+  
+  // Helper method to read and decrypt the key file
+  private load(): Record<string, string> {
+    if (this.keys) {
+      return this.keys;
+    }
+    
+    this.keys = {};
+    
+    try {
+      if (!fs.existsSync(this.filePath)) {
+        return this.keys;
+      }
+      
+      const data: KeyFile = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      if (data.version !== KEY_FILE_VERSION || !data.keys || typeof data.keys !== 'object') {
+        electronLog.warn('Ignoring API key file with an unknown layout');
+        return this.keys;
+      }
+      
+      // Keys that failed before are tried again, the keyring they were encrypted with may be back
+      const ciphertexts: Record<string, string> = { ...(data.undecryptable || {}) };
+      Object.entries(data.keys).forEach(([providerId, value]) => {
+        if (data.encrypted) {
+          ciphertexts[providerId] = value;
+        } else {
+          this.keys![providerId] = value;
+        }
+      });
+      
+      Object.entries(ciphertexts).forEach(([providerId, value]) => {
+        try {
+          this.keys![providerId] = safeStorage.decryptString(Buffer.from(value, 'base64'));
+        } catch (error: unknown) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          electronLog.error(`Failed to decrypt the ${providerId} API key, it has to be entered again:`, errorMessage);
+          this.undecryptable[providerId] = value;
+        }
+      });
+      
+      // Encrypt keys left in plain text once a keyring becomes available
+      if (!data.encrypted && Object.keys(this.keys).length > 0 && this.isEncryptionAvailable()) {
+        this.persist(this.keys);
+      }
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      electronLog.error('Failed to load API keys:', errorMessage);
+    }
+    
+    return this.keys;
+  }
+  
+  // Helper method to encrypt the keys and write the key file
+  private persist(keys: Record<string, string>): void {
+    const encrypted = this.isEncryptionAvailable();
+    
+    if (!encrypted && Object.keys(keys).length > 0) {
+      electronLog.warn(`No OS keyring is available, API keys are stored unencrypted in ${this.filePath}`);
+    }
+    
+    const data: KeyFile = {
+      version: KEY_FILE_VERSION,
+      encrypted,
+      keys: {}
+    };
+    Object.entries(keys).forEach(([providerId, key]) => {
+      data.keys[providerId] = encrypted ? safeStorage.encryptString(key).toString('base64') : key;
+    });
+    if (Object.keys(this.undecryptable).length > 0) {
+      data.undecryptable = { ...this.undecryptable };
+    }
+    
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    // Owner-only permissions matter most for the plaintext fallback
+    fs.writeFileSync(this.filePath, JSON.stringify(data, null, 2), { encoding: 'utf8', mode: 0o600 });
+    this.keys = keys;
+  }
+}
@@ -0,0 +1,253 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import * as electronLog from 'electron-log';
+import { LRUCache } from 'lru-cache';
+import { getAppDataPath } from './file-handler';
+import type { LLMResponse } from './llm-service';
+
+// Request fields that decide which cached response can be reused
+export interface CacheKeyParts {
+  provider: string;
+  model: string;
+  promptVersion: string;
+  operation: string;
+  style?: string;
+  language?: string;
+  sourceLanguage?: string;
+  // Summary layout and target length in words
+  format?: string;
+  targetLength?: number;
+  // Editor text shared with a chat
+  context?: string;
+  // Corrected text of an explained change
+  replacement?: string;
+  // User dictionary words a grammar check was told to leave alone
+  terms?: string[];
+  // Sampling the operation was configured with, missing for the defaults
+  temperature?: number;
+  maxTokens?: number;
+  text: string;
+}
+
+// Cache figures shown in the Settings panel
+export interface CacheStats {
+  entries: number;
+  sizeBytes: number;
+  maxSizeBytes: number;
+  ttlMs: number;
+  hits: number;
+  misses: number;
+  hitRate: number;
+}
+
+// Layout of the cache file on disk
+interface CacheFile {
+  version: number;
+  hits: number;
+  misses: number;
+  entries: Array<[string, LRUCache.Entry<LLMResponse>]>;
+}
+
+const CACHE_FILE_VERSION = 1;
+const DEFAULT_MAX_SIZE = 20 * 1024 * 1024; // 20 MB of serialized responses
+const DEFAULT_TTL = 1000 * 60 * 60 * 24 * 7; // 1 week
+const SAVE_DELAY = 2000; // Batch writes that happen close together
+
+// Persistent LLM response cache
+// Keeps responses in an LRU bounded by size and TTL and mirrors it to a JSON file in the app data directory
+export class LLMCache {
+  private cache: LRUCache<string, LLMResponse>;
+  private filePath: string;
+  private hits: number = 0;
+  private misses: number = 0;
+  private saveTimeout: NodeJS.Timeout | null = null;
+  
+  // S1: Initialize cache
+  // Creates the LRU and loads entries saved by a previous session
+  constructor(
+    filePath: string = getAppDataPath('llm-cache.json'),
+    maxSize: number = DEFAULT_MAX_SIZE,
+    ttl: number = DEFAULT_TTL
+  ) {
+    this.filePath = filePath;
+    this.cache = new LRUCache<string, LLMResponse>({
+      maxSize,
+      ttl,
+      sizeCalculation: (value, key) => key.length + JSON.stringify(value).length,
+      allowStale: false
+    });
+    
+    this.load();
+  }
+  
+  // S2: Create cache key
+  // Hashes the request fields so keys have a fixed size and never contain the raw text
+  static createKey(parts: CacheKeyParts): string {
+    return crypto
+      .createHash('sha256')
+      .update(JSON.stringify([
+        parts.provider,
+        parts.model,
+        parts.promptVersion,
+        parts.operation,
+        parts.style || '',
+        parts.language || '',
+        parts.text,
+        // Only translations have a source language, other keys keep their old hash
+        ...(parts.sourceLanguage ? [parts.sourceLanguage] : []),
+        // Same for the layout and length of a summary
+        ...(parts.format ? [parts.format, parts.targetLength || 0] : []),
+        ...(parts.context ? [parts.context] : []),
+        ...(parts.replacement !== undefined ? [parts.replacement] : []),
+        ...(parts.terms && parts.terms.length > 0 ? [{ terms: parts.terms }] : []),
+        ...(parts.temperature !== undefined || parts.maxTokens !== undefined
+          ? [parts.temperature ?? '', parts.maxTokens ?? '']
+          : [])
+      ]))
+      .digest('hex');
+  }
+  
+  // S3: Get cached response
+  // Returns the cached response for a key and counts the hit or miss
+  get(key: string): LLMResponse | undefined {
+    const response = this.cache.get(key);
+    
+    if (response) {
+      this.hits++;
+    } else {
+      this.misses++;
+    }
+    this.scheduleSave();
+    
+    return response;
+  }
+  
+  // S4: Store response
+  // Adds a response to the cache and schedules a write to disk
+  set(key: string, response: LLMResponse): void {
+    this.cache.set(key, response);
+    this.scheduleSave();
+  }
+  
+  // S5: Clear cache
+  // Drops all entries and statistics, on disk as well
+  clear(): void {
+    this.cache.clear();
+    this.hits = 0;
+    this.misses = 0;
+    this.flush();
+    
+    electronLog.info('LLM cache cleared');
+  }
+  
+  // S6: Get cache statistics
+  // Reports size, limits and hit rate
+  getStats(): CacheStats {
+    const lookups = this.hits + this.misses;
+    
+    return {
+      entries: this.cache.size,
+      sizeBytes: this.cache.calculatedSize,
+      maxSizeBytes: this.cache.maxSize,
+      ttlMs: this.cache.ttl,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : 0
+    };
+  }
+  
+  // S7: Export cache
+  // Writes the cached responses to a readable JSON file
+  async exportTo(filePath: string): Promise<number> {
+    const entries = this.cache.dump().map(([key, entry]) => ({
+      key,
+      cachedAt: entry.start ? new Date(entry.start).toISOString() : null,
+      response: entry.value
+    }));
+    
+    await fs.promises.writeFile(filePath, JSON.stringify(entries, null, 2), 'utf8');
+    electronLog.info(`Exported ${entries.length} cached LLM responses to ${filePath}`);
+    
+    return entries.length;
+  }
+  
+  // S8: Flush cache
+  // Writes pending changes to disk right away, used when the app quits
+  flush(): void {
+    if (this.saveTimeout) {
+      clearTimeout(this.saveTimeout);
+      this.saveTimeout = null;
+    }
+    
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(this.filePath, this.serialize(), 'utf8');
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      electronLog.error('Failed to save LLM cache:', errorMessage);
+    }
+  }
+  
+  // Helper method to read the cache file, starting empty if it is missing or unreadable
+  private load(): void {
+    try {
+      if (!fs.existsSync(this.filePath)) {
+        return;
+      }
+      
+      const data: CacheFile = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      if (data.version !== CACHE_FILE_VERSION || !Array.isArray(data.entries)) {
+        electronLog.warn('Ignoring LLM cache file with an unknown layout');
+        return;
+      }
+      
+      // Entries keep the TTL left when they were saved
+      this.cache.load(data.entries);
+      this.cache.purgeStale();
+      this.hits = data.hits || 0;
+      this.misses = data.misses || 0;
+      
+      electronLog.info(`Loaded ${this.cache.size} cached LLM responses`);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      electronLog.error('Failed to load LLM cache:', errorMessage);
+    }
+  }
+  
+  // Helper method to write the cache file shortly after the last change
+  private scheduleSave(): void {
+    if (this.saveTimeout) {
+      return;
+    }
+    
+    this.saveTimeout = setTimeout(async () => {
+      this.saveTimeout = null;
+      
+      try {
+        // Write to a temporary file first so a crash never leaves a truncated cache
+        const tempPath = `${this.filePath}.tmp`;
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.promises.writeFile(tempPath, this.serialize(), 'utf8');
+        await fs.promises.rename(tempPath, this.filePath);
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        electronLog.error('Failed to save LLM cache:', errorMessage);
+      }
+    }, SAVE_DELAY);
+  }
+  
+  // Helper method to build the cache file contents
+  private serialize(): string {
+    this.cache.purgeStale();
+    
+    const data: CacheFile = {
+      version: CACHE_FILE_VERSION,
+      hits: this.hits,
+      misses: this.misses,
+      entries: this.cache.dump()
+    };
+    
+    return JSON.stringify(data);
+  }
+}
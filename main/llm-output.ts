@@ -0,0 +1,344 @@
+// Expected shape of an LLM reply, handed to providers that support structured output
+export interface OutputSchema {
+  name: string;
+  schema: Record<string, any>;
+}
+
+// Outcome of validating an LLM reply against its schema
+export interface OutputValidation<T> {
+  value: T[];
+  errors: string[];
+}
+
+// Suggestion item as returned by the rephrase prompt
+export interface SuggestionItem {
+  text: string;
+  confidence: number;
+  type: string;
+  // Why the text was changed, in one short sentence
+  explain?: string;
+}
+
+// Grammar issue item as returned by the grammar prompt, before it is located in the text
+export interface GrammarIssueItem {
+  original: string;
+  replacement: string;
+  offset?: number;
+  category: string;
+  explanation: string;
+  confidence: number;
+}
+
+// Translation as returned by the translate prompt
+export interface TranslationItem {
+  translation: string;
+  detectedLanguage: string;
+}
+
+// Single text as returned by the summarize, expand and outline prompts
+export interface TextResultItem {
+  text: string;
+}
+
+// Explanation of a correction as returned by the explain prompt
+export interface ExplanationItem {
+  rule: string;
+  explanation: string;
+}
+
+// Schema of the rephrase reply: { "suggestions": [...] }
+export const SUGGESTIONS_SCHEMA: OutputSchema = {
+  name: 'suggestions',
+  schema: {
+    type: 'object',
+    properties: {
+      suggestions: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            text: { type: 'string', description: 'Rewritten text' },
+            confidence: { type: 'number', description: 'Confidence between 0 and 1' },
+            type: { type: 'string', description: 'Kind of change' },
+            explain: { type: 'string', description: 'One short sentence on what was changed and why' }
+          },
+          required: ['text', 'confidence', 'type', 'explain'],
+          additionalProperties: false
+        }
+      }
+    },
+    required: ['suggestions'],
+    additionalProperties: false
+  }
+};
+
+// Schema of the grammar reply: { "issues": [...] }
+export const GRAMMAR_ISSUES_SCHEMA: OutputSchema = {
+  name: 'issues',
+  schema: {
+    type: 'object',
+    properties: {
+      issues: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            original: { type: 'string', description: 'Erroneous fragment copied exactly from the text' },
+            replacement: { type: 'string', description: 'Corrected fragment' },
+            offset: { type: 'integer', description: 'Zero-based character index of the fragment in the text' },
+            category: { type: 'string', description: 'grammar, spelling, punctuation or style' },
+            explanation: { type: 'string', description: 'One short sentence' },
+            confidence: { type: 'number', description: 'Confidence between 0 and 1' }
+          },
+          required: ['original', 'replacement', 'offset', 'category', 'explanation', 'confidence'],
+          additionalProperties: false
+        }
+      }
+    },
+    required: ['issues'],
+    additionalProperties: false
+  }
+};
+
+// Schema of the translate reply: { "translation": "...", "detectedLanguage": "..." }
+export const TRANSLATION_SCHEMA: OutputSchema = {
+  name: 'translation',
+  schema: {
+    type: 'object',
+    properties: {
+      translation: { type: 'string', description: 'Translated text' },
+      detectedLanguage: { type: 'string', description: 'ISO 639-1 code of the source text language' }
+    },
+    required: ['translation', 'detectedLanguage'],
+    additionalProperties: false
+  }
+};
+
+// Schema of the summarize, expand and outline replies: { "text": "..." }
+export const TEXT_RESULT_SCHEMA: OutputSchema = {
+  name: 'text_result',
+  schema: {
+    type: 'object',
+    properties: {
+      text: { type: 'string', description: 'Generated text' }
+    },
+    required: ['text'],
+    additionalProperties: false
+  }
+};
+
+// Schema of the explain reply: { "rule": "...", "explanation": "..." }
+export const EXPLANATION_SCHEMA: OutputSchema = {
+  name: 'explanation',
+  schema: {
+    type: 'object',
+    properties: {
+      rule: { type: 'string', description: 'Short name of the rule being applied' },
+      explanation: { type: 'string', description: 'Explanation of the rule in one to three sentences' }
+    },
+    required: ['rule', 'explanation'],
+    additionalProperties: false
+  }
+};
+
+// Parse the JSON in a reply and return the list stored under key
+// Tolerates code fences and prose around the JSON, and a bare array instead of the wrapping object
+export function extractOutputList(responseText: string, key: string): { list: any[] | null; error?: string } {
+  const data = parseReplyJson(responseText);
+  
+  if (data === undefined) {
+    return { list: null, error: 'Reply is not valid JSON' };
+  }
+  
+  if (Array.isArray(data)) {
+    return { list: data };
+  }
+  
+  if (data && typeof data === 'object' && Array.isArray(data[key])) {
+    return { list: data[key] };
+  }
+  
+  return { list: null, error: `Reply must be a JSON object with a "${key}" array` };
+}
+
+// Parse the JSON object in a reply
+// Tolerates code fences and prose around the JSON
+export function extractOutputObject(responseText: string): { data: Record<string, any> | null; error?: string } {
+  const data = parseReplyJson(responseText);
+  
+  if (data === undefined) {
+    return { data: null, error: 'Reply is not valid JSON' };
+  }
+  
+  if (!isObject(data)) {
+    return { data: null, error: 'Reply must be a JSON object' };
+  }
+  
+  return { data };
+}
+
+// Validate the items of a rephrase reply
+export function validateSuggestions(items: any[]): OutputValidation<SuggestionItem> {
+  const errors: string[] = [];
+  
+  items.forEach((item: any, index: number) => {
+    const label = `suggestions[${index}]`;
+    
+    if (!isObject(item)) {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+    if (typeof item.text !== 'string' || !item.text.trim()) {
+      errors.push(`${label}.text must be a non-empty string`);
+    }
+    if (!isConfidence(item.confidence)) {
+      errors.push(`${label}.confidence must be a number between 0 and 1`);
+    }
+    if (typeof item.type !== 'string' || !item.type.trim()) {
+      errors.push(`${label}.type must be a non-empty string`);
+    }
+    // Older templates don't ask for an explanation, so it may be missing
+    if (item.explain !== undefined && typeof item.explain !== 'string') {
+      errors.push(`${label}.explain must be a string`);
+    }
+  });
+  
+  return { value: errors.length === 0 ? items : [], errors };
+}
+
+// Validate the items of a grammar reply
+export function validateGrammarIssues(items: any[]): OutputValidation<GrammarIssueItem> {
+  const errors: string[] = [];
+  
+  items.forEach((item: any, index: number) => {
+    const label = `issues[${index}]`;
+    
+    if (!isObject(item)) {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+    if (typeof item.original !== 'string' || !item.original) {
+      errors.push(`${label}.original must be a non-empty string`);
+    }
+    if (typeof item.replacement !== 'string') {
+      errors.push(`${label}.replacement must be a string`);
+    }
+    if (item.offset !== undefined && !(Number.isInteger(item.offset) && item.offset >= 0)) {
+      errors.push(`${label}.offset must be a non-negative integer`);
+    }
+    if (typeof item.category !== 'string' || !item.category.trim()) {
+      errors.push(`${label}.category must be a non-empty string`);
+    }
+    if (typeof item.explanation !== 'string') {
+      errors.push(`${label}.explanation must be a string`);
+    }
+    if (!isConfidence(item.confidence)) {
+      errors.push(`${label}.confidence must be a number between 0 and 1`);
+    }
+  });
+  
+  return { value: errors.length === 0 ? items : [], errors };
+}
+
+// Validate a translate reply
+export function validateTranslation(data: Record<string, any>): { value: TranslationItem | null; errors: string[] } {
+  const errors: string[] = [];
+  
+  if (typeof data.translation !== 'string' || !data.translation.trim()) {
+    errors.push('translation must be a non-empty string');
+  }
+  if (typeof data.detectedLanguage !== 'string') {
+    errors.push('detectedLanguage must be a string');
+  }
+  
+  return { value: errors.length === 0 ? (data as TranslationItem) : null, errors };
+}
+
+// Validate a summarize, expand or outline reply
+export function validateTextResult(data: Record<string, any>): { value: TextResultItem | null; errors: string[] } {
+  const errors: string[] = [];
+  
+  if (typeof data.text !== 'string' || !data.text.trim()) {
+    errors.push('text must be a non-empty string');
+  }
+  
+  return { value: errors.length === 0 ? (data as TextResultItem) : null, errors };
+}
+
+// Validate an explain reply
+export function validateExplanation(data: Record<string, any>): { value: ExplanationItem | null; errors: string[] } {
+  const errors: string[] = [];
+  
+  if (typeof data.rule !== 'string') {
+    errors.push('rule must be a string');
+  }
+  if (typeof data.explanation !== 'string' || !data.explanation.trim()) {
+    errors.push('explanation must be a non-empty string');
+  }
+  
+  return { value: errors.length === 0 ? (data as ExplanationItem) : null, errors };
+}
+
+// Convert a JSON schema to the OpenAPI subset Gemini accepts as responseSchema
+export function toGeminiSchema(schema: Record<string, any>): Record<string, any> {
+  const converted: Record<string, any> = {
+    type: String(schema.type).toUpperCase()
+  };
+  
+  if (schema.description) converted.description = schema.description;
+  if (schema.enum) converted.enum = schema.enum;
+  if (schema.required) converted.required = schema.required;
+  if (schema.items) converted.items = toGeminiSchema(schema.items);
+  if (schema.properties) {
+    converted.properties = {};
+    Object.keys(schema.properties).forEach(key => {
+      converted.properties[key] = toGeminiSchema(schema.properties[key]);
+    });
+  }
+  
+  return converted;
+}
+
+// Helper to parse a reply, unwrapping a code fence around all of it and falling back to JSON embedded in prose
+// Fences inside the reply are left alone, they can be part of the text of a suggestion
+function parseReplyJson(responseText: string): any {
+  const fenced = responseText.match(/^\s*```(?:json)?[ \t]*\n?([\s\S]*?)\n?[ \t]*```\s*$/i);
+  const text = (fenced ? fenced[1] : responseText).trim();
+  
+  try {
+    return JSON.parse(text);
+  } catch (error: unknown) {
+    return parseEmbeddedJson(text);
+  }
+}
+
+// Helper to parse the outermost JSON object or array embedded in prose
+function parseEmbeddedJson(text: string): any {
+  const candidates = [
+    [text.indexOf('{'), text.lastIndexOf('}')],
+    [text.indexOf('['), text.lastIndexOf(']')]
+  ].filter(([start, end]) => start >= 0 && end > start);
+  
+  // Try the candidate that starts first - it wraps the other one
+  candidates.sort((a, b) => a[0] - b[0]);
+  
+  for (const [start, end] of candidates) {
+    try {
+      return JSON.parse(text.slice(start, end + 1));
+    } catch (error: unknown) {
+      // Fall through to the next candidate
+    }
+  }
+  
+  return undefined;
+}
+
+// Helper to check for a plain object
+function isObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Helper to check a confidence score
+function isConfidence(value: unknown): boolean {
+  return typeof value === 'number' && !isNaN(value) && value >= 0 && value <= 1;
+}
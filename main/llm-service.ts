@@ -1,7 +1,28 @@
 import * as electronLog from 'electron-log';
 import axios from 'axios';
-import { LRUCache } from 'lru-cache';
-import { ErrorCodes } from './constants';
+import { ErrorCodes, LANGUAGE_NAMES } from './constants';
+import { LLMCache, CacheStats } from './llm-cache';
+import { PromptTemplateStore, PromptTemplate, RenderedPrompt, PromptVariables, renderPrompt } from './prompt-templates';
+import {
+  OutputSchema,
+  GrammarIssueItem,
+  SUGGESTIONS_SCHEMA,
+  GRAMMAR_ISSUES_SCHEMA,
+  TRANSLATION_SCHEMA,
+  TEXT_RESULT_SCHEMA,
+  EXPLANATION_SCHEMA,
+  extractOutputList,
+  extractOutputObject,
+  validateSuggestions,
+  validateGrammarIssues,
+  validateTranslation,
+  validateTextResult,
+  validateExplanation,
+  toGeminiSchema
+} from './llm-output';
+import { PiiRedactor, Redaction, RedactionSettings, RedactedItem } from './pii-redactor';
+import { UsageLog, UsageRecord, UsageTotals, DailyUsage, toDay, emptyTotals, addTotals } from './usage-log';
+import { UserDictionary, findDictionaryTerms, isIgnoredIssue } from './user-dictionary';
 
 // Define interfaces
 interface LLMRequest {
@@ -9,97 +30,1619 @@ interface LLMRequest {
   operation: string;
   style?: string;
   language?: string;
+  // Source language of a translation, detected by the model when missing
+  sourceLanguage?: string;
+  // Layout of a summary, 'bullets' or 'paragraph'
+  format?: string;
+  // Target length of a summary in words
+  targetLength?: number;
+  // Editor text shared with a chat, introduced and truncated
+  context?: string;
+  // Corrected text of a change to explain; text holds the original
+  replacement?: string;
+  // User dictionary words found in the text of a grammar check
+  terms?: string[];
 }
 
-interface LLMResponse {
+// Turn of a chat conversation as sent by the renderer
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// Editor text shared with a chat
+export interface ChatContext {
+  kind: 'selection' | 'document';
+  text: string;
+}
+
+// Rephrase style defined by the user
+// The id is what the renderer passes as the style of a rephrase request
+export interface CustomStyle {
+  id: string;
+  label: string;
+  instruction: string;
+  // Sample sentences written in the style
+  examples: string[];
+}
+
+// Grammar issue found in a span of the checked text
+// offset and length are character positions in LLMResponse.original
+export interface GrammarIssue {
+  offset: number;
+  length: number;
+  original: string;
+  replacement: string;
+  category: string;
+  explanation: string;
+  confidence: number;
+}
+
+export interface LLMResponse {
   original: string;
   suggestions: Array<{
     text: string;
     confidence: number;
     type: string;
+    // Why the text was changed, when the model gave a reason
+    explain?: string;
   }>;
+  issues?: GrammarIssue[];
+  // Language the model detected in the text of a translation
+  detectedLanguage?: string;
+  // Rule named by an explanation
+  rule?: string;
+  // Id of the provider that answered, which differs from the configured one after a fallback
+  provider?: string;
+  error?: string;
+  requestId?: string;
+}
+
+// Prompt sent to a provider, split into system instructions and user content
+export interface LLMPrompt {
+  system: string;
+  user: string;
+  // Expected reply shape, enforced by providers with JSON mode or structured output
+  schema?: OutputSchema;
+}
+
+// Connection settings handed to a provider adapter for a single call
+export interface ProviderConfig {
+  apiKey: string;
+  baseUrl: string;
+  model: string;
+  timeout: number;
+  temperature: number;
+  maxTokens: number;
+}
+
+// Model and sampling settings of an operation; missing fields fall back to the settings for all operations,
+// then to the provider's default model and DEFAULT_TEMPERATURE / DEFAULT_MAX_TOKENS
+export interface OperationSettings {
+  // Model by provider id, since model names differ between providers
+  models?: Record<string, string>;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+// Result of a provider health check
+export interface ProviderHealth {
+  provider: string;
+  // 'unconfigured' when a cloud provider has no API key
+  status: 'ok' | 'error' | 'unconfigured';
+  // Round trip of the last check, in ms
+  latencyMs?: number;
   error?: string;
+  checkedAt: string;
+}
+
+// Health of the providers requests can go to, reported to the renderer whenever it changes
+export interface HealthStatus {
+  // Configured provider
+  provider: string;
+  // False once neither the configured provider nor a usable fallback can be reached; the renderer then works offline
+  available: boolean;
+  providers: Record<string, ProviderHealth>;
+}
+
+// Prompt a cloud provider would receive for a sample text, shown before anything is sent
+export interface RedactionPreview {
+  // Whether redaction is on and has rules to apply
+  enabled: boolean;
+  // Whether requests can reach a cloud provider, as the configured provider or a fallback
+  cloud: boolean;
+  items: RedactedItem[];
+  system: string;
+  user: string;
+}
+
+// Token counts a provider reported for one completion
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+// Price of a model in USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// Monthly soft limits, 0 for none
+export interface UsageLimits {
+  monthlyCost: number;
+  monthlyTokens: number;
+}
+
+// Usage of the current month against the soft limits
+export interface UsageStatus {
+  // YYYY-MM
+  month: string;
+  requests: number;
+  tokens: number;
+  cost: number;
+  limits: UsageLimits;
+  // 'warning' from USAGE_WARNING_SHARE of a limit on, 'exceeded' once a limit is reached
+  level: 'ok' | 'warning' | 'exceeded';
+  // Whether the user chose to keep sending requests after this month's limit was reached
+  acknowledged: boolean;
+}
+
+// Usage totals with their estimated cost in USD
+export interface UsageSummary extends UsageTotals {
+  cost: number;
+}
+
+// Usage of the last days for the Settings panel
+export interface UsageReport {
+  // First and last day covered, YYYY-MM-DD
+  from: string;
+  to: string;
+  totals: UsageSummary;
+  days: Array<UsageSummary & { date: string }>;
+  // priced is false for models without a configured price, whose cost counts as 0
+  models: Array<UsageSummary & { provider: string; model: string; priced: boolean }>;
+  operations: Array<UsageSummary & { operation: string }>;
+  status: UsageStatus;
+}
+
+// Options for a single LLM call
+export interface LLMCallOptions {
+  // Receives the accumulated completion text each time new tokens arrive
+  onDelta?: (text: string) => void;
+  // Receives the token counts of a completion, when the provider reports them
+  onUsage?: (usage: TokenUsage) => void;
+  // Aborts the request, including any wait in the request queue
+  signal?: AbortSignal;
+  // Background requests are queued last, deferred when the queue is full and never retried
+  background?: boolean;
+  // Queue priority, interactive unless the request is a background one
+  priority?: RequestPriority;
+  // A newer request with the same key cancels this one if it is still queued or in flight
+  supersedeKey?: string;
+}
+
+// HTTP request built by a provider adapter
+export interface ProviderHttpRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: Record<string, any>;
+}
+
+// HTTP request listing the models of a provider
+export interface ProviderModelsRequest {
+  url: string;
+  headers: Record<string, string>;
+}
+
+// Contract every LLM provider adapter implements
+export interface LLMProvider {
+  readonly id: string;
+  readonly label: string;
+  readonly requiresApiKey: boolean;
+  readonly defaultBaseUrl: string;
+  readonly defaultModel: string;
+  readonly defaultTimeout: number;
+  buildRequest(prompt: LLMPrompt, config: ProviderConfig, stream?: boolean): ProviderHttpRequest;
+  parseResponse(data: any): string;
+  parseStreamEvent(event: any): string;
+  parseUsage(data: any): TokenUsage | null;
+  buildModelsRequest(config: ProviderConfig): ProviderModelsRequest;
+  parseModels(data: any): string[];
+  mapError(error: unknown): LLMError;
+  complete(prompt: LLMPrompt, config: ProviderConfig, options?: LLMCallOptions): Promise<string>;
+  listModels(config: ProviderConfig): Promise<string[]>;
+}
+
+// Error raised by the LLM layer, carrying one of the ErrorCodes values
+// status is the HTTP status of a failed API call, when there was one
+export class LLMError extends Error {
+  code: string;
+  status?: number;
+  
+  constructor(code: string, message: string, status?: number) {
+    super(message);
+    this.name = 'LLMError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+// Helper to stop work on a request that has been cancelled
+function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new LLMError(ErrorCodes.CANCELLED, 'Request cancelled');
+  }
+}
+
+// Request priority - waiting interactive requests are served before batch work, and batch work before background work
+export type RequestPriority = 'interactive' | 'batch' | 'background';
+  
+const PRIORITY_RANK: Record<RequestPriority, number> = {
+  interactive: 0,
+  batch: 1,
+  background: 2
+};
+
+// State of the request queue, reported to the renderer whenever it changes
+export interface QueueStatus {
+  // Requests waiting for a provider slot, in total and by priority
+  queued: number;
+  queuedByPriority: Record<RequestPriority, number>;
+  running: number;
+  // Average wait for a slot over the latest requests, in ms
+  averageWaitMs: number;
+  // How long the longest waiting request has been waiting, in ms
+  longestWaitMs: number;
+}
+
+// Request waiting for a provider slot
+interface WaitingRequest {
+  provider: string;
+  priority: RequestPriority;
+  sequence: number;
+  enqueuedAt: number;
+  grant: () => void;
+}
+
+// Provider call shared by every caller asking for the same thing while it is in flight
+interface SharedRequest<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  priority: RequestPriority;
+  subscribers: number;
+  supersedeKey?: string;
+  reject: (error: Error) => void;
+}
+
+// Scheduler for provider calls, replacing a single token bucket shared by every operation
+// Caps the calls in flight per provider and serves waiting calls by priority, then in order of arrival;
+// identical requests share one call, and a request can supersede the older one with the same supersede key
+class RequestScheduler {
+  private limits: Record<string, number>;
+  private defaultLimit: number;
+  private maxBackgroundQueued: number;
+  private running: Map<string, number> = new Map();
+  private waiting: WaitingRequest[] = [];
+  private shared: Map<string, SharedRequest<any>> = new Map();
+  private superseding: Map<string, string> = new Map();
+  private recentWaits: number[] = [];
+  private sequence: number = 0;
+  private listener: ((status: QueueStatus) => void) | null = null;
+  
+  constructor(limits: Record<string, number>, defaultLimit: number, maxBackgroundQueued: number) {
+    this.limits = limits;
+    this.defaultLimit = defaultLimit;
+    this.maxBackgroundQueued = maxBackgroundQueued;
+  }
+  
+  // Run a task once for every caller with the same key that is still in flight
+  // The task is aborted when all of its callers have cancelled, or when a newer request supersedes it
+  run<T>(
+    key: string,
+    task: (signal: AbortSignal) => Promise<T>,
+    options: { priority: RequestPriority; signal?: AbortSignal; supersedeKey?: string }
+  ): Promise<T> {
+    throwIfCancelled(options.signal);
+    
+    // Only join a call that is served at least as soon as this request would be
+    let request: SharedRequest<T> | undefined = this.shared.get(key);
+    if (request && PRIORITY_RANK[request.priority] > PRIORITY_RANK[options.priority]) {
+      request = undefined;
+    }
+    
+    if (options.supersedeKey) {
+      const staleKey = this.superseding.get(options.supersedeKey);
+      if (staleKey && staleKey !== key) {
+        this.supersede(staleKey);
+      }
+    }
+    
+    if (!request) {
+      request = this.start(key, task, options.priority, options.supersedeKey);
+    } else {
+      electronLog.debug('Joining an identical LLM request in flight');
+    }
+    
+    return this.subscribe(key, request, options.signal);
+  }
+  
+  // Wait for a free slot of a provider, returning the function that gives it back
+  async acquire(provider: string, priority: RequestPriority, signal?: AbortSignal): Promise<() => void> {
+    throwIfCancelled(signal);
+    
+    const limit = this.limits[provider] || this.defaultLimit;
+    const ahead = this.waiting.some(waiting =>
+      waiting.provider === provider && PRIORITY_RANK[waiting.priority] <= PRIORITY_RANK[priority]
+    );
+    
+    if ((this.running.get(provider) || 0) < limit && !ahead) {
+      this.occupy(provider, 0);
+      return this.releaser(provider);
+    }
+    
+    // Background work never builds up a queue behind the user
+    if (priority === 'background' &&
+        this.waiting.filter(waiting => waiting.priority === 'background').length >= this.maxBackgroundQueued) {
+      throw new LLMError(ErrorCodes.RATE_LIMIT_ERROR, 'Request queue is full, background request deferred');
+    }
+    
+    await new Promise<void>((resolve, reject) => {
+      const waiting: WaitingRequest = {
+        provider,
+        priority,
+        sequence: ++this.sequence,
+        enqueuedAt: Date.now(),
+        grant: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        }
+      };
+      const onAbort = () => {
+        this.waiting = this.waiting.filter(other => other !== waiting);
+        this.notify();
+        reject(new LLMError(ErrorCodes.CANCELLED, 'Request cancelled'));
+      };
+      
+      this.waiting.push(waiting);
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.notify();
+    });
+    
+    return this.releaser(provider);
+  }
+  
+  // Report changes of the queue to a listener
+  onChange(listener: ((status: QueueStatus) => void) | null): void {
+    this.listener = listener;
+  }
+    
+  // Describe the queue as it is now
+  getStatus(): QueueStatus {
+    const now = Date.now();
+    const queuedByPriority: Record<RequestPriority, number> = { interactive: 0, batch: 0, background: 0 };
+    this.waiting.forEach(waiting => queuedByPriority[waiting.priority]++);
+    
+    let running = 0;
+    this.running.forEach(count => running += count);
+    
+    return {
+      queued: this.waiting.length,
+      queuedByPriority,
+      running,
+      averageWaitMs: this.recentWaits.length > 0
+        ? Math.round(this.recentWaits.reduce((sum, wait) => sum + wait, 0) / this.recentWaits.length)
+        : 0,
+      longestWaitMs: this.waiting.reduce((longest, waiting) => Math.max(longest, now - waiting.enqueuedAt), 0)
+    };
+  }
+  
+  // Start a shared call of the task
+  private start<T>(
+    key: string,
+    task: (signal: AbortSignal) => Promise<T>,
+    priority: RequestPriority,
+    supersedeKey?: string
+  ): SharedRequest<T> {
+    const controller = new AbortController();
+    let reject: (error: Error) => void = () => undefined;
+    const superseded = new Promise<T>((_resolve, rejectSuperseded) => {
+      reject = rejectSuperseded;
+    });
+    
+    const request: SharedRequest<T> = {
+      promise: Promise.race([task(controller.signal), superseded]),
+      controller,
+      priority,
+      subscribers: 0,
+      supersedeKey,
+      reject
+    };
+    
+    this.shared.set(key, request);
+    if (supersedeKey) {
+      this.superseding.set(supersedeKey, key);
+    }
+    
+    // Forget the call once it has settled, unless something has taken its place
+    const forget = () => this.forget(key, request);
+    request.promise.then(forget, forget);
+    
+    return request;
+  }
+  
+  // Give one caller the outcome of a shared call, or a cancellation once its own signal aborts
+  private subscribe<T>(key: string, request: SharedRequest<T>, signal?: AbortSignal): Promise<T> {
+    request.subscribers++;
+    
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        request.subscribers--;
+        if (request.subscribers <= 0) {
+          request.controller.abort();
+          this.forget(key, request);
+        }
+        reject(new LLMError(ErrorCodes.CANCELLED, 'Request cancelled'));
+      };
+      
+      signal?.addEventListener('abort', onAbort, { once: true });
+      request.promise.then(
+        result => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(result);
+        },
+        (error: unknown) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+  
+  // Cancel a shared call made stale by a newer request
+  private supersede(key: string): void {
+    const request = this.shared.get(key);
+    if (!request) {
+      return;
+    }
+    
+    electronLog.info('Superseding a stale LLM request');
+    this.forget(key, request);
+    request.reject(new LLMError(ErrorCodes.CANCELLED, 'Request superseded by a newer one'));
+    request.controller.abort();
+  }
+  
+  // Drop the bookkeeping of a shared call
+  private forget(key: string, request: SharedRequest<any>): void {
+    if (this.shared.get(key) === request) {
+      this.shared.delete(key);
+    }
+    if (request.supersedeKey && this.superseding.get(request.supersedeKey) === key) {
+      this.superseding.delete(request.supersedeKey);
+    }
+  }
+  
+  // Take a slot of a provider, remembering how long the request waited for it
+  private occupy(provider: string, waitMs: number): void {
+    this.running.set(provider, (this.running.get(provider) || 0) + 1);
+    this.recentWaits.push(waitMs);
+    if (this.recentWaits.length > QUEUE_WAIT_SAMPLES) {
+      this.recentWaits.shift();
+    }
+    this.notify();
+  }
+  
+  // Build the function that gives a slot back and lets the next waiting request in, once
+  private releaser(provider: string): () => void {
+    let released = false;
+    
+    return () => {
+      if (released) return;
+      released = true;
+      
+      this.running.set(provider, Math.max(0, (this.running.get(provider) || 0) - 1));
+      this.grantNext(provider);
+      this.notify();
+    };
+  }
+  
+  // Hand a free slot of a provider to the most urgent waiting request, the oldest first among equals
+  private grantNext(provider: string): void {
+    const limit = this.limits[provider] || this.defaultLimit;
+    
+    while ((this.running.get(provider) || 0) < limit) {
+      let next: WaitingRequest | null = null;
+      for (const waiting of this.waiting) {
+        if (waiting.provider !== provider) continue;
+        if (!next ||
+            PRIORITY_RANK[waiting.priority] < PRIORITY_RANK[next.priority] ||
+            (waiting.priority === next.priority && waiting.sequence < next.sequence)) {
+          next = waiting;
+        }
+      }
+      
+      if (!next) return;
+      
+      const granted: WaitingRequest = next;
+      this.waiting = this.waiting.filter(waiting => waiting !== granted);
+      this.occupy(provider, Date.now() - granted.enqueuedAt);
+      granted.grant();
+    }
+  }
+  
+  // Tell the listener about the current queue
+  private notify(): void {
+    if (!this.listener) return;
+    
+    try {
+      this.listener(this.getStatus());
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      electronLog.warn('Queue status listener failed:', errorMessage);
+    }
+  }
+}
+
+// Circuit breaker over the providers
+// A provider that fails FAILURE_THRESHOLD times in a row is skipped until its cooldown has passed;
+// after that one request is let through, and another failure opens the circuit again
+class CircuitBreaker {
+  private failures: Map<string, number> = new Map();
+  private openUntil: Map<string, number> = new Map();
+  private threshold: number;
+  private cooldownMs: number;
+  
+  constructor(threshold: number, cooldownMs: number) {
+    this.threshold = threshold;
+    this.cooldownMs = cooldownMs;
+  }
+  
+  // Check whether a provider is being skipped
+  isOpen(providerId: string): boolean {
+    return (this.openUntil.get(providerId) || 0) > Date.now();
+  }
+  
+  // Forget the failures of a provider that answered
+  recordSuccess(providerId: string): void {
+    this.failures.delete(providerId);
+    this.openUntil.delete(providerId);
+  }
+  
+  // Count a failure, opening the circuit once there are too many in a row
+  // Returns true when this failure opened it
+  recordFailure(providerId: string): boolean {
+    const failures = (this.failures.get(providerId) || 0) + 1;
+    
+    if (failures >= this.threshold) {
+      this.openUntil.set(providerId, Date.now() + this.cooldownMs);
+      // One more failure after the cooldown opens it again
+      this.failures.set(providerId, this.threshold - 1);
+      return true;
+    }
+    
+    this.failures.set(providerId, failures);
+    return false;
+  }
+}
+
+// Helper to tell whether an error is worth retrying: the provider may answer if asked again shortly
+function isTransientError(error: unknown): boolean {
+  if (!(error instanceof LLMError)) {
+    return false;
+  }
+  
+  return error.code === ErrorCodes.NETWORK_ERROR ||
+    error.code === ErrorCodes.TIMEOUT_ERROR ||
+    error.code === ErrorCodes.RATE_LIMIT_ERROR ||
+    (error.code === ErrorCodes.API_ERROR && (error.status || 0) >= 500);
+}
+
+// Helper to wait before a retry, giving up early if the request is cancelled
+function waitForRetry(delayMs: number, signal?: AbortSignal): Promise<void> {
+  throwIfCancelled(signal);
+  
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new LLMError(ErrorCodes.CANCELLED, 'Request cancelled'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delayMs);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Token counts of a provider call so far
+interface UsageMeter extends TokenUsage {
+  // Whether any completion of the call had its counts estimated
+  estimated: boolean;
+}
+
+// Helper to read token counts out of a provider response, null when it has none
+function toTokenUsage(promptTokens: unknown, completionTokens: unknown): TokenUsage | null {
+  if (typeof promptTokens !== 'number' && typeof completionTokens !== 'number') {
+    return null;
+  }
+  
+  return {
+    promptTokens: typeof promptTokens === 'number' ? promptTokens : 0,
+    completionTokens: typeof completionTokens === 'number' ? completionTokens : 0
+  };
+}
+
+// Helper to merge reported token counts into a running total
+// Providers repeat or grow their counts across stream events, so the largest one is kept
+function mergeUsage(usage: TokenUsage, reported: TokenUsage | null): void {
+  if (reported) {
+    usage.promptTokens = Math.max(usage.promptTokens, reported.promptTokens);
+    usage.completionTokens = Math.max(usage.completionTokens, reported.completionTokens);
+  }
+}
+
+// OpenAI models that can't answer chat completions, left out of the model list
+const NON_CHAT_MODEL_PATTERN = /embedding|whisper|tts|dall-e|moderation|davinci|babbage|transcribe|image|realtime|audio/i;
+
+// Base provider adapter
+// Performs the HTTP call and leaves request building, parsing and error details to subclasses
+abstract class BaseProvider implements LLMProvider {
+  abstract readonly id: string;
+  abstract readonly label: string;
+  abstract readonly requiresApiKey: boolean;
+  abstract readonly defaultBaseUrl: string;
+  abstract readonly defaultModel: string;
+  readonly defaultTimeout: number = 30000;
+  
+  abstract buildRequest(prompt: LLMPrompt, config: ProviderConfig, stream?: boolean): ProviderHttpRequest;
+  abstract parseResponse(data: any): string;
+  abstract parseStreamEvent(event: any): string;
+  abstract parseUsage(data: any): TokenUsage | null;
+  abstract buildModelsRequest(config: ProviderConfig): ProviderModelsRequest;
+  abstract parseModels(data: any): string[];
+  
+  // Send a prompt to the provider and return the raw completion text
+  // Streams the response when onDelta is given, reporting the text received so far
+  async complete(prompt: LLMPrompt, config: ProviderConfig, options: LLMCallOptions = {}): Promise<string> {
+    if (this.requiresApiKey && !config.apiKey) {
+      throw new LLMError(ErrorCodes.AUTH_ERROR, `${this.label} API key not configured`);
+    }
+    
+    throwIfCancelled(options.signal);
+    
+    // Token counts come with the response, or spread over the stream events
+    const usage: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+    const text = options.onDelta
+      ? await this.streamCompletion(prompt, config, options.onDelta, usage, options.signal)
+      : await this.fetchCompletion(prompt, config, usage, options.signal);
+    
+    if (options.onUsage && (usage.promptTokens > 0 || usage.completionTokens > 0)) {
+      options.onUsage(usage);
+    }
+    
+    if (typeof text !== 'string' || !text.trim()) {
+      throw new LLMError(ErrorCodes.LLM_INVALID_RESPONSE, `${this.label} returned an empty response`);
+    }
+    
+    return text;
+  }
+  
+  // List the models the provider offers, sorted by name
+  async listModels(config: ProviderConfig): Promise<string[]> {
+    if (this.requiresApiKey && !config.apiKey) {
+      throw new LLMError(ErrorCodes.AUTH_ERROR, `${this.label} API key not configured`);
+    }
+    
+    const request = this.buildModelsRequest(config);
+    
+    let data: any;
+    try {
+      const response = await axios.get(request.url, {
+        headers: request.headers,
+        timeout: config.timeout
+      });
+      data = response.data;
+    } catch (error: unknown) {
+      throw this.mapError(error);
+    }
+    
+    const models = this.parseModels(data).filter(model => typeof model === 'string' && model);
+    return Array.from(new Set(models)).sort();
+  }
+  
+  // Make a blocking request and parse the full response body
+  private async fetchCompletion(prompt: LLMPrompt, config: ProviderConfig, usage: TokenUsage, signal?: AbortSignal): Promise<string> {
+    const request = this.buildRequest(prompt, config);
+    
+    let data: any;
+    try {
+      const response = await axios.post(request.url, request.body, {
+        headers: request.headers,
+        timeout: config.timeout,
+        signal
+      });
+      data = response.data;
+    } catch (error: unknown) {
+      throwIfCancelled(signal);
+      throw this.mapError(error);
+    }
+    
+    mergeUsage(usage, this.parseUsage(data));
+    return this.parseResponse(data);
+  }
+  
+  // Make a streaming request and read server-sent events as they arrive
+  private async streamCompletion(
+    prompt: LLMPrompt,
+    config: ProviderConfig,
+    onDelta: (text: string) => void,
+    usage: TokenUsage,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const request = this.buildRequest(prompt, config, true);
+    
+    let text = '';
+    try {
+      const response = await axios.post(request.url, request.body, {
+        headers: request.headers,
+        timeout: config.timeout,
+        responseType: 'stream',
+        signal
+      });
+      
+      const stream = response.data;
+      stream.setEncoding('utf8');
+      
+      let buffer = '';
+      for await (const chunk of stream) {
+        buffer += chunk;
+        const lines = buffer.split(/\r?\n/);
+        buffer = lines.pop() || '';
+        
+        for (const line of lines) {
+          const delta = this.parseStreamLine(line, usage);
+          if (delta) {
+            text += delta;
+            onDelta(text);
+          }
+        }
+      }
+      
+      // Flush a final event that wasn't newline terminated
+      const delta = this.parseStreamLine(buffer, usage);
+      if (delta) {
+        text += delta;
+        onDelta(text);
+      }
+    } catch (error: unknown) {
+      throwIfCancelled(signal);
+      throw this.mapError(await this.readStreamError(error));
+    }
+    
+    return text;
+  }
+  
+  // Parse a single server-sent event line into a text delta, keeping any token counts it carries
+  private parseStreamLine(line: string, usage: TokenUsage): string {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('data:')) {
+      return '';
+    }
+    
+    const payload = trimmed.slice(5).trim();
+    if (!payload || payload === '[DONE]') {
+      return '';
+    }
+    
+    let event: any;
+    try {
+      event = JSON.parse(payload);
+    } catch (error: unknown) {
+      throw new LLMError(ErrorCodes.LLM_INVALID_RESPONSE, `${this.label} sent a malformed stream event`);
+    }
+    
+    if (event?.error) {
+      throw new LLMError(ErrorCodes.API_ERROR, `${this.label} API error: ${this.extractErrorMessage(event)}`);
+    }
+    
+    mergeUsage(usage, this.parseUsage(event));
+    return this.parseStreamEvent(event) || '';
+  }
+  
+  // Read the body of a failed streaming request so the error message can be mapped
+  private async readStreamError(error: unknown): Promise<unknown> {
+    if (!axios.isAxiosError(error) || !error.response?.data || typeof error.response.data.on !== 'function') {
+      return error;
+    }
+    
+    let body = '';
+    try {
+      for await (const chunk of error.response.data) {
+        body += chunk.toString();
+      }
+      error.response.data = JSON.parse(body);
+    } catch (parseError: unknown) {
+      error.response.data = body;
+    }
+    
+    return error;
+  }
+  
+  // Map transport and HTTP errors onto ErrorCodes
+  mapError(error: unknown): LLMError {
+    if (error instanceof LLMError) {
+      return error;
+    }
+    
+    if (axios.isAxiosError(error)) {
+      if (error.response) {
+        const status = error.response.status;
+        const message = `${this.label} API error: ${status} - ${this.extractErrorMessage(error.response.data) || error.response.statusText}`;
+        
+        if (status === 401 || status === 403) {
+          return new LLMError(ErrorCodes.AUTH_ERROR, message, status);
+        }
+        if (status === 429) {
+          return new LLMError(ErrorCodes.RATE_LIMIT_ERROR, message, status);
+        }
+        return new LLMError(ErrorCodes.API_ERROR, message, status);
+      }
+      
+      if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+        return new LLMError(ErrorCodes.TIMEOUT_ERROR, `${this.label} request timed out`);
+      }
+      
+      return new LLMError(ErrorCodes.NETWORK_ERROR, `No response received from ${this.label}`);
+    }
+    
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return new LLMError(ErrorCodes.UNKNOWN_ERROR, message);
+  }
+  
+  // Pull a human readable message out of a provider error body
+  protected extractErrorMessage(data: any): string {
+    if (!data) return '';
+    if (typeof data === 'string') return data;
+    if (typeof data.error === 'string') return data.error;
+    return data.error?.message || data.message || '';
+  }
+}
+
+// OpenAI chat completions adapter
+export class OpenAIProvider extends BaseProvider {
+  readonly id: string = 'openai';
+  readonly label: string = 'OpenAI';
+  readonly requiresApiKey: boolean = true;
+  readonly defaultBaseUrl: string = 'https://api.openai.com/v1';
+  readonly defaultModel: string = 'gpt-4o-mini';
+  // Whether the server honours response_format with a JSON schema
+  protected readonly supportsStructuredOutput: boolean = true;
+  // Whether the model list mixes in models that can't chat (embeddings, speech, images)
+  protected readonly listsOtherModels: boolean = true;
+  // Whether the server sends token counts at the end of a stream when asked with stream_options
+  protected readonly streamsUsage: boolean = true;
+  
+  buildRequest(prompt: LLMPrompt, config: ProviderConfig, stream: boolean = false): ProviderHttpRequest {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json'
+    };
+    if (config.apiKey) {
+      headers.Authorization = `Bearer ${config.apiKey}`;
+    }
+    
+    const body: Record<string, any> = {
+      model: config.model,
+      messages: [
+        { role: 'system', content: prompt.system },
+        { role: 'user', content: prompt.user }
+      ],
+      temperature: config.temperature,
+      max_tokens: config.maxTokens,
+      stream
+    };
+    
+    if (stream && this.streamsUsage) {
+      body.stream_options = { include_usage: true };
+    }
+    
+    if (prompt.schema && this.supportsStructuredOutput) {
+      body.response_format = {
+        type: 'json_schema',
+        json_schema: { name: prompt.schema.name, schema: prompt.schema.schema, strict: true }
+      };
+    }
+    
+    return {
+      url: `${config.baseUrl}/chat/completions`,
+      headers,
+      body
+    };
+  }
+  
+  parseResponse(data: any): string {
+    return data?.choices?.[0]?.message?.content;
+  }
+  
+  parseStreamEvent(event: any): string {
+    return event?.choices?.[0]?.delta?.content || '';
+  }
+  
+  parseUsage(data: any): TokenUsage | null {
+    return toTokenUsage(data?.usage?.prompt_tokens, data?.usage?.completion_tokens);
+  }
+  
+  buildModelsRequest(config: ProviderConfig): ProviderModelsRequest {
+    return {
+      url: `${config.baseUrl}/models`,
+      headers: config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}
+    };
+  }
+  
+  parseModels(data: any): string[] {
+    const models: any[] = Array.isArray(data?.data) ? data.data : [];
+    return models
+      .map(model => model?.id)
+      .filter(id => !this.listsOtherModels || !NON_CHAT_MODEL_PATTERN.test(id || ''));
+  }
+}
+
+// Adapter for local servers speaking the OpenAI protocol (LM Studio, Ollama, llama.cpp)
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  readonly id: string = 'local';
+  readonly label: string = 'Local server';
+  readonly requiresApiKey: boolean = false;
+  readonly defaultBaseUrl: string = 'http://localhost:1234/v1';
+  readonly defaultModel: string = 'local-model'; // LM Studio uses whatever model is loaded
+  readonly defaultTimeout: number = 60000; // Local models can be slow
+  // Local servers differ in which response_format types they accept, so rely on the prompt alone
+  protected readonly supportsStructuredOutput: boolean = false;
+  // Local servers list what the user loaded, which is left for them to pick from
+  protected readonly listsOtherModels: boolean = false;
+  // Older local servers reject stream_options, most report usage in full responses only
+  protected readonly streamsUsage: boolean = false;
+}
+
+// Anthropic messages API adapter
+export class AnthropicProvider extends BaseProvider {
+  readonly id: string = 'anthropic';
+  readonly label: string = 'Anthropic';
+  readonly requiresApiKey: boolean = true;
+  readonly defaultBaseUrl: string = 'https://api.anthropic.com/v1';
+  readonly defaultModel: string = 'claude-3-5-haiku-latest';
+  
+  buildRequest(prompt: LLMPrompt, config: ProviderConfig, stream: boolean = false): ProviderHttpRequest {
+    const body: Record<string, any> = {
+      model: config.model,
+      system: prompt.system,
+      messages: [
+        { role: 'user', content: prompt.user }
+      ],
+      temperature: config.temperature,
+      max_tokens: config.maxTokens,
+      stream
+    };
+    
+    // Structured output comes from forcing a tool whose input is the expected JSON
+    if (prompt.schema) {
+      body.tools = [{
+        name: prompt.schema.name,
+        description: 'Report the result',
+        input_schema: prompt.schema.schema
+      }];
+      body.tool_choice = { type: 'tool', name: prompt.schema.name };
+    }
+    
+    return {
+      url: `${config.baseUrl}/messages`,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': config.apiKey,
+        'anthropic-version': '2023-06-01'
+      },
+      body
+    };
+  }
+  
+  parseResponse(data: any): string {
+    const blocks: any[] = Array.isArray(data?.content) ? data.content : [];
+    
+    const toolUse = blocks.find(block => block.type === 'tool_use');
+    if (toolUse) {
+      return JSON.stringify(toolUse.input);
+    }
+    
+    return blocks
+      .filter(block => block.type === 'text')
+      .map(block => block.text)
+      .join('');
+  }
+  
+  parseStreamEvent(event: any): string {
+    if (event?.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+      return event.delta.text;
+    }
+    if (event?.type === 'content_block_delta' && event.delta?.type === 'input_json_delta') {
+      return event.delta.partial_json || '';
+    }
+    return '';
+  }
+  
+  parseUsage(data: any): TokenUsage | null {
+    // Streams report the input tokens when the message starts and the output tokens so far in each message_delta
+    const usage = data?.usage || data?.message?.usage;
+    return toTokenUsage(usage?.input_tokens, usage?.output_tokens);
+  }
+  
+  buildModelsRequest(config: ProviderConfig): ProviderModelsRequest {
+    return {
+      url: `${config.baseUrl}/models?limit=1000`,
+      headers: {
+        'x-api-key': config.apiKey,
+        'anthropic-version': '2023-06-01'
+      }
+    };
+  }
+  
+  parseModels(data: any): string[] {
+    const models: any[] = Array.isArray(data?.data) ? data.data : [];
+    return models.map(model => model?.id);
+  }
+}
+
+// Google Gemini generateContent adapter
+export class GeminiProvider extends BaseProvider {
+  readonly id: string = 'gemini';
+  readonly label: string = 'Gemini';
+  readonly requiresApiKey: boolean = true;
+  readonly defaultBaseUrl: string = 'https://generativelanguage.googleapis.com/v1beta';
+  readonly defaultModel: string = 'gemini-1.5-flash-latest';
+  
+  buildRequest(prompt: LLMPrompt, config: ProviderConfig, stream: boolean = false): ProviderHttpRequest {
+    return {
+      url: stream
+        ? `${config.baseUrl}/models/${config.model}:streamGenerateContent?alt=sse`
+        : `${config.baseUrl}/models/${config.model}:generateContent`,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': config.apiKey
+      },
+      body: {
+        systemInstruction: {
+          parts: [{ text: prompt.system }]
+        },
+        contents: [{
+          role: 'user',
+          parts: [{ text: prompt.user }]
+        }],
+        generationConfig: {
+          temperature: config.temperature,
+          topK: 40,
+          topP: 0.95,
+          maxOutputTokens: config.maxTokens,
+          ...(prompt.schema ? {
+            responseMimeType: 'application/json',
+            responseSchema: toGeminiSchema(prompt.schema.schema)
+          } : {})
+        },
+        safetySettings: [
+          {
+            category: 'HARM_CATEGORY_HARASSMENT',
+            threshold: 'BLOCK_MEDIUM_AND_ABOVE'
+          },
+          {
+            category: 'HARM_CATEGORY_HATE_SPEECH',
+            threshold: 'BLOCK_MEDIUM_AND_ABOVE'
+          },
+          {
+            category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT',
+            threshold: 'BLOCK_MEDIUM_AND_ABOVE'
+          },
+          {
+            category: 'HARM_CATEGORY_DANGEROUS_CONTENT',
+            threshold: 'BLOCK_MEDIUM_AND_ABOVE'
+          }
+        ]
+      }
+    };
+  }
+  
+  parseResponse(data: any): string {
+    const parts: any[] = data?.candidates?.[0]?.content?.parts || [];
+    return parts.map(part => part.text || '').join('');
+  }
+  
+  parseStreamEvent(event: any): string {
+    // Each streamed event has the same shape as a full response
+    return this.parseResponse(event);
+  }
+  
+  parseUsage(data: any): TokenUsage | null {
+    return toTokenUsage(data?.usageMetadata?.promptTokenCount, data?.usageMetadata?.candidatesTokenCount);
+  }
+  
+  buildModelsRequest(config: ProviderConfig): ProviderModelsRequest {
+    return {
+      url: `${config.baseUrl}/models?pageSize=1000`,
+      headers: { 'x-goog-api-key': config.apiKey }
+    };
+  }
+  
+  parseModels(data: any): string[] {
+    const models: any[] = Array.isArray(data?.models) ? data.models : [];
+    // Only models that generate content, named without their "models/" prefix as generateContent URLs expect
+    return models
+      .filter(model => (model?.supportedGenerationMethods || []).includes('generateContent'))
+      .map(model => String(model.name || '').replace(/^models\//, ''));
+  }
 }
 
-// Rate limiter implementation
-class RateLimiter {
-  private tokens: number;
-  private maxTokens: number;
-  private refillRate: number; // tokens per second
-  private lastRefillTimestamp: number;
+// Registry of provider adapters keyed by provider id
+export class ProviderRegistry {
+  private providers: Map<string, LLMProvider> = new Map();
   
-  constructor(maxTokens: number, refillRate: number) {
-    this.tokens = maxTokens;
-    this.maxTokens = maxTokens;
-    this.refillRate = refillRate;
-    this.lastRefillTimestamp = Date.now();
+  // Register an adapter under its own id and any extra aliases
+  register(provider: LLMProvider, aliases: string[] = []): void {
+    this.providers.set(provider.id, provider);
+    aliases.forEach(alias => this.providers.set(alias, provider));
   }
   
-  // Check if request can be made and consume token if possible
-  async consume(tokens: number = 1): Promise<boolean> {
-    this.refill();
-    
-    if (this.tokens >= tokens) {
-      this.tokens -= tokens;
-      return true;
-    }
-    
-    // Wait until enough tokens are available
-    const waitTime = (tokens - this.tokens) * (1000 / this.refillRate);
-    await new Promise(resolve => setTimeout(resolve, waitTime));
-    
-    this.refill();
-    this.tokens -= tokens;
-    return true;
+  get(id: string): LLMProvider | undefined {
+    return this.providers.get(id);
   }
   
-  // Refill tokens based on elapsed time
-  private refill(): void {
-    const now = Date.now();
-    const elapsedSeconds = (now - this.lastRefillTimestamp) / 1000;
-    const tokensToAdd = elapsedSeconds * this.refillRate;
-    
-    this.tokens = Math.min(this.maxTokens, this.tokens + tokensToAdd);
-    this.lastRefillTimestamp = now;
+  has(id: string): boolean {
+    return this.providers.has(id);
+  }
+  
+  // List each registered adapter once, ignoring aliases
+  list(): LLMProvider[] {
+    return Array.from(new Set(this.providers.values()));
   }
 }
 
+// Create a registry with the built-in adapters
+export function createDefaultRegistry(): ProviderRegistry {
+  const registry = new ProviderRegistry();
+  registry.register(new OpenAICompatibleProvider(), ['lmstudio']);
+  registry.register(new OpenAIProvider());
+  registry.register(new AnthropicProvider());
+  registry.register(new GeminiProvider());
+  return registry;
+}
+
+// Reply schema of each operation
+const OUTPUT_SCHEMAS: Record<string, OutputSchema> = {
+  'grammar-check': GRAMMAR_ISSUES_SCHEMA,
+  rephrase: SUGGESTIONS_SCHEMA,
+  translate: TRANSLATION_SCHEMA,
+  summarize: TEXT_RESULT_SCHEMA,
+  expand: TEXT_RESULT_SCHEMA,
+  outline: TEXT_RESULT_SCHEMA,
+  complete: TEXT_RESULT_SCHEMA,
+  chat: TEXT_RESULT_SCHEMA,
+  explain: EXPLANATION_SCHEMA
+};
+
+// Suggestion type of the operations that reply with a single generated text
+const TEXT_RESULT_TYPES: Record<string, string> = {
+  summarize: 'summary',
+  expand: 'expansion',
+  outline: 'outline',
+  complete: 'completion',
+  chat: 'chat'
+};
+
+// Token budgets of a chat prompt, estimated at CHARS_PER_TOKEN characters per token
+// The shared editor text and the earlier turns are cut to fit so long documents and conversations stay within the model's context
+const CHARS_PER_TOKEN = 4;
+const CHAT_CONTEXT_TOKENS = 3000;
+const CHAT_HISTORY_TOKENS = 2000;
+
+// Environment variables read for the API key of a provider that has none stored
+const API_KEY_ENV: Record<string, string> = {
+  gemini: 'GEMINI_API_KEY',
+  openai: 'OPENAI_API_KEY',
+  anthropic: 'ANTHROPIC_API_KEY'
+};
+
+// Retries of a transient failure before moving on to the next provider, waiting RETRY_BASE_DELAY ms and doubling each time
+const MAX_RETRIES = 2;
+const RETRY_BASE_DELAY = 500;
+
+// Provider calls in flight at once - a local server answers one request at a time
+const PROVIDER_CONCURRENCY: Record<string, number> = { local: 1 };
+const DEFAULT_CONCURRENCY = 4;
+
+// Background requests allowed to wait for a slot; more are deferred so the caller retries later
+const MAX_BACKGROUND_QUEUED = 2;
+
+// Requests the average queue wait is taken over
+const QUEUE_WAIT_SAMPLES = 20;
+
+// Sampling used by operations that don't set their own
+const DEFAULT_TEMPERATURE = 0.3;
+const DEFAULT_MAX_TOKENS = 1000;
+
+// Time a health check waits for the provider to answer
+const HEALTH_CHECK_TIMEOUT = 5000;
+
+// Share of a monthly soft limit from which the status bar warns
+const USAGE_WARNING_SHARE = 0.8;
+
+// Key of the operation settings that apply to every operation without settings of its own
+const ALL_OPERATIONS = 'default';
+
+// Failures in a row after which a provider is skipped, and for how long
+const CIRCUIT_FAILURE_THRESHOLD = 3;
+const CIRCUIT_COOLDOWN = 60000;
+
+// Version of the built-in prompts and reply format, combined with the template version in every cache key
+// Bump it whenever a built-in prompt or the expected reply format changes so stale replies aren't reused
+const PROMPT_VERSION = '3';
+
 export class LLMService {
   private provider: string;
   private apiKeys: Record<string, string>;
-  private cache: LRUCache<string, LLMResponse>;
-  private rateLimiter: RateLimiter;
+  private baseUrls: Record<string, string>;
+  private registry: ProviderRegistry;
+  private cache: LLMCache;
+  private templates: PromptTemplateStore;
+  private customStyles: CustomStyle[] = [];
+  // Providers tried in order when the configured one fails
+  private fallbackChain: string[] = [];
+  // Cloud providers the user allowed text to be sent to as a fallback
+  private cloudFallbackConsent: Record<string, boolean> = {};
+  // Model and sampling settings by operation
+  private operationSettings: Record<string, OperationSettings> = {};
+  private scheduler: RequestScheduler;
+  private circuitBreaker: CircuitBreaker;
+  // Latest health check, or request outcome, by provider
+  private health: Map<string, ProviderHealth> = new Map();
+  private healthListener: ((status: HealthStatus) => void) | null = null;
+  // Replaces personal data in text sent to cloud providers
+  private redactor: PiiRedactor = new PiiRedactor();
+  private usageLog: UsageLog;
+  // Prices by model name, in USD per million tokens
+  private modelPrices: Record<string, ModelPrice> = {};
+  private usageLimits: UsageLimits = { monthlyCost: 0, monthlyTokens: 0 };
+  private usageListener: ((status: UsageStatus) => void) | null = null;
+  // Asks the user whether to send a request once a soft limit is reached
+  private usageLimitPrompt: ((status: UsageStatus) => Promise<boolean>) | null = null;
+  // Answer being waited for, shared by requests that arrive meanwhile
+  private pendingUsagePrompt: Promise<boolean> | null = null;
+  // Month and limits the user agreed to exceed
+  private acknowledgedUsage: string | null = null;
+  // Returns the user dictionary of the open document for grammar checks
+  private dictionarySource: (() => UserDictionary) | null = null;
   
   // S1: Initialize LLMService
-  // Sets up the LLM service with provider settings and caching
-  constructor() {
+  // Sets up the LLM service with provider settings, prompt templates, caching and usage accounting
+  constructor(
+    registry: ProviderRegistry = createDefaultRegistry(),
+    cache: LLMCache = new LLMCache(),
+    templates: PromptTemplateStore = new PromptTemplateStore(),
+    usageLog: UsageLog = new UsageLog()
+  ) {
+    this.registry = registry;
+    this.cache = cache;
+    this.templates = templates;
+    this.usageLog = usageLog;
     this.provider = process.env.DEFAULT_LLM_PROVIDER || 'local';
-    this.apiKeys = {
-      gemini: process.env.GEMINI_API_KEY || '',
-      lmstudio: '' // LM Studio doesn't need API key for local access
-    };
-    this.cache = new LRUCache({
-      max: 100, // Store max 100 responses
-      ttl: 1000 * 60 * 60, // Cache for 1 hour
-      allowStale: false
+    this.apiKeys = {};
+    Object.keys(API_KEY_ENV).forEach(id => {
+      this.apiKeys[id] = process.env[API_KEY_ENV[id]] || '';
     });
-    this.rateLimiter = new RateLimiter(10, 2); // 10 tokens, refill rate of 2 tokens per second
+    this.baseUrls = {
+      local: process.env.LM_STUDIO_URL || ''
+    };
+    this.scheduler = new RequestScheduler(PROVIDER_CONCURRENCY, DEFAULT_CONCURRENCY, MAX_BACKGROUND_QUEUED);
+    this.circuitBreaker = new CircuitBreaker(CIRCUIT_FAILURE_THRESHOLD, CIRCUIT_COOLDOWN);
     
     electronLog.info('LLMService initialized with provider:', this.provider);
   }
   
   // S2: Initialize LLM provider with settings
   // Updates LLM provider settings
-  initialize(provider: string, apiKeys: Record<string, string>): void {
+  initialize(provider: string, apiKeys: Record<string, string>, baseUrls: Record<string, string> = {}): void {
     this.provider = provider;
-    this.apiKeys = { ...this.apiKeys, ...apiKeys };
+    
+    // Ignore blank keys so settings without a key don't wipe one loaded from the environment
+    Object.entries(apiKeys).forEach(([id, key]) => {
+      if (key) this.apiKeys[id] = key;
+    });
+    Object.entries(baseUrls).forEach(([id, url]) => {
+      if (url) this.baseUrls[id] = url;
+    });
+    
+    if (!this.registry.has(provider)) {
+      electronLog.warn(`LLMService provider "${provider}" is not registered`);
+    }
     
     electronLog.info('LLMService provider updated:', provider);
   }
   
+  // S26: Set API key
+  // Replaces the key of a provider; a blank key falls back to the one from the environment
+  setApiKey(providerId: string, key: string): void {
+    this.apiKeys[providerId] = key || process.env[API_KEY_ENV[providerId]] || '';
+  }
+  
+  // S27: Check for an environment key
+  // Tells whether the key of a provider can come from the environment
+  hasEnvironmentKey(providerId: string): boolean {
+    return !!API_KEY_ENV[providerId] && !!process.env[API_KEY_ENV[providerId]];
+  }
+  
+  // S28: Set fallback chain
+  // Sets the providers tried after the configured one fails and which cloud providers may receive text
+  setFallbackChain(chain: string[], cloudConsent: Record<string, boolean> = {}): void {
+    this.fallbackChain = chain.filter(id => {
+      if (!this.registry.has(id)) {
+        electronLog.warn(`Ignoring unknown fallback provider "${id}"`);
+        return false;
+      }
+      return true;
+    });
+    this.cloudFallbackConsent = { ...cloudConsent };
+  }
+  
+  // S33: Set operation settings
+  // Sets the model, temperature and max tokens used for each operation
+  setOperationSettings(settings: Record<string, OperationSettings>): void {
+    this.operationSettings = { ...settings };
+  }
+  
+  // S39: Set redaction settings
+  // Sets the rules that replace personal data before text is sent to a cloud provider
+  setRedactionSettings(settings: RedactionSettings): void {
+    this.redactor.setSettings(settings);
+  }
+  
+  // S40: Preview redaction
+  // Renders the prompt of an operation as a cloud provider would receive it; settings override the saved ones, e.g. ones not saved yet
+  previewRedaction(text: string, operation: string = 'rephrase', settings?: RedactionSettings): RedactionPreview {
+    const redactor = settings ? new PiiRedactor(settings) : this.redactor;
+    const redaction = redactor.isEnabled() ? redactor.begin() : null;
+    const request: LLMRequest = { text, operation };
+    const prompt = this.buildPrompt(redaction ? this.redactRequest(request, redaction) : request);
+    
+    return {
+      enabled: !!redaction,
+      cloud: this.getUsableChain().some(providerId => !!this.registry.get(providerId)?.requiresApiKey),
+      items: redaction ? redaction.getItems() : [],
+      system: prompt.system,
+      user: prompt.user
+    };
+  }
+  
+  // S41: Set usage settings
+  // Sets the model prices costs are estimated with and the monthly soft limits
+  setUsageSettings(prices: Record<string, ModelPrice>, limits: UsageLimits): void {
+    this.modelPrices = { ...prices };
+    this.usageLimits = {
+      monthlyCost: Math.max(0, Number(limits?.monthlyCost) || 0),
+      monthlyTokens: Math.max(0, Number(limits?.monthlyTokens) || 0)
+    };
+    this.notifyUsage();
+  }
+  
+  // S42: Get usage status
+  // Sums this month's usage and compares it with the soft limits
+  getUsageStatus(): UsageStatus {
+    const now = new Date();
+    const month = toDay(now).slice(0, 7);
+    const summary = this.summarize(this.usageLog.getDaily(`${month}-01`, toDay(now)));
+    const tokens = summary.promptTokens + summary.completionTokens;
+    const limits = { ...this.usageLimits };
+    
+    const share = Math.max(
+      limits.monthlyCost > 0 ? summary.cost / limits.monthlyCost : 0,
+      limits.monthlyTokens > 0 ? tokens / limits.monthlyTokens : 0
+    );
+    
+    return {
+      month,
+      requests: summary.requests,
+      tokens,
+      cost: summary.cost,
+      limits,
+      level: share >= 1 ? 'exceeded' : share >= USAGE_WARNING_SHARE ? 'warning' : 'ok',
+      acknowledged: this.acknowledgedUsage === this.getUsageAcknowledgement(month)
+    };
+  }
+  
+  // S43: Get usage report
+  // Sums the usage of the last days by day, model and operation
+  getUsageReport(days: number = 30): UsageReport {
+    const now = new Date();
+    const from = toDay(new Date(now.getFullYear(), now.getMonth(), now.getDate() - Math.max(1, days) + 1));
+    const to = toDay(now);
+    
+    const totals: UsageSummary = { ...emptyTotals(), cost: 0 };
+    const byDay = new Map<string, UsageSummary & { date: string }>();
+    const byModel = new Map<string, UsageSummary & { provider: string; model: string; priced: boolean }>();
+    const byOperation = new Map<string, UsageSummary & { operation: string }>();
+    
+    this.usageLog.getDaily(from, to).forEach(daily => {
+      const cost = this.getCost(daily);
+      const modelKey = `${daily.provider}/${daily.model}`;
+      
+      if (!byDay.has(daily.date)) {
+        byDay.set(daily.date, { date: daily.date, ...emptyTotals(), cost: 0 });
+      }
+      if (!byModel.has(modelKey)) {
+        byModel.set(modelKey, {
+          provider: daily.provider,
+          model: daily.model,
+          priced: !!this.getPrice(daily.model),
+          ...emptyTotals(),
+          cost: 0
+        });
+      }
+      if (!byOperation.has(daily.operation)) {
+        byOperation.set(daily.operation, { operation: daily.operation, ...emptyTotals(), cost: 0 });
+      }
+      
+      [totals, byDay.get(daily.date)!, byModel.get(modelKey)!, byOperation.get(daily.operation)!].forEach(summary => {
+        addTotals(summary, daily);
+        summary.cost += cost;
+      });
+    });
+    
+    return {
+      from,
+      to,
+      totals,
+      days: Array.from(byDay.values()).sort((a, b) => a.date.localeCompare(b.date)),
+      models: Array.from(byModel.values()).sort((a, b) => b.cost - a.cost || b.requests - a.requests),
+      operations: Array.from(byOperation.values()).sort((a, b) => b.requests - a.requests),
+      status: this.getUsageStatus()
+    };
+  }
+  
+  // S44: Follow usage
+  // Registers a listener told about this month's usage after every request and settings change
+  onUsageStatus(listener: ((status: UsageStatus) => void) | null): void {
+    this.usageListener = listener;
+  }
+  
+  // S45: Set usage limit prompt
+  // Registers how the user is asked before a request is sent past a soft limit; without one requests go ahead
+  setUsageLimitPrompt(prompt: ((status: UsageStatus) => Promise<boolean>) | null): void {
+    this.usageLimitPrompt = prompt;
+  }
+  
+  // S46: Clear usage
+  // Drops the usage log and its daily totals
+  clearUsage(): void {
+    this.usageLog.clear();
+    this.notifyUsage();
+  }
+  
+  // S47: Flush usage
+  // Saves pending usage totals before the app quits
+  flushUsage(): void {
+    this.usageLog.flush();
+  }
+  
+  // S48: Set dictionary source
+  // Registers where grammar checks get the user dictionary of the open document; without one nothing is filtered
+  setDictionarySource(source: (() => UserDictionary) | null): void {
+    this.dictionarySource = source;
+  }
+  
+  // S34: List models
+  // Asks a provider which models it offers; baseUrl overrides the configured server, e.g. one not saved yet
+  async listModels(providerId: string, baseUrl?: string): Promise<string[]> {
+    const provider = this.registry.get(providerId);
+    if (!provider) {
+      throw new LLMError(ErrorCodes.LLM_NOT_AVAILABLE, `Unknown LLM provider: ${providerId}`);
+    }
+    
+    const config = this.getProviderConfig(provider);
+    if (baseUrl && baseUrl.trim()) {
+      config.baseUrl = baseUrl.trim().replace(/\/+$/, '');
+    }
+    
+    return provider.listModels(config);
+  }
+  
+  // S35: Check provider health
+  // Pings a provider with its model list, which costs no tokens but needs the server up and the key accepted
+  // Overrides test settings that haven't been saved yet and leave the recorded health alone
+  async checkHealth(providerId: string, overrides: { baseUrl?: string; apiKey?: string } = {}): Promise<ProviderHealth> {
+    const checkedAt = new Date().toISOString();
+    const provider = this.registry.get(providerId);
+    if (!provider) {
+      return { provider: providerId, status: 'error', error: `Unknown LLM provider: ${providerId}`, checkedAt };
+    }
+    
+    const config = { ...this.getProviderConfig(provider), timeout: HEALTH_CHECK_TIMEOUT };
+    if (overrides.baseUrl && overrides.baseUrl.trim()) {
+      config.baseUrl = overrides.baseUrl.trim().replace(/\/+$/, '');
+    }
+    if (overrides.apiKey && overrides.apiKey.trim()) {
+      config.apiKey = overrides.apiKey.trim();
+    }
+    
+    let health: ProviderHealth;
+    if (provider.requiresApiKey && !config.apiKey) {
+      health = { provider: providerId, status: 'unconfigured', error: `${provider.label} API key not configured`, checkedAt };
+    } else {
+      const started = Date.now();
+      try {
+        await provider.listModels(config);
+        health = { provider: providerId, status: 'ok', latencyMs: Date.now() - started, checkedAt };
+      } catch (error: unknown) {
+        const mapped = provider.mapError(error);
+        // A server without a model list still answered
+        const reachable = mapped.code === ErrorCodes.API_ERROR && mapped.status === 404;
+        health = {
+          provider: providerId,
+          status: reachable ? 'ok' : 'error',
+          latencyMs: Date.now() - started,
+          error: reachable ? undefined : mapped.message,
+          checkedAt
+        };
+      }
+    }
+    
+    if (!overrides.baseUrl && !overrides.apiKey) {
+      this.recordHealth(health);
+    }
+    
+    return health;
+  }
+  
+  // S36: Check every provider in use
+  // Pings the configured provider and the fallbacks requests may go to
+  async checkAllHealth(): Promise<HealthStatus> {
+    await Promise.all(this.getUsableChain().map(providerId => this.checkHealth(providerId)));
+    return this.getHealthStatus();
+  }
+  
+  // S37: Get health status
+  // Reports the last known health of the providers in use and whether any of them can take requests
+  getHealthStatus(): HealthStatus {
+    const chain = this.getUsableChain();
+    const providers: Record<string, ProviderHealth> = {};
+    chain.forEach(providerId => {
+      const health = this.health.get(providerId);
+      if (health) providers[providerId] = health;
+    });
+    
+    return {
+      provider: this.provider,
+      // Providers that haven't been checked yet get the benefit of the doubt
+      available: chain.some(providerId =>
+        !this.circuitBreaker.isOpen(providerId) &&
+        (!providers[providerId] || providers[providerId].status === 'ok')
+      ),
+      providers
+    };
+  }
+  
+  // S38: Follow provider health
+  // Calls the listener with the health status whenever a check or a request changes it
+  onHealthStatus(listener: ((status: HealthStatus) => void) | null): void {
+    this.healthListener = listener;
+  }
+  
+  // S31: Follow the request queue
+  // Calls the listener with the queue depth and wait times whenever they change
+  onQueueStatus(listener: ((status: QueueStatus) => void) | null): void {
+    this.scheduler.onChange(listener);
+  }
+  
+  // S32: Get queue status
+  // Reports the requests waiting for and holding provider slots right now
+  getQueueStatus(): QueueStatus {
+    return this.scheduler.getStatus();
+  }
+  
   // S3: Check text grammar
   // Analyzes text for grammar, spelling, and punctuation errors
-  async checkGrammar(text: string, language: string = 'en'): Promise<LLMResponse> {
+  async checkGrammar(text: string, language: string = 'en', options: LLMCallOptions = {}): Promise<LLMResponse> {
     try {
       // Validate input
       if (!text || typeof text !== 'string') {
@@ -107,14 +1650,25 @@ export class LLMService {
       }
       
       // Create request
+      const dictionary = this.dictionarySource ? this.dictionarySource() : null;
+      const terms = dictionary ? findDictionaryTerms(text, dictionary) : [];
       const request: LLMRequest = {
         text,
         operation: 'grammar-check',
-        language
+        language,
+        terms: terms.length > 0 ? terms : undefined
       };
       
       // Process request
-      return await this.processRequest(request);
+      const response = await this.processRequest(request, options);
+      
+      // Models don't always follow the prompt, and cached replies predate newer entries
+      if (dictionary && response.issues) {
+        const issues = response.issues.filter(issue => !isIgnoredIssue(issue, dictionary));
+        return issues.length === response.issues.length ? response : { ...response, issues };
+      }
+      
+      return response;
     } catch (error: unknown) {
       electronLog.error('Grammar check error:', error);
       return this.handleError(error, { text, operation: 'grammar-check', language });
@@ -123,7 +1677,7 @@ export class LLMService {
   
   // S4: Rephrase text with specified style
   // Generates rephrasing options for text with different styles
-  async rephraseText(text: string, style: string = 'formal'): Promise<LLMResponse> {
+  async rephraseText(text: string, style: string = 'formal', options: LLMCallOptions = {}): Promise<LLMResponse> {
     try {
       // Validate input
       if (!text || typeof text !== 'string') {
@@ -138,16 +1692,177 @@ export class LLMService {
       };
       
       // Process request
-      return await this.processRequest(request);
+      return await this.processRequest(request, options);
     } catch (error: unknown) {
       electronLog.error('Text rephrasing error:', error);
       return this.handleError(error, { text, operation: 'rephrase', style });
     }
   }
   
+  // S19: Translate text
+  // Translates text into the target language, detecting the source language unless it is given
+  async translateText(
+    text: string,
+    targetLanguage: string,
+    sourceLanguage?: string,
+    options: LLMCallOptions = {}
+  ): Promise<LLMResponse> {
+    try {
+      // Validate input
+      if (!text || typeof text !== 'string') {
+        throw new Error('Invalid text input');
+      }
+      if (!targetLanguage) {
+        throw new LLMError(ErrorCodes.VALIDATION_ERROR, 'Target language is required');
+      }
+      
+      // Create request
+      const request: LLMRequest = {
+        text,
+        operation: 'translate',
+        language: targetLanguage,
+        sourceLanguage
+      };
+      
+      // Process request
+      return await this.processRequest(request, options);
+    } catch (error: unknown) {
+      electronLog.error('Translation error:', error);
+      return this.handleError(error, { text, operation: 'translate', language: targetLanguage, sourceLanguage });
+    }
+  }
+  
+  // S20: Summarize text
+  // Condenses text into bullet points or a paragraph of roughly the target length
+  async summarizeText(
+    text: string,
+    format: string = 'bullets',
+    targetLength?: number,
+    options: LLMCallOptions = {}
+  ): Promise<LLMResponse> {
+    try {
+      // Validate input
+      if (!text || typeof text !== 'string') {
+        throw new Error('Invalid text input');
+      }
+      if (format !== 'bullets' && format !== 'paragraph') {
+        throw new LLMError(ErrorCodes.VALIDATION_ERROR, `Unsupported summary format: ${format}`);
+      }
+      
+      // Create request
+      const request: LLMRequest = {
+        text,
+        operation: 'summarize',
+        format,
+        targetLength: targetLength && targetLength > 0 ? Math.round(targetLength) : undefined
+      };
+      
+      // Process request
+      return await this.processRequest(request, options);
+    } catch (error: unknown) {
+      electronLog.error('Summarize error:', error);
+      return this.handleError(error, { text, operation: 'summarize', format, targetLength });
+    }
+  }
+  
+  // S21: Expand text
+  // Turns notes or bullet points into connected prose
+  async expandText(text: string, options: LLMCallOptions = {}): Promise<LLMResponse> {
+    try {
+      // Validate input
+      if (!text || typeof text !== 'string') {
+        throw new Error('Invalid text input');
+      }
+      
+      // Process request
+      return await this.processRequest({ text, operation: 'expand' }, options);
+    } catch (error: unknown) {
+      electronLog.error('Expand error:', error);
+      return this.handleError(error, { text, operation: 'expand' });
+    }
+  }
+  
+  // S22: Outline text
+  // Generates a hierarchical outline of the text
+  async outlineText(text: string, options: LLMCallOptions = {}): Promise<LLMResponse> {
+    try {
+      // Validate input
+      if (!text || typeof text !== 'string') {
+        throw new Error('Invalid text input');
+      }
+      
+      // Process request
+      return await this.processRequest({ text, operation: 'outline' }, options);
+    } catch (error: unknown) {
+      electronLog.error('Outline error:', error);
+      return this.handleError(error, { text, operation: 'outline' });
+    }
+  }
+  
+  // S23: Complete text
+  // Suggests a short continuation of the text before the cursor
+  async completeText(text: string, options: LLMCallOptions = {}): Promise<LLMResponse> {
+    try {
+      // Validate input
+      if (!text || typeof text !== 'string') {
+        throw new Error('Invalid text input');
+      }
+      
+      // Process request
+      return await this.processRequest({ text, operation: 'complete' }, options);
+    } catch (error: unknown) {
+      electronLog.error('Completion error:', error);
+      return this.handleError(error, { text, operation: 'complete' });
+    }
+  }
+  
+  // S24: Chat
+  // Replies to the latest message of a conversation, optionally about the document or selection
+  async chat(messages: ChatTurn[], context?: ChatContext, options: LLMCallOptions = {}): Promise<LLMResponse> {
+    try {
+      // Validate input
+      if (!Array.isArray(messages) || messages.length === 0 || messages[messages.length - 1].role !== 'user') {
+        throw new LLMError(ErrorCodes.VALIDATION_ERROR, 'The conversation must end with a user message');
+      }
+      
+      // Create request
+      const request: LLMRequest = {
+        text: formatTranscript(messages),
+        operation: 'chat',
+        context: context && context.text.trim() ? formatChatContext(context) : undefined
+      };
+      
+      // Process request
+      return await this.processRequest(request, options);
+    } catch (error: unknown) {
+      electronLog.error('Chat error:', error);
+      return this.handleError(error, { text: '', operation: 'chat' });
+    }
+  }
+  
+  // S25: Explain a correction
+  // Names the rule behind a change from the original to the corrected text and explains it
+  async explainSuggestion(original: string, replacement: string, options: LLMCallOptions = {}): Promise<LLMResponse> {
+    try {
+      // Validate input
+      if (!original || typeof original !== 'string' || typeof replacement !== 'string') {
+        throw new Error('Invalid text input');
+      }
+      if (original === replacement) {
+        throw new LLMError(ErrorCodes.VALIDATION_ERROR, 'The corrected text is the same as the original');
+      }
+      
+      // Process request
+      return await this.processRequest({ text: original, operation: 'explain', replacement }, options);
+    } catch (error: unknown) {
+      electronLog.error('Explain error:', error);
+      return this.handleError(error, { text: original, operation: 'explain', replacement });
+    }
+  }
+  
   // S5: Process LLM request
   // Handles request processing, caching, and queuing
-  async processRequest(request: LLMRequest): Promise<LLMResponse> {
+  async processRequest(request: LLMRequest, options: LLMCallOptions = {}): Promise<LLMResponse> {
     try {
       // Generate cache key
       const cacheKey = this.generateCacheKey(request);
@@ -156,219 +1871,260 @@ export class LLMService {
       const cachedResponse = this.cache.get(cacheKey);
       if (cachedResponse) {
         electronLog.debug('Returning cached LLM response');
+        const provider = this.registry.get(this.provider);
+        this.recordUsage({
+          provider: this.provider,
+          model: provider ? this.getModel(provider, request.operation) : '',
+          operation: request.operation,
+          promptTokens: 0,
+          completionTokens: 0,
+          estimated: false,
+          latencyMs: 0,
+          cacheHit: true
+        });
         return cachedResponse;
       }
       
-      // Check if we need to rate limit
-      await this.rateLimiter.consume();
-      
-      // Process request based on provider
-      let response: LLMResponse;
-      
-      if (this.provider === 'local' || this.provider === 'lmstudio') {
-        response = await this.callLMStudio(request);
-      } else {
-        response = await this.callGemini(request);
-      }
+      // Past a monthly soft limit nothing is sent until the user agrees
+      await this.checkUsageLimit(options);
       
-      // Cache response
-      this.cacheResponse(request, response);
+      // Process request with the configured provider, then the fallback chain
+      // Identical requests in flight share one call, which only streams to the caller that started it
+      const priority = this.getPriority(options);
+      return await this.scheduler.run(cacheKey, async signal => {
+        const response = await this.callWithFallback(request, { ...options, priority, signal });
+        
+        // Cache response - a fallback's reply would otherwise be reused once the configured provider is back
+        if (response.provider === this.provider) {
+          this.cacheResponse(request, response);
+        }
       
-      return response;
+        return response;
+      }, { priority, signal: options.signal, supersedeKey: options.supersedeKey });
     } catch (error: unknown) {
       electronLog.error('Error processing LLM request:', error);
       return this.handleError(error, request);
     }
   }
   
-  // S6: Call LM Studio local instance
-  // Makes requests to local LM Studio instance
-  async callLMStudio(request: LLMRequest): Promise<LLMResponse> {
+  // S29: Call providers in fallback order
+  // Tries the configured provider and then each fallback, skipping open circuits and cloud providers without consent
+  async callWithFallback(request: LLMRequest, options: LLMCallOptions = {}): Promise<LLMResponse> {
+    const chain = [this.provider, ...this.fallbackChain.filter(id => id !== this.provider)];
+    let lastError: unknown = null;
+    
+    for (let index = 0; index < chain.length; index++) {
+      const providerId = chain[index];
+      const provider = this.registry.get(providerId);
+      const label = provider ? provider.label : providerId;
+      
+      // Never send text to a cloud provider the user hasn't agreed to as a fallback
+      if (index > 0 && provider && provider.requiresApiKey && !this.cloudFallbackConsent[providerId]) {
+        electronLog.info(`Skipping fallback to ${label}: cloud fallback not allowed`);
+        continue;
+      }
+      
+      if (this.circuitBreaker.isOpen(providerId)) {
+        electronLog.info(`Skipping ${label} after repeated failures`);
+        lastError = lastError || new LLMError(
+          ErrorCodes.LLM_NOT_AVAILABLE,
+          `${label} is unavailable after repeated failures, try again shortly`
+        );
+        continue;
+      }
+      
+      if (index > 0) {
+        electronLog.info(`Falling back to ${label}`);
+      }
+      
+      // Waiting for a slot ends the whole request if it is cancelled or deferred - the provider didn't fail
+      const release = await this.scheduler.acquire(providerId, this.getPriority(options), options.signal);
+      
+      try {
+        const response = await this.callWithRetries(providerId, request, options);
+        this.circuitBreaker.recordSuccess(providerId);
+        this.updateHealth(providerId);
+        return { ...response, provider: providerId };
+      } catch (error: unknown) {
+        // Cancelled or invalid requests would fail the same way everywhere
+        if (error instanceof LLMError &&
+            (error.code === ErrorCodes.CANCELLED || error.code === ErrorCodes.VALIDATION_ERROR)) {
+          throw error;
+        }
+        
+        this.updateHealth(providerId, error);
+        
+        if (this.circuitBreaker.recordFailure(providerId)) {
+          electronLog.warn(`${label} failed repeatedly, skipping it for ${CIRCUIT_COOLDOWN / 1000}s`);
+        }
+        lastError = error;
+      } finally {
+        release();
+      }
+    }
+    
+    throw lastError || new LLMError(ErrorCodes.LLM_NOT_AVAILABLE, 'No LLM provider is available');
+  }
+  
+  // S30: Call a provider with retries
+  // Retries transient failures with exponential backoff; background requests fail fast instead
+  async callWithRetries(providerId: string, request: LLMRequest, options: LLMCallOptions = {}): Promise<LLMResponse> {
+    const retries = options.background ? 0 : MAX_RETRIES;
+    
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.callProvider(providerId, request, options);
+      } catch (error: unknown) {
+        if (attempt >= retries || !isTransientError(error)) {
+          throw error;
+        }
+        
+        const delay = RETRY_BASE_DELAY * Math.pow(2, attempt);
+        electronLog.info(`Retrying ${providerId} in ${delay}ms after a transient error`);
+        await waitForRetry(delay, options.signal);
+      }
+    }
+  }
+  
+  // S6: Call a registered provider
+  // Sends the request through the provider adapter and parses the suggestions
+  async callProvider(providerId: string, request: LLMRequest, options: LLMCallOptions = {}): Promise<LLMResponse> {
+    const provider = this.registry.get(providerId);
+    if (!provider) {
+      throw new LLMError(ErrorCodes.LLM_NOT_AVAILABLE, `Unknown LLM provider: ${providerId}`);
+    }
+    
+    const config = this.getProviderConfig(provider, request.operation);
+    const meter: UsageMeter = { promptTokens: 0, completionTokens: 0, estimated: false };
+    const started = Date.now();
+    
     try {
-      const lmStudioUrl = process.env.LM_STUDIO_URL || 'http://localhost:1234/v1';
+      // Text bound for the cloud leaves with personal data replaced by placeholders, restored in the reply
+      const redaction = provider.requiresApiKey && this.redactor.isEnabled() ? this.redactor.begin() : null;
+      const sent = redaction ? this.redactRequest(request, redaction) : request;
+      const callOptions = redaction && options.onDelta
+        ? { ...options, onDelta: (text: string) => options.onDelta!(redaction.restore(text)) }
+        : options;
       
-      // Prepare prompt based on operation
-      let systemPrompt: string;
-      let userPrompt: string;
+      const prompt = this.buildPrompt(sent);
+      const responseText = await this.completeMetered(provider, prompt, config, callOptions, meter);
       
-      if (request.operation === 'grammar-check') {
-        systemPrompt = `You are a professional grammar checker. Check the provided text for grammar, spelling, and punctuation errors. 
-                        Provide corrections with confidence scores (0-1) and error types.
-                        Return ONLY a JSON array of objects with properties: text (corrected text), confidence (0-1), type (grammar/spelling/punctuation).
-                        Do not include any other text in your response, just the JSON array.`;
+      let output = this.parseOutput(sent, responseText);
+      
+      // Give the model one chance to fix invalid output before failing
+      if (output.errors.length > 0) {
+        electronLog.warn(`${provider.label} returned invalid output, requesting a repair: ${output.errors.join('; ')}`);
         
-        userPrompt = `Text: "${request.text}"
-                      Language: ${request.language || 'English'}`;
-      } else if (request.operation === 'rephrase') {
-        systemPrompt = `You are a professional text rephraser. Rephrase the provided text in a ${request.style || 'formal'} style.
-                        Provide multiple options with confidence scores (0-1).
-                        Return ONLY a JSON array of objects with properties: text (rephrased text), confidence (0-1), type (rephrasing).
-                        Do not include any other text in your response, just the JSON array.`;
+        const repairedText = await this.completeMetered(
+          provider,
+          this.buildRepairPrompt(prompt, responseText, output.errors),
+          config,
+          callOptions,
+          meter
+        );
+        output = this.parseOutput(sent, repairedText);
         
-        userPrompt = `Text: "${request.text}"`;
-      } else {
-        throw new Error(`Unsupported operation: ${request.operation}`);
-      }
-      
-      // Make request to LM Studio using OpenAI-compatible API
-      const response = await axios.post(`${lmStudioUrl}/chat/completions`, {
-        model: "local-model", // LM Studio uses whatever model is loaded
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt }
-        ],
-        temperature: 0.3,
-        max_tokens: 1000,
-        stream: false
-      }, {
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        timeout: 60000 // 60 second timeout for local processing
-      });
-      
-      // Parse and format response
-      const responseText = response.data.choices[0].message.content;
-      
-      // Extract JSON from response
-      const jsonMatch = responseText.match(/\[.*\]/s);
-      if (!jsonMatch) {
-        throw new Error('Failed to parse LM Studio response');
+        if (output.errors.length > 0) {
+          throw new LLMError(
+            ErrorCodes.LLM_PARSE_ERROR,
+            `${provider.label} returned invalid output: ${output.errors.slice(0, 3).join('; ')}`
+          );
+        }
       }
       
-      const suggestions = JSON.parse(jsonMatch[0]);
-      
-      return {
-        original: request.text,
-        suggestions: suggestions.map((s: any) => ({
-          text: s.text,
-          confidence: s.confidence || 0.8,
-          type: s.type || 'unknown'
-        }))
-      };
+      this.recordCall(providerId, config.model, request.operation, meter, started);
+      return redaction ? this.restoreResponse(output.response, request, sent, redaction) : output.response;
     } catch (error: unknown) {
-      electronLog.error('Error calling LM Studio:', error);
-      
-      // Try fallback to Gemini if configured
-      if (this.apiKeys.gemini) {
-        electronLog.info('Falling back to Gemini API');
-        return this.callGemini(request);
-      }
-      
+      this.recordCall(providerId, config.model, request.operation, meter, started, error);
+      electronLog.error(`Error calling ${provider.label}:`, error);
       throw error;
     }
   }
   
-  // S7: Call Google Gemini API
-  // Makes requests to Google Gemini API
-  async callGemini(request: LLMRequest): Promise<LLMResponse> {
-    try {
-      if (!this.apiKeys.gemini) {
-        throw new Error('Gemini API key not configured');
-      }
-      
-      const apiUrl = `https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash-latest:generateContent?key=${this.apiKeys.gemini}`;
-      
-      // Prepare prompt based on operation
-      let prompt: string;
-      
-      if (request.operation === 'grammar-check') {
-        prompt = `You are a professional grammar checker. Check the following text for grammar, spelling, and punctuation errors.
-                  Provide corrections with confidence scores (0-1) and error types.
-                  Return ONLY a JSON array of objects with properties: text (corrected text), confidence (0-1), type (grammar/spelling/punctuation).
-                  Do not include any other text in your response, just the JSON array.
-                  
-                  Text: "${request.text}"
-                  Language: ${request.language || 'English'}`;
-      } else if (request.operation === 'rephrase') {
-        prompt = `You are a professional text rephraser. Rephrase the following text in a ${request.style || 'formal'} style.
-                  Provide multiple options with confidence scores (0-1).
-                  Return ONLY a JSON array of objects with properties: text (rephrased text), confidence (0-1), type (rephrasing).
-                  Do not include any other text in your response, just the JSON array.
-                  
-                  Text: "${request.text}"`;
-      } else {
-        throw new Error(`Unsupported operation: ${request.operation}`);
-      }
-      
-      // Make request to Gemini
-      const response = await axios.post(apiUrl, {
-        contents: [{
-          parts: [{
-            text: prompt
-          }]
-        }],
-        generationConfig: {
-          temperature: 0.3,
-          topK: 40,
-          topP: 0.95,
-          maxOutputTokens: 1024,
-        },
-        safetySettings: [
-          {
-            category: "HARM_CATEGORY_HARASSMENT",
-            threshold: "BLOCK_MEDIUM_AND_ABOVE"
-          },
-          {
-            category: "HARM_CATEGORY_HATE_SPEECH",
-            threshold: "BLOCK_MEDIUM_AND_ABOVE"
-          },
-          {
-            category: "HARM_CATEGORY_SEXUALLY_EXPLICIT",
-            threshold: "BLOCK_MEDIUM_AND_ABOVE"
-          },
-          {
-            category: "HARM_CATEGORY_DANGEROUS_CONTENT",
-            threshold: "BLOCK_MEDIUM_AND_ABOVE"
-          }
-        ]
-      }, {
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        timeout: 30000 // 30 second timeout
-      });
-      
-      // Parse and format response
-      const responseText = response.data.candidates[0].content.parts[0].text;
-      
-      // Extract JSON from response
-      const jsonMatch = responseText.match(/\[.*\]/s);
-      if (!jsonMatch) {
-        throw new Error('Failed to parse Gemini response');
-      }
-      
-      const suggestions = JSON.parse(jsonMatch[0]);
-      
-      return {
-        original: request.text,
-        suggestions: suggestions.map((s: any) => ({
-          text: s.text,
-          confidence: s.confidence || 0.8,
-          type: s.type || 'unknown'
-        }))
-      };
-    } catch (error: unknown) {
-      electronLog.error('Error calling Gemini API:', error);
-      throw error;
-    }
+  // S7: List available providers
+  // Returns the registered providers and whether each one is ready to use
+  listProviders(): Array<{ id: string; label: string; requiresApiKey: boolean; configured: boolean }> {
+    return this.registry.list().map(provider => ({
+      id: provider.id,
+      label: provider.label,
+      requiresApiKey: provider.requiresApiKey,
+      configured: !provider.requiresApiKey || !!this.apiKeys[provider.id]
+    }));
   }
   
   // S8: Cache LLM response
-  // Stores response in LRU cache for future use
+  // Stores response in the persistent cache for future use
   cacheResponse(request: LLMRequest, response: LLMResponse): void {
     const cacheKey = this.generateCacheKey(request);
     this.cache.set(cacheKey, response);
     electronLog.debug(`Cached LLM response for key: ${cacheKey}`);
   }
   
+  // S10: Get cache statistics
+  // Reports cache size and hit rate for the Settings panel
+  getCacheStats(): CacheStats {
+    return this.cache.getStats();
+  }
+  
+  // S11: Clear cache
+  // Drops every cached response
+  clearCache(): void {
+    this.cache.clear();
+  }
+  
+  // S12: Export cache
+  // Writes the cached responses to a JSON file, returning how many were written
+  exportCache(filePath: string): Promise<number> {
+    return this.cache.exportTo(filePath);
+  }
+  
+  // S13: Flush cache
+  // Saves pending cache changes before the app quits
+  flushCache(): void {
+    this.cache.flush();
+  }
+  
+  // S14: List prompt templates
+  // Returns the templates used for each operation
+  listPromptTemplates(): PromptTemplate[] {
+    return this.templates.list();
+  }
+  
+  // S15: Save prompt template
+  // Stores edited wording under a new version, which also retires cached replies to the old one
+  savePromptTemplate(id: string, system: string, user: string): PromptTemplate {
+    return this.templates.save(id, system, user);
+  }
+  
+  // S16: Reset prompt template
+  // Restores the built-in wording of a template
+  resetPromptTemplate(id: string): PromptTemplate {
+    return this.templates.reset(id);
+  }
+  
+  // S17: Preview prompt
+  // Fills in a template that may not be saved yet, for the Settings editor
+  previewPrompt(template: { system: string; user: string }, variables: PromptVariables): RenderedPrompt {
+    return renderPrompt(template, variables);
+  }
+  
+  // S18: Set custom styles
+  // Registers the user's rephrase styles so requests can refer to them by id
+  setCustomStyles(styles: CustomStyle[]): void {
+    this.customStyles = styles.filter(style => style && style.id && style.label);
+  }
+  
   // S9: Handle errors from LLM requests
   // Creates error response for failed LLM requests
   handleError(error: unknown, request: LLMRequest): LLMResponse {
     let errorMessage = 'Unknown error occurred';
     let errorCode = ErrorCodes.UNKNOWN_ERROR;
     
-    if (axios.isAxiosError(error)) {
+    if (error instanceof LLMError) {
+      // Provider adapters have already mapped the error
+      errorMessage = error.message;
+      errorCode = error.code;
+    } else if (axios.isAxiosError(error)) {
       if (error.response) {
         // API error response
         const responseData = error.response.data;
@@ -396,7 +2152,11 @@ export class LLMService {
       }
     }
     
-    electronLog.error(`LLM error (${errorCode}): ${errorMessage}`);
+    if (errorCode === ErrorCodes.CANCELLED) {
+      electronLog.info('LLM request cancelled');
+    } else {
+      electronLog.error(`LLM error (${errorCode}): ${errorMessage}`);
+    }
     
     return {
       original: request.text || '',
@@ -405,8 +2165,561 @@ export class LLMService {
     };
   }
   
+  // Helper method to run a completion and add its token counts to the meter, estimating them when the provider reports none
+  private async completeMetered(
+    provider: LLMProvider,
+    prompt: LLMPrompt,
+    config: ProviderConfig,
+    options: LLMCallOptions,
+    meter: UsageMeter
+  ): Promise<string> {
+    const reported: TokenUsage[] = [];
+    const text = await provider.complete(prompt, config, { ...options, onUsage: usage => reported.push(usage) });
+    
+    if (reported.length > 0) {
+      meter.promptTokens += reported[0].promptTokens;
+      meter.completionTokens += reported[0].completionTokens;
+    } else {
+      meter.promptTokens += Math.ceil((prompt.system.length + prompt.user.length) / CHARS_PER_TOKEN);
+      meter.completionTokens += Math.ceil(text.length / CHARS_PER_TOKEN);
+      meter.estimated = true;
+    }
+    
+    return text;
+  }
+  
+  // Helper method to log the metrics of a provider call, failed when an error is given
+  private recordCall(
+    providerId: string,
+    model: string,
+    operation: string,
+    meter: UsageMeter,
+    started: number,
+    error?: unknown
+  ): void {
+    this.recordUsage({
+      provider: providerId,
+      model,
+      operation,
+      promptTokens: meter.promptTokens,
+      completionTokens: meter.completionTokens,
+      estimated: meter.estimated,
+      latencyMs: Date.now() - started,
+      cacheHit: false,
+      errorCode: error === undefined ? undefined : error instanceof LLMError ? error.code : ErrorCodes.UNKNOWN_ERROR
+    });
+  }
+  
+  // Helper method to add a record to the usage log and report the month's usage
+  private recordUsage(record: Omit<UsageRecord, 'timestamp'>): void {
+    try {
+      this.usageLog.record({ timestamp: new Date().toISOString(), ...record });
+      this.notifyUsage();
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      electronLog.error('Failed to record LLM usage:', errorMessage);
+    }
+  }
+  
+  // Helper method to report the month's usage to the listener
+  private notifyUsage(): void {
+    if (this.usageListener) {
+      this.usageListener(this.getUsageStatus());
+    }
+  }
+  
+  // Helper method to hold a request past a monthly soft limit until the user agrees to go on
+  // Background requests never ask, they wait for the user's answer to a request of their own
+  private async checkUsageLimit(options: LLMCallOptions): Promise<void> {
+    const status = this.getUsageStatus();
+    if (status.level !== 'exceeded' || status.acknowledged) {
+      return;
+    }
+    
+    if (!this.usageLimitPrompt) {
+      electronLog.warn(`Monthly usage limit reached for ${status.month}, sending anyway`);
+      return;
+    }
+    
+    if (options.background) {
+      throw new LLMError(ErrorCodes.USAGE_LIMIT_ERROR, 'Monthly usage limit reached, background request not sent');
+    }
+    
+    if (!this.pendingUsagePrompt) {
+      this.pendingUsagePrompt = this.usageLimitPrompt(status).finally(() => {
+        this.pendingUsagePrompt = null;
+      });
+    }
+    
+    if (!(await this.pendingUsagePrompt)) {
+      throw new LLMError(ErrorCodes.USAGE_LIMIT_ERROR, 'Monthly usage limit reached, request not sent');
+    }
+    
+    // Keep sending for the rest of the month, or until the limits change
+    this.acknowledgedUsage = this.getUsageAcknowledgement(status.month);
+    this.notifyUsage();
+  }
+  
+  // Helper method to identify a month and its limits, so raising a limit asks again once it is reached
+  private getUsageAcknowledgement(month: string): string {
+    return `${month}:${this.usageLimits.monthlyCost}:${this.usageLimits.monthlyTokens}`;
+  }
+  
+  // Helper method to find the price of a model, by its exact name or the longest priced name it starts with
+  // so a price for "gpt-4o-mini" also covers dated versions such as "gpt-4o-mini-2024-07-18"
+  private getPrice(model: string): ModelPrice | undefined {
+    if (this.modelPrices[model]) {
+      return this.modelPrices[model];
+    }
+    
+    const prefix = Object.keys(this.modelPrices)
+      .filter(name => name && model.startsWith(name))
+      .sort((a, b) => b.length - a.length)[0];
+    return prefix ? this.modelPrices[prefix] : undefined;
+  }
+  
+  // Helper method to estimate the cost of a day's usage of a model in USD
+  private getCost(daily: DailyUsage): number {
+    const price = this.getPrice(daily.model);
+    if (!price) {
+      return 0;
+    }
+    
+    return (daily.promptTokens * (Number(price.input) || 0) + daily.completionTokens * (Number(price.output) || 0)) / 1000000;
+  }
+  
+  // Helper method to sum daily totals and their cost
+  private summarize(days: DailyUsage[]): UsageSummary {
+    const summary: UsageSummary = { ...emptyTotals(), cost: 0 };
+    
+    days.forEach(daily => {
+      addTotals(summary, daily);
+      summary.cost += this.getCost(daily);
+    });
+    
+    return summary;
+  }
+  
+  // Helper method to list the configured provider and the fallbacks requests may go to
+  private getUsableChain(): string[] {
+    return [this.provider, ...this.fallbackChain.filter(providerId => {
+      const provider = this.registry.get(providerId);
+      return providerId !== this.provider && !!provider &&
+        (!provider.requiresApiKey || !!this.cloudFallbackConsent[providerId]);
+    })];
+  }
+  
+  // Helper method to store a health result and report the new status
+  private recordHealth(health: ProviderHealth): void {
+    this.health.set(health.provider, health);
+    
+    if (this.healthListener) {
+      try {
+        this.healthListener(this.getHealthStatus());
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        electronLog.warn('Health status listener failed:', errorMessage);
+      }
+    }
+  }
+  
+  // Helper method to learn provider health from the outcome of a request
+  // Only connection and key failures say the provider is down; an answer says it is up again
+  private updateHealth(providerId: string, error?: unknown): void {
+    const previous = this.health.get(providerId);
+    
+    if (!error) {
+      if (previous && previous.status !== 'ok') {
+        this.recordHealth({ provider: providerId, status: 'ok', checkedAt: new Date().toISOString() });
+      }
+      return;
+    }
+    
+    if (error instanceof LLMError &&
+        (error.code === ErrorCodes.NETWORK_ERROR || error.code === ErrorCodes.TIMEOUT_ERROR ||
+         error.code === ErrorCodes.AUTH_ERROR)) {
+      this.recordHealth({
+        provider: providerId,
+        status: 'error',
+        latencyMs: previous?.latencyMs,
+        error: error.message,
+        checkedAt: new Date().toISOString()
+      });
+    }
+  }
+  
+  // Helper method to pick the queue priority of a request
+  private getPriority(options: LLMCallOptions): RequestPriority {
+    return options.priority || (options.background ? 'background' : 'interactive');
+  }
+  
+  // Helper method to resolve connection settings for a provider, with the model and sampling of an operation
+  private getProviderConfig(provider: LLMProvider, operation?: string): ProviderConfig {
+    const sampling = this.getSampling(operation);
+    
+    return {
+      apiKey: this.apiKeys[provider.id] || '',
+      baseUrl: (this.baseUrls[provider.id] || provider.defaultBaseUrl).replace(/\/+$/, ''),
+      model: this.getModel(provider, operation),
+      timeout: provider.defaultTimeout,
+      temperature: sampling.temperature ?? DEFAULT_TEMPERATURE,
+      maxTokens: sampling.maxTokens ?? DEFAULT_MAX_TOKENS
+    };
+  }
+  
+  // Helper method to pick the model of a provider for an operation
+  private getModel(provider: LLMProvider, operation?: string): string {
+    const own = operation ? this.operationSettings[operation]?.models?.[provider.id] : undefined;
+    const shared = this.operationSettings[ALL_OPERATIONS]?.models?.[provider.id];
+    
+    return (own && own.trim()) || (shared && shared.trim()) || provider.defaultModel;
+  }
+  
+  // Helper method to pick the temperature and max tokens set for an operation, ignoring values out of range
+  private getSampling(operation?: string): { temperature?: number; maxTokens?: number } {
+    const candidates = [operation ? this.operationSettings[operation] : undefined, this.operationSettings[ALL_OPERATIONS]];
+    const temperature = candidates
+      .map(settings => settings?.temperature)
+      .find(value => typeof value === 'number' && isFinite(value) && value >= 0 && value <= 2);
+    const maxTokens = candidates
+      .map(settings => settings?.maxTokens)
+      .find(value => typeof value === 'number' && isFinite(value) && value >= 1);
+    
+    return { temperature, maxTokens: maxTokens !== undefined ? Math.floor(maxTokens) : undefined };
+  }
+  
+  // Helper method to build the prompt for an operation from its template
+  private buildPrompt(request: LLMRequest): LLMPrompt {
+    const schema = OUTPUT_SCHEMAS[request.operation];
+    
+    if (!schema || !this.templates.get(request.operation)) {
+      throw new LLMError(ErrorCodes.VALIDATION_ERROR, `Unsupported operation: ${request.operation}`);
+    }
+    
+    // Dictionary words go after the template's instructions, so edited templates pick them up too
+    if (request.terms && request.terms.length > 0) {
+      const prompt = this.buildPrompt({ ...request, terms: undefined });
+      return {
+        ...prompt,
+        system: `${prompt.system}
+
+The user's dictionary spells these terms this way on purpose; never flag or change them: ${request.terms.join(', ')}`
+      };
+    }
+    
+    if (request.operation === 'translate') {
+      return {
+        ...this.templates.render(request.operation, {
+          text: request.text,
+          language: LANGUAGE_NAMES[request.language || ''] || request.language,
+          source: request.sourceLanguage ? LANGUAGE_NAMES[request.sourceLanguage] || request.sourceLanguage : undefined
+        }),
+        schema
+      };
+    }
+    
+    if (request.operation === 'chat') {
+      return {
+        ...this.templates.render(request.operation, { text: request.text, context: request.context }),
+        schema
+      };
+    }
+    
+    if (request.operation === 'explain') {
+      return {
+        ...this.templates.render(request.operation, { text: request.text, replacement: request.replacement }),
+        schema
+      };
+    }
+    
+    if (request.operation === 'summarize') {
+      return {
+        ...this.templates.render(request.operation, {
+          text: request.text,
+          format: request.format,
+          length: request.targetLength
+        }),
+        schema
+      };
+    }
+    
+    const customStyle = this.findCustomStyle(request.style);
+    if (!customStyle) {
+      return {
+        ...this.templates.render(request.operation, request),
+        schema
+      };
+    }
+    
+    // Custom styles go in by name and bring their own guidance, so edited templates pick them up too
+    const prompt = this.templates.render(request.operation, { ...request, style: customStyle.label });
+    const examples = customStyle.examples.filter(example => example.trim());
+    
+    return {
+      system: `${prompt.system}
+
+Style "${customStyle.label}": ${customStyle.instruction}${examples.length > 0 ? `
+Examples of this style:
+${examples.map(example => `- ${example}`).join('\n')}` : ''}`,
+      user: prompt.user,
+      schema
+    };
+  }
+  
+  // Helper method to replace personal data in the text fields of a request
+  private redactRequest(request: LLMRequest, redaction: Redaction): LLMRequest {
+    return {
+      ...request,
+      text: redaction.redact(request.text),
+      context: request.context && redaction.redact(request.context),
+      replacement: request.replacement && redaction.redact(request.replacement),
+      terms: request.terms && request.terms.map(term => redaction.redact(term))
+    };
+  }
+  
+  // Helper method to put the redacted values back into a response
+  // Grammar issues are placed again in the original text, since their offsets are in the redacted one
+  private restoreResponse(response: LLMResponse, request: LLMRequest, sent: LLMRequest, redaction: Redaction): LLMResponse {
+    const restored: LLMResponse = {
+      ...response,
+      original: request.text,
+      suggestions: response.suggestions.map(suggestion => ({
+        ...suggestion,
+        text: redaction.restore(suggestion.text),
+        explain: suggestion.explain && redaction.restore(suggestion.explain)
+      })),
+      rule: response.rule && redaction.restore(response.rule)
+    };
+    
+    if (response.issues) {
+      restored.issues = this.locateGrammarIssues(response.issues.map(issue => ({
+        original: redaction.restore(issue.original),
+        replacement: redaction.restore(issue.replacement),
+        offset: redaction.restoreOffset(sent.text, issue.offset),
+        category: issue.category,
+        explanation: redaction.restore(issue.explanation),
+        confidence: issue.confidence
+      })), request.text);
+    }
+    
+    return restored;
+  }
+  
+  // Helper method to look up a user-defined style by id
+  private findCustomStyle(styleId?: string): CustomStyle | undefined {
+    return styleId ? this.customStyles.find(style => style.id === styleId) : undefined;
+  }
+  
+  // Helper method to build the follow-up prompt asking the model to fix invalid output
+  private buildRepairPrompt(prompt: LLMPrompt, responseText: string, errors: string[]): LLMPrompt {
+    return {
+      system: prompt.system,
+      user: `${prompt.user}
+
+Your previous reply was:
+${responseText}
+
+It was rejected for these reasons:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Reply again with only the corrected JSON.`,
+      schema: prompt.schema
+    };
+  }
+  
+  // Helper method to turn a completion into a response, collecting validation errors instead of throwing
+  private parseOutput(request: LLMRequest, responseText: string): { response: LLMResponse; errors: string[] } {
+    if (request.operation === 'translate') {
+      const { data, error } = extractOutputObject(responseText);
+      if (!data) {
+        return { response: { original: request.text, suggestions: [] }, errors: [error || 'Reply could not be parsed'] };
+      }
+      
+      const { value, errors } = validateTranslation(data);
+      return {
+        response: {
+          original: request.text,
+          suggestions: value ? [{ text: value.translation, confidence: 1, type: 'translation' }] : [],
+          detectedLanguage: value?.detectedLanguage
+        },
+        errors
+      };
+    }
+    
+    if (request.operation === 'explain') {
+      const { data, error } = extractOutputObject(responseText);
+      if (!data) {
+        return { response: { original: request.text, suggestions: [] }, errors: [error || 'Reply could not be parsed'] };
+      }
+      
+      const { value, errors } = validateExplanation(data);
+      return {
+        response: {
+          original: request.text,
+          suggestions: value ? [{ text: value.explanation, confidence: 1, type: 'explanation' }] : [],
+          rule: value?.rule
+        },
+        errors
+      };
+    }
+    
+    const resultType = TEXT_RESULT_TYPES[request.operation];
+    if (resultType) {
+      const { data, error } = extractOutputObject(responseText);
+      if (!data) {
+        return { response: { original: request.text, suggestions: [] }, errors: [error || 'Reply could not be parsed'] };
+      }
+      
+      const { value, errors } = validateTextResult(data);
+      return {
+        response: {
+          original: request.text,
+          suggestions: value ? [{ text: value.text, confidence: 1, type: resultType }] : []
+        },
+        errors
+      };
+    }
+    
+    const key = request.operation === 'grammar-check' ? 'issues' : 'suggestions';
+    const { list, error } = extractOutputList(responseText, key);
+    
+    if (!list) {
+      return { response: { original: request.text, suggestions: [] }, errors: [error || 'Reply could not be parsed'] };
+    }
+    
+    if (request.operation === 'grammar-check') {
+      const { value, errors } = validateGrammarIssues(list);
+      return {
+        response: { original: request.text, suggestions: [], issues: this.locateGrammarIssues(value, request.text) },
+        errors
+      };
+    }
+    
+    const { value, errors } = validateSuggestions(list);
+    return { response: { original: request.text, suggestions: value }, errors };
+  }
+  
+  // Helper method to place validated grammar issues in the checked text
+  // Ones whose fragment can't be found, or that change nothing, are dropped
+  private locateGrammarIssues(items: GrammarIssueItem[], text: string): GrammarIssue[] {
+    const issues: GrammarIssue[] = [];
+    
+    items.forEach(item => {
+      if (item.original === item.replacement) {
+        return;
+      }
+      
+      const offset = this.locateFragment(text, item.original, item.offset, issues);
+      if (offset < 0) {
+        electronLog.debug(`Dropping grammar issue not found in text: "${item.original}"`);
+        return;
+      }
+      
+      issues.push({
+        offset,
+        length: item.original.length,
+        original: item.original,
+        replacement: item.replacement,
+        category: item.category,
+        explanation: item.explanation,
+        confidence: item.confidence
+      });
+    });
+    
+    return issues.sort((a, b) => a.offset - b.offset);
+  }
+  
+  // Helper method to find where a fragment sits in the text
+  // Trusts the reported offset when it matches, otherwise picks the free occurrence closest to it
+  private locateFragment(text: string, fragment: string, hint: unknown, taken: GrammarIssue[]): number {
+    const overlaps = (offset: number) => taken.some(issue =>
+      offset < issue.offset + issue.length && issue.offset < offset + fragment.length
+    );
+    
+    const hintOffset = typeof hint === 'number' && Number.isInteger(hint) ? hint : -1;
+    if (hintOffset >= 0 && text.slice(hintOffset, hintOffset + fragment.length) === fragment && !overlaps(hintOffset)) {
+      return hintOffset;
+    }
+    
+    let best = -1;
+    let index = text.indexOf(fragment);
+    while (index >= 0) {
+      if (!overlaps(index) && (best < 0 || Math.abs(index - hintOffset) < Math.abs(best - hintOffset))) {
+        best = index;
+      }
+      index = text.indexOf(fragment, index + 1);
+    }
+    
+    return best;
+  }
+  
   // Helper method to generate cache key
   private generateCacheKey(request: LLMRequest): string {
-    return `${request.operation}:${request.style || ''}:${request.language || ''}:${request.text}`;
+    const provider = this.registry.get(this.provider);
+    const customStyle = this.findCustomStyle(request.style);
+    const sampling = this.getSampling(request.operation);
+    
+    return LLMCache.createKey({
+      provider: this.provider,
+      model: provider ? this.getModel(provider, request.operation) : '',
+      temperature: sampling.temperature,
+      maxTokens: sampling.maxTokens,
+      promptVersion: `${PROMPT_VERSION}.${this.templates.get(request.operation)?.version || 0}`,
+      operation: request.operation,
+      // Custom styles are keyed by their definition so edits don't reuse old replies
+      style: customStyle
+        ? JSON.stringify([customStyle.label, customStyle.instruction, customStyle.examples])
+        : request.style,
+      sourceLanguage: request.sourceLanguage,
+      format: request.format,
+      targetLength: request.targetLength,
+      context: request.context,
+      replacement: request.replacement,
+      terms: request.terms,
+      language: request.language,
+      text: request.text
+    });
+  }
+}
+
+// Helper to shorten text to a token budget, keeping its beginning and end
+function truncateToTokens(text: string, maxTokens: number): string {
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  if (text.length <= maxChars) {
+    return text;
+  }
+  
+  const head = Math.floor(maxChars * 0.6);
+  const tail = maxChars - head;
+  
+  return `${text.slice(0, head)}\n[... ${text.length - maxChars} characters omitted ...]\n${text.slice(-tail)}`;
+}
+
+// Helper to write a conversation out as a transcript, dropping the oldest turns beyond the history budget
+// The latest message is always kept, shortened if it is over the budget by itself
+function formatTranscript(messages: ChatTurn[]): string {
+  const budget = CHAT_HISTORY_TOKENS * CHARS_PER_TOKEN;
+  const lines: string[] = [];
+  let used = 0;
+  
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const line = `${messages[i].role === 'user' ? 'User' : 'Assistant'}: ${messages[i].content}`;
+    
+    if (lines.length > 0 && used + line.length > budget) {
+      break;
+    }
+    
+    lines.unshift(lines.length === 0 ? truncateToTokens(line, CHAT_HISTORY_TOKENS) : line);
+    used += line.length;
   }
+  
+  return lines.join('\n\n');
+}
+
+// Helper to introduce the editor text shared with a chat
+function formatChatContext(context: ChatContext): string {
+  return `The user shared their ${context.kind === 'selection' ? 'selected text' : 'document'}:
+"""
+${truncateToTokens(context.text, CHAT_CONTEXT_TOKENS)}
+"""`;
 }
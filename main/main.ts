@@ -6,7 +6,7 @@ import * as electronLog from 'electron-log';
 import isDev from 'electron-is-dev';
 import { WindowManager } from './window-manager';
 import { MenuManager } from './menu-manager';
-import { setupIPC } from './ipc-handlers';
+import { setupIPC, teardownIPC } from './ipc-handlers';
 
 // Configure logger
 electronLog.transports.file.level = 'info';
@@ -31,7 +31,7 @@ function main(): void {
   try {
     setupApp();
     registerAppEvents();
-    setupIPC(windowManager);
+    setupIPC(windowManager, menuManager);
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown startup error';
     electronLog.error('Error during application startup:', errorMessage);
@@ -153,6 +153,16 @@ function registerAppEvents(): void {
       }
     });
     
+    // Save pending state before the app exits
+    app.on('will-quit', () => {
+      try {
+        teardownIPC();
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        electronLog.error('Error handling will-quit event:', errorMessage);
+      }
+    });
+    
     // Handle uncaught exceptions
     process.on('uncaughtException', (error: Error) => {
       electronLog.error('Uncaught Exception:', error.message);
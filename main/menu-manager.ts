@@ -1,8 +1,19 @@
 import { Menu, MenuItem, app, BrowserWindow, dialog } from 'electron';
 import * as electronLog from 'electron-log';
-import { IpcChannels } from './constants';
+import { IpcChannels, REPHRASE_STYLES, SUPPORTED_LANGUAGES, LANGUAGE_NAMES } from './constants';
+
+// Rephrase style as listed in the menus
+interface MenuStyle {
+  id: string;
+  label: string;
+}
 
 export class MenuManager {
+  // Built-in rephrase styles followed by the user's own
+  private rephraseStyles: MenuStyle[] = getBuiltInStyles();
+  // Whether inline autocomplete is on, shown as a checkbox in the AI menu
+  private inlineCompletion: boolean = false;
+  
   // S1: Build application menu
   // Creates and sets the application menu
   buildMenu(window: BrowserWindow): Menu {
@@ -78,9 +89,15 @@ export class MenuManager {
             case 'check-grammar':
               item.accelerator = 'CmdOrCtrl+G';
               break;
+            case 'check-document':
+              item.accelerator = 'CmdOrCtrl+Shift+G';
+              break;
             case 'rephrase-text':
               item.accelerator = 'CmdOrCtrl+R';
               break;
+            case 'toggle-chat':
+              item.accelerator = 'CmdOrCtrl+Shift+L';
+              break;
             case 'settings':
               item.accelerator = 'CmdOrCtrl+,';
               break;
@@ -169,20 +186,30 @@ export class MenuManager {
         case 'check-grammar':
           window.webContents.send(IpcChannels.AI_CHECK_GRAMMAR);
           break;
+        case 'check-document':
+          window.webContents.send(IpcChannels.AI_CHECK_DOCUMENT);
+          break;
         case 'rephrase-text':
           window.webContents.send(IpcChannels.AI_REPHRASE_TEXT);
           break;
-        case 'rephrase-formal':
-          window.webContents.send(IpcChannels.AI_REPHRASE_TEXT, 'formal');
+        case 'summarize-bullets':
+          window.webContents.send(IpcChannels.AI_SUMMARIZE_TEXT, 'bullets');
           break;
-        case 'rephrase-casual':
-          window.webContents.send(IpcChannels.AI_REPHRASE_TEXT, 'casual');
+        case 'summarize-paragraph':
+          window.webContents.send(IpcChannels.AI_SUMMARIZE_TEXT, 'paragraph');
           break;
-        case 'rephrase-concise':
-          window.webContents.send(IpcChannels.AI_REPHRASE_TEXT, 'concise');
+        case 'expand-text':
+          window.webContents.send(IpcChannels.AI_EXPAND_TEXT);
           break;
-        case 'rephrase-detailed':
-          window.webContents.send(IpcChannels.AI_REPHRASE_TEXT, 'detailed');
+        case 'outline-text':
+          window.webContents.send(IpcChannels.AI_OUTLINE_TEXT);
+          break;
+        case 'toggle-chat':
+          window.webContents.send(IpcChannels.AI_TOGGLE_CHAT);
+          break;
+        case 'toggle-autocomplete':
+          // The renderer owns the setting and reports the new value back through settings:save
+          window.webContents.send(IpcChannels.AI_TOGGLE_AUTOCOMPLETE);
           break;
         
         // Settings
@@ -199,6 +226,16 @@ export class MenuManager {
           break;
         
         default:
+          // Rephrase style items are generated from the style list, ids are "rephrase-<style id>"
+          if (menuItem.id.startsWith('rephrase-')) {
+            window.webContents.send(IpcChannels.AI_REPHRASE_TEXT, menuItem.id.slice('rephrase-'.length));
+            break;
+          }
+          // Translate items are "translate-<language code>"
+          if (menuItem.id.startsWith('translate-')) {
+            window.webContents.send(IpcChannels.AI_TRANSLATE_TEXT, menuItem.id.slice('translate-'.length));
+            break;
+          }
           electronLog.warn(`Unhandled menu item: ${menuItem.id}`);
       }
     } catch (error: unknown) {
@@ -268,56 +305,63 @@ export class MenuManager {
           label: 'Rephrase Text',
           id: 'rephrase-text',
           enabled: hasSelection,
-          submenu: [
-            {
-              label: 'Formal',
-              id: 'rephrase-formal',
-              click: () => {
-                try {
-                  window.webContents.send(IpcChannels.AI_REPHRASE_TEXT, 'formal');
-                } catch (error: unknown) {
-                  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-                  electronLog.error('Error sending formal rephrase command:', errorMessage);
-                }
+          submenu: this.rephraseStyles.map(style => ({
+            label: style.label,
+            id: `rephrase-${style.id}`,
+            click: () => {
+              try {
+                window.webContents.send(IpcChannels.AI_REPHRASE_TEXT, style.id);
+              } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+                electronLog.error(`Error sending ${style.id} rephrase command:`, errorMessage);
               }
-            },
-            {
-              label: 'Casual',
-              id: 'rephrase-casual',
-              click: () => {
-                try {
-                  window.webContents.send(IpcChannels.AI_REPHRASE_TEXT, 'casual');
-                } catch (error: unknown) {
-                  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-                  electronLog.error('Error sending casual rephrase command:', errorMessage);
-                }
+            }
+          }))
+        },
+        {
+          label: 'Translate To...',
+          id: 'translate-text',
+          enabled: hasSelection,
+          submenu: SUPPORTED_LANGUAGES.map(language => ({
+            label: LANGUAGE_NAMES[language] || language,
+            id: `translate-${language}`,
+            click: () => {
+              try {
+                window.webContents.send(IpcChannels.AI_TRANSLATE_TEXT, language);
+              } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+                electronLog.error(`Error sending ${language} translate command:`, errorMessage);
               }
-            },
+            }
+          }))
+        },
+        { type: 'separator' },
+        // These work on the whole document when nothing is selected
+        {
+          label: 'Summarize',
+          id: 'summarize-text',
+          submenu: [
             {
-              label: 'Concise',
-              id: 'rephrase-concise',
-              click: () => {
-                try {
-                  window.webContents.send(IpcChannels.AI_REPHRASE_TEXT, 'concise');
-                } catch (error: unknown) {
-                  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-                  electronLog.error('Error sending concise rephrase command:', errorMessage);
-                }
-              }
+              label: 'Bullet Points',
+              id: 'summarize-bullets',
+              click: () => this.handleMenuClick({ id: 'summarize-bullets' } as MenuItem, window)
             },
             {
-              label: 'Detailed',
-              id: 'rephrase-detailed',
-              click: () => {
-                try {
-                  window.webContents.send(IpcChannels.AI_REPHRASE_TEXT, 'detailed');
-                } catch (error: unknown) {
-                  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-                  electronLog.error('Error sending detailed rephrase command:', errorMessage);
-                }
-              }
+              label: 'Paragraph',
+              id: 'summarize-paragraph',
+              click: () => this.handleMenuClick({ id: 'summarize-paragraph' } as MenuItem, window)
             }
           ]
+        },
+        {
+          label: 'Expand into Prose',
+          id: 'expand-text',
+          click: () => this.handleMenuClick({ id: 'expand-text' } as MenuItem, window)
+        },
+        {
+          label: 'Generate Outline',
+          id: 'outline-text',
+          click: () => this.handleMenuClick({ id: 'outline-text' } as MenuItem, window)
         }
       ];
       
@@ -510,16 +554,38 @@ export class MenuManager {
       // Update AI operations
       updateMenuItem('check-grammar', { enabled: state.hasSelection });
       updateMenuItem('rephrase-text', { enabled: state.hasSelection });
-      updateMenuItem('rephrase-formal', { enabled: state.hasSelection });
-      updateMenuItem('rephrase-casual', { enabled: state.hasSelection });
-      updateMenuItem('rephrase-concise', { enabled: state.hasSelection });
-      updateMenuItem('rephrase-detailed', { enabled: state.hasSelection });
+      this.rephraseStyles.forEach(style => {
+        updateMenuItem(`rephrase-${style.id}`, { enabled: state.hasSelection });
+      });
+      updateMenuItem('translate-text', { enabled: state.hasSelection });
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       electronLog.error('Error updating menu state:', errorMessage);
     }
   }
   
+  // S8: Set rephrase styles
+  // Lists the user's own styles after the built-in ones; rebuild the menu to show them
+  setRephraseStyles(customStyles: MenuStyle[]): void {
+    this.rephraseStyles = [
+      ...getBuiltInStyles(),
+      ...customStyles.map(style => ({ id: style.id, label: style.label }))
+    ];
+  }
+  
+  // S9: Set inline completion state
+  // Ticks the autocomplete checkbox of the AI menu to match the setting
+  setInlineCompletion(enabled: boolean): void {
+    this.inlineCompletion = enabled;
+    
+    const menu = Menu.getApplicationMenu();
+    if (menu) {
+      this.findMenuItemsById(menu.items, 'toggle-autocomplete').forEach(item => {
+        item.checked = enabled;
+      });
+    }
+  }
+  
   // Helper method to find menu items by ID
   private findMenuItemsById(items: MenuItem[], id: string): MenuItem[] {
     const result: MenuItem[] = [];
@@ -695,31 +761,68 @@ export class MenuManager {
         id: 'check-grammar',
         click: () => this.handleMenuClick({ id: 'check-grammar' } as MenuItem, window)
       },
+      {
+        label: 'Check Entire Document',
+        id: 'check-document',
+        click: () => this.handleMenuClick({ id: 'check-document' } as MenuItem, window)
+      },
       {
         label: 'Rephrase Text',
         id: 'rephrase-text',
+        submenu: this.rephraseStyles.map(style => ({
+          label: style.label,
+          id: `rephrase-${style.id}`,
+          click: () => this.handleMenuClick({ id: `rephrase-${style.id}` } as MenuItem, window)
+        }))
+      },
+      {
+        label: 'Translate To...',
+        id: 'translate-text',
+        submenu: SUPPORTED_LANGUAGES.map(language => ({
+          label: LANGUAGE_NAMES[language] || language,
+          id: `translate-${language}`,
+          click: () => this.handleMenuClick({ id: `translate-${language}` } as MenuItem, window)
+        }))
+      },
+      { type: 'separator' },
+      {
+        label: 'Summarize',
+        id: 'summarize-text',
         submenu: [
           {
-            label: 'Formal',
-            id: 'rephrase-formal',
-            click: () => this.handleMenuClick({ id: 'rephrase-formal' } as MenuItem, window)
+            label: 'Bullet Points',
+            id: 'summarize-bullets',
+            click: () => this.handleMenuClick({ id: 'summarize-bullets' } as MenuItem, window)
           },
           {
-            label: 'Casual',
-            id: 'rephrase-casual',
-            click: () => this.handleMenuClick({ id: 'rephrase-casual' } as MenuItem, window)
-          },
-          {
-            label: 'Concise',
-            id: 'rephrase-concise',
-            click: () => this.handleMenuClick({ id: 'rephrase-concise' } as MenuItem, window)
-          },
-          {
-            label: 'Detailed',
-            id: 'rephrase-detailed',
-            click: () => this.handleMenuClick({ id: 'rephrase-detailed' } as MenuItem, window)
+            label: 'Paragraph',
+            id: 'summarize-paragraph',
+            click: () => this.handleMenuClick({ id: 'summarize-paragraph' } as MenuItem, window)
           }
         ]
+      },
+      {
+        label: 'Expand into Prose',
+        id: 'expand-text',
+        click: () => this.handleMenuClick({ id: 'expand-text' } as MenuItem, window)
+      },
+      {
+        label: 'Generate Outline',
+        id: 'outline-text',
+        click: () => this.handleMenuClick({ id: 'outline-text' } as MenuItem, window)
+      },
+      { type: 'separator' },
+      {
+        label: 'Chat with Document',
+        id: 'toggle-chat',
+        click: () => this.handleMenuClick({ id: 'toggle-chat' } as MenuItem, window)
+      },
+      {
+        label: 'Inline Autocomplete',
+        id: 'toggle-autocomplete',
+        type: 'checkbox',
+        checked: this.inlineCompletion,
+        click: () => this.handleMenuClick({ id: 'toggle-autocomplete' } as MenuItem, window)
       }
     ];
   }
@@ -735,3 +838,8 @@ export class MenuManager {
     ];
   }
 }
+
+// Helper to label the built-in rephrase styles
+function getBuiltInStyles(): MenuStyle[] {
+  return REPHRASE_STYLES.map(id => ({ id, label: id.charAt(0).toUpperCase() + id.slice(1) }));
+}
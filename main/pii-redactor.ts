@@ -0,0 +1,250 @@
+import * as electronLog from 'electron-log';
+
+// Detection rule written by the user
+// A rule either matches a regular expression or a list of words and phrases
+export interface RedactionRule {
+  // Placeholder name, e.g. CUSTOMER for [CUSTOMER_1]
+  kind: string;
+  // Regular expression, matched case-sensitively
+  pattern?: string;
+  // Words and phrases, matched as whole words ignoring case
+  terms?: string[];
+  enabled: boolean;
+}
+
+// Redaction applied to text sent to cloud providers
+export interface RedactionSettings {
+  enabled: boolean;
+  // Built-in detectors turned off, by id
+  disabledDetectors: string[];
+  rules: RedactionRule[];
+}
+
+// Value replaced by a placeholder
+export interface RedactedItem {
+  placeholder: string;
+  value: string;
+  kind: string;
+}
+
+// Built-in detector of a common kind of personal data
+interface Detector {
+  id: string;
+  kind: string;
+  pattern: RegExp;
+}
+
+// Rule ready to be matched against text
+interface CompiledRule {
+  kind: string;
+  pattern: RegExp;
+}
+
+// Span of text matched by a rule
+interface Match {
+  start: number;
+  end: number;
+  kind: string;
+}
+
+// Common kinds of personal data, checked in this order
+// Ids match REDACTION_DETECTORS, which holds their display names
+export const DETECTORS: Detector[] = [
+  { id: 'email', kind: 'EMAIL', pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g },
+  { id: 'url', kind: 'URL', pattern: /\bhttps?:\/\/[^\s<>"')\]]+/g },
+  { id: 'iban', kind: 'IBAN', pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g },
+  { id: 'card', kind: 'CARD', pattern: /\b\d(?:[ -]?\d){12,18}\b/g },
+  { id: 'ssn', kind: 'SSN', pattern: /\b\d{3}-\d{2}-\d{4}\b/g },
+  { id: 'phone', kind: 'PHONE', pattern: /(?:\+\d{1,3}[ .-]?)?(?:\(\d{2,4}\)|\b\d{2,4})[ .-]?\d{3,4}[ .-]?\d{3,4}\b/g },
+  { id: 'ip', kind: 'IP', pattern: /\b(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b/g }
+];
+
+const KIND_PATTERN = /^[A-Z][A-Z0-9_]*$/;
+const PLACEHOLDER_PATTERN = /\[[A-Z][A-Z0-9_]*_\d+\]/g;
+
+// Redaction of one request
+// Placeholders are numbered by kind and reused for repeated values, so every field of a request shares them
+export class Redaction {
+  private rules: CompiledRule[];
+  // Placeholder by redacted value
+  private placeholders: Map<string, string> = new Map();
+  // Redacted value by placeholder
+  private values: Map<string, string> = new Map();
+  private counts: Record<string, number> = {};
+  
+  // S1: Start a redaction
+  // Takes the rules to match, in order of precedence
+  constructor(rules: CompiledRule[]) {
+    this.rules = rules;
+  }
+  
+  // S2: Redact text
+  // Replaces every match with its placeholder; overlapping matches go to the earliest, then longest
+  redact(text: string): string {
+    if (!text) {
+      return text;
+    }
+    
+    const matches: Match[] = [];
+    this.rules.forEach(rule => {
+      rule.pattern.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while ((match = rule.pattern.exec(text)) !== null) {
+        if (match[0].length === 0) {
+          rule.pattern.lastIndex++;
+          continue;
+        }
+        matches.push({ start: match.index, end: match.index + match[0].length, kind: rule.kind });
+      }
+    });
+    
+    matches.sort((a, b) => a.start - b.start || b.end - a.end);
+    
+    let result = '';
+    let position = 0;
+    matches.forEach(match => {
+      if (match.start < position) {
+        return;
+      }
+      
+      result += text.slice(position, match.start) + this.getPlaceholder(text.slice(match.start, match.end), match.kind);
+      position = match.end;
+    });
+    
+    return result + text.slice(position);
+  }
+  
+  // S3: Restore text
+  // Puts the redacted values back in place of their placeholders
+  restore(text: string): string {
+    if (!text || this.values.size === 0) {
+      return text;
+    }
+    
+    return text.replace(PLACEHOLDER_PATTERN, placeholder => this.values.get(placeholder) ?? placeholder);
+  }
+  
+  // S4: Map an offset
+  // Turns a position in redacted text into the matching position in the original text
+  restoreOffset(redactedText: string, offset: number): number {
+    let shift = 0;
+    const pattern = new RegExp(PLACEHOLDER_PATTERN.source, 'g');
+    let match: RegExpExecArray | null;
+    
+    while ((match = pattern.exec(redactedText)) !== null && match.index < offset) {
+      const value = this.values.get(match[0]);
+      if (value !== undefined) {
+        shift += value.length - match[0].length;
+      }
+    }
+    
+    return offset + shift;
+  }
+  
+  // S5: List redacted values
+  // Returns every value replaced so far with its placeholder
+  getItems(): RedactedItem[] {
+    return Array.from(this.placeholders.entries()).map(([value, placeholder]) => ({
+      placeholder,
+      value,
+      kind: placeholder.slice(1, placeholder.lastIndexOf('_'))
+    }));
+  }
+  
+  // Helper method to find or create the placeholder of a value
+  private getPlaceholder(value: string, kind: string): string {
+    const existing = this.placeholders.get(value);
+    if (existing) {
+      return existing;
+    }
+    
+    this.counts[kind] = (this.counts[kind] || 0) + 1;
+    const placeholder = `[${kind}_${this.counts[kind]}]`;
+    this.placeholders.set(value, placeholder);
+    this.values.set(placeholder, value);
+    return placeholder;
+  }
+}
+
+// PII redactor
+// Compiles the built-in detectors and user rules once and starts a Redaction for each request
+export class PiiRedactor {
+  private settings: RedactionSettings;
+  private rules: CompiledRule[];
+  
+  // S1: Initialize redactor
+  // Starts with every built-in detector enabled
+  constructor(settings: RedactionSettings = { enabled: true, disabledDetectors: [], rules: [] }) {
+    this.settings = settings;
+    this.rules = compileRules(settings);
+  }
+  
+  // S2: Update settings
+  // Replaces the rules, skipping ones that can't be compiled
+  setSettings(settings: RedactionSettings): void {
+    this.settings = settings;
+    this.rules = compileRules(settings);
+  }
+  
+  // S3: Check whether redaction is on
+  // Tells whether text sent to cloud providers is redacted
+  isEnabled(): boolean {
+    return this.settings.enabled && this.rules.length > 0;
+  }
+  
+  // S4: Start a redaction
+  // Returns a redaction that shares placeholders across the fields of one request
+  begin(): Redaction {
+    return new Redaction(this.rules);
+  }
+}
+
+// Helper to compile the enabled detectors and user rules, user rules first so their kinds win ties
+// Invalid rules are logged and skipped rather than failing every request
+function compileRules(settings: RedactionSettings): CompiledRule[] {
+  const rules: CompiledRule[] = [];
+  
+  (settings.rules || []).forEach(rule => {
+    if (!rule || !rule.enabled) {
+      return;
+    }
+    
+    const kind = (rule.kind || '').trim().toUpperCase().replace(/[^A-Z0-9_]+/g, '_');
+    if (!KIND_PATTERN.test(kind)) {
+      electronLog.warn(`Ignoring redaction rule with an invalid name: "${rule.kind}"`);
+      return;
+    }
+    
+    const terms = (rule.terms || []).map(term => term.trim()).filter(term => term.length > 0);
+    if (terms.length > 0) {
+      // Longest terms first so a full name wins over a part of it
+      const alternatives = terms
+        .sort((a, b) => b.length - a.length)
+        .map(term => `${/^\w/.test(term) ? '\\b' : ''}${escapeRegExp(term)}${/\w$/.test(term) ? '\\b' : ''}`);
+      rules.push({ kind, pattern: new RegExp(alternatives.join('|'), 'gi') });
+    }
+    
+    if (rule.pattern && rule.pattern.trim()) {
+      try {
+        rules.push({ kind, pattern: new RegExp(rule.pattern, 'g') });
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        electronLog.warn(`Ignoring redaction rule ${kind} with an invalid pattern:`, errorMessage);
+      }
+    }
+  });
+  
+  const disabled = settings.disabledDetectors || [];
+  DETECTORS.forEach(detector => {
+    if (!disabled.includes(detector.id)) {
+      rules.push({ kind: detector.kind, pattern: new RegExp(detector.pattern.source, detector.pattern.flags) });
+    }
+  });
+  
+  return rules;
+}
+
+// Helper to escape the characters of a term that have a meaning in regular expressions
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
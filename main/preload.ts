@@ -16,15 +16,75 @@ function setupContextBridge(): void {
     getRecentFiles: () => ipcRenderer.invoke(IpcChannels.GET_RECENT_FILES),
     
     // AI operations - matching IPCBridge method names
-    aiCheckGrammar: (data: { text: string, language?: string }) => 
+    aiCheckGrammar: (data: { text: string, language?: string, batch?: boolean }) =>
       ipcRenderer.invoke(IpcChannels.AI_CHECK_GRAMMAR, data),
-    aiRephraseText: (data: { text: string, style?: string }) => 
+    aiRephraseText: (data: { text: string, style?: string, batch?: boolean }) =>
       ipcRenderer.invoke(IpcChannels.AI_REPHRASE_TEXT, data),
+    aiCancel: (requestId: string) =>
+      ipcRenderer.invoke(IpcChannels.AI_CANCEL, requestId),
+    aiLintGrammar: (data: { text: string, language?: string }) =>
+      ipcRenderer.invoke(IpcChannels.AI_LINT_GRAMMAR, data),
+    aiTranslateText: (data: { text: string, targetLanguage: string, sourceLanguage?: string }) =>
+      ipcRenderer.invoke(IpcChannels.AI_TRANSLATE_TEXT, data),
+    aiSummarizeText: (data: { text: string, format?: string, targetLength?: number }) =>
+      ipcRenderer.invoke(IpcChannels.AI_SUMMARIZE_TEXT, data),
+    aiExpandText: (data: { text: string }) =>
+      ipcRenderer.invoke(IpcChannels.AI_EXPAND_TEXT, data),
+    aiOutlineText: (data: { text: string }) =>
+      ipcRenderer.invoke(IpcChannels.AI_OUTLINE_TEXT, data),
+    aiCompleteText: (data: { text: string, requestId: string }) =>
+      ipcRenderer.invoke(IpcChannels.AI_COMPLETE_TEXT, data),
+    aiChat: (data: { messages: Array<{ role: string, content: string }>, context?: { kind: string, text: string } }) =>
+      ipcRenderer.invoke(IpcChannels.AI_CHAT, data),
+    aiExplainSuggestion: (data: { original: string, replacement: string }) =>
+      ipcRenderer.invoke(IpcChannels.AI_EXPLAIN_SUGGESTION, data),
+    aiListModels: (data: { provider: string, baseUrl?: string }) =>
+      ipcRenderer.invoke(IpcChannels.AI_LIST_MODELS, data),
+    aiHealthCheck: (data: { provider: string, baseUrl?: string, apiKey?: string }) =>
+      ipcRenderer.invoke(IpcChannels.AI_HEALTH_CHECK, data),
+    aiHealthGet: () => ipcRenderer.invoke(IpcChannels.AI_HEALTH_GET),
+    aiRedactionPreview: (data: { text: string, operation?: string, settings?: Record<string, any> }) =>
+      ipcRenderer.invoke(IpcChannels.AI_REDACTION_PREVIEW, data),
     
     // Settings operations - matching IPCBridge method names
     settingsGet: () => ipcRenderer.invoke(IpcChannels.SETTINGS_GET),
     settingsSave: (settings: any) => ipcRenderer.invoke(IpcChannels.SETTINGS_SAVE, settings),
     
+    // API key operations - keys go in, only their status comes back
+    apiKeysStatus: () => ipcRenderer.invoke(IpcChannels.API_KEYS_STATUS),
+    apiKeysSet: (data: { provider: string, key: string }) => ipcRenderer.invoke(IpcChannels.API_KEYS_SET, data),
+    
+    // Response cache operations - matching IPCBridge method names
+    cacheStats: () => ipcRenderer.invoke(IpcChannels.CACHE_STATS),
+    cacheClear: () => ipcRenderer.invoke(IpcChannels.CACHE_CLEAR),
+    cacheExport: () => ipcRenderer.invoke(IpcChannels.CACHE_EXPORT),
+    
+    // Usage operations - matching IPCBridge method names
+    usageReport: (data?: { days?: number }) => ipcRenderer.invoke(IpcChannels.USAGE_REPORT, data),
+    usageStatus: () => ipcRenderer.invoke(IpcChannels.USAGE_STATUS),
+    usageClear: () => ipcRenderer.invoke(IpcChannels.USAGE_CLEAR),
+    
+    // Prompt template operations - matching IPCBridge method names
+    promptsList: () => ipcRenderer.invoke(IpcChannels.PROMPTS_LIST),
+    promptsSave: (data: { id: string, system: string, user: string }) =>
+      ipcRenderer.invoke(IpcChannels.PROMPTS_SAVE, data),
+    promptsReset: (id: string) => ipcRenderer.invoke(IpcChannels.PROMPTS_RESET, id),
+    promptsPreview: (data: { system: string, user: string, text: string, language?: string, style?: string }) =>
+      ipcRenderer.invoke(IpcChannels.PROMPTS_PREVIEW, data),
+    
+    // Chat history operations - matching IPCBridge method names
+    chatHistoryGet: (filePath: string) => ipcRenderer.invoke(IpcChannels.CHAT_HISTORY_GET, filePath),
+    chatHistorySave: (data: { filePath: string, messages: any[] }) =>
+      ipcRenderer.invoke(IpcChannels.CHAT_HISTORY_SAVE, data),
+    chatHistoryClear: (filePath: string) => ipcRenderer.invoke(IpcChannels.CHAT_HISTORY_CLEAR, filePath),
+    
+    // User dictionary operations - matching IPCBridge method names
+    dictionaryGet: () => ipcRenderer.invoke(IpcChannels.DICTIONARY_GET),
+    dictionaryAddWord: (data: { scope: string, word: string }) => ipcRenderer.invoke(IpcChannels.DICTIONARY_ADD_WORD, data),
+    dictionaryAddIgnore: (data: { scope: string, rule: any }) => ipcRenderer.invoke(IpcChannels.DICTIONARY_ADD_IGNORE, data),
+    dictionarySave: (data: { scope: string, entries: any }) => ipcRenderer.invoke(IpcChannels.DICTIONARY_SAVE, data),
+    dictionaryFilter: (data: { issues: any[] }) => ipcRenderer.invoke(IpcChannels.DICTIONARY_FILTER, data),
+    
     // UI operations - matching IPCBridge method names
     uiShowSettings: () => ipcRenderer.send(IpcChannels.SHOW_SETTINGS),
     uiShowDocumentation: () => ipcRenderer.send(IpcChannels.SHOW_DOCUMENTATION),
@@ -66,7 +126,20 @@ function setupContextBridge(): void {
         IpcChannels.VIEW_ZOOM_OUT,
         IpcChannels.VIEW_ZOOM_RESET,
         IpcChannels.AI_CHECK_GRAMMAR,
+        IpcChannels.AI_CHECK_DOCUMENT,
         IpcChannels.AI_REPHRASE_TEXT,
+        IpcChannels.AI_TRANSLATE_TEXT,
+        IpcChannels.AI_SUMMARIZE_TEXT,
+        IpcChannels.AI_EXPAND_TEXT,
+        IpcChannels.AI_OUTLINE_TEXT,
+        IpcChannels.AI_TOGGLE_AUTOCOMPLETE,
+        IpcChannels.AI_TOGGLE_CHAT,
+        IpcChannels.AI_STREAM_START,
+        IpcChannels.AI_STREAM_CHUNK,
+        IpcChannels.AI_QUEUE_STATUS,
+        IpcChannels.AI_HEALTH_STATUS,
+        IpcChannels.AI_USAGE_STATUS,
+        IpcChannels.DICTIONARY_CHANGED,
         IpcChannels.SHOW_SETTINGS,
         IpcChannels.SHOW_DOCUMENTATION
       ];
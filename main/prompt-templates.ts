@@ -0,0 +1,288 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as electronLog from 'electron-log';
+import { getAppDataPath } from './file-handler';
+
+// Values substituted for the {name} placeholders of a template
+export interface PromptVariables {
+  text: string;
+  language?: string;
+  style?: string;
+  // Source language of a translation, detected by the model when empty
+  source?: string;
+  // Summary layout, 'bullets' or 'paragraph'
+  format?: string;
+  // Target summary length in words
+  length?: number;
+  // Editor text shared with a chat, already introduced and truncated
+  context?: string;
+  // Corrected text of a change being explained
+  replacement?: string;
+}
+
+// Prompt template for one operation
+// version grows with every save or reset so cached replies to older wordings are never reused
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  version: number;
+  system: string;
+  user: string;
+  isDefault: boolean;
+}
+
+// Template after its placeholders have been filled in
+export interface RenderedPrompt {
+  system: string;
+  user: string;
+}
+
+// Edited template as stored on disk
+interface StoredTemplate {
+  version: number;
+  system: string;
+  user: string;
+  updatedAt: string;
+}
+
+// Layout of the templates file on disk
+interface TemplatesFile {
+  version: number;
+  templates: Record<string, StoredTemplate>;
+}
+
+// Placeholders a template may use
+export const PROMPT_VARIABLES = ['text', 'language', 'style', 'source', 'format', 'length', 'context', 'replacement'];
+
+const TEMPLATES_FILE_VERSION = 1;
+const VARIABLE_PATTERN = /\{(text|language|style|source|format|length|context|replacement)\}/g;
+
+// Built-in templates, used until the user edits them
+const DEFAULT_TEMPLATES: Record<string, { name: string; system: string; user: string }> = {
+  'grammar-check': {
+    name: 'Grammar Check',
+    system: `You are a professional grammar checker. Check the provided text for grammar, spelling, and punctuation errors.
+Report each error separately, keeping each fragment as short as possible.
+Return ONLY a JSON object of the form {"issues": [...]} where each item has properties: original (the erroneous fragment copied exactly from the text), replacement (the corrected fragment), offset (zero-based character index of the fragment in the text), category (grammar/spelling/punctuation/style), explanation (one short sentence), confidence (number from 0 to 1).
+Return {"issues": []} if there are no errors.
+Do not include any other text in your response, just the JSON object.`,
+    user: `Text: "{text}"
+Language: {language}`
+  },
+  rephrase: {
+    name: 'Rephrase',
+    system: `You are a professional text rephraser. Rephrase the provided text in a {style} style.
+Provide multiple options with confidence scores (0-1).
+Return ONLY a JSON object of the form {"suggestions": [...]} where each item has properties: text (rephrased text), confidence (number from 0 to 1), type (rephrasing), explain (one short sentence on what was changed and why).
+Do not include any other text in your response, just the JSON object.`,
+    user: `Text: "{text}"`
+  },
+  translate: {
+    name: 'Translate',
+    system: `You are a professional translator. Translate the provided text into {language}.
+Source language: {source}.
+Keep the meaning, tone, formatting and line breaks of the original. Leave code, URLs and names that have no translation unchanged.
+Return ONLY a JSON object of the form {"translation": "...", "detectedLanguage": "..."} where translation is the translated text and detectedLanguage is the ISO 639-1 code of the source text.
+Do not include any other text in your response, just the JSON object.`,
+    user: `Text: "{text}"`
+  },
+  summarize: {
+    name: 'Summarize',
+    system: `You are an assistant that summarizes notes and documents. Summarize the provided text as {format}, {length}.
+Keep the key facts, decisions and action items; leave out repetition and small talk. Write in the language of the text.
+Return ONLY a JSON object of the form {"text": "..."} where text is the summary.
+Do not include any other text in your response, just the JSON object.`,
+    user: `Text: "{text}"`
+  },
+  expand: {
+    name: 'Expand into Prose',
+    system: `You are a professional writer. Turn the provided notes into well-structured prose.
+Keep every point from the notes and their order, connect them into full sentences and paragraphs, and do not invent facts. Write in the language of the notes.
+Return ONLY a JSON object of the form {"text": "..."} where text is the prose.
+Do not include any other text in your response, just the JSON object.`,
+    user: `Notes: "{text}"`
+  },
+  outline: {
+    name: 'Generate Outline',
+    system: `You are an assistant that structures documents. Create a hierarchical outline of the provided text.
+Use "- " bullets, indenting sub-points by two spaces per level, and keep each point short. Write in the language of the text.
+Return ONLY a JSON object of the form {"text": "..."} where text is the outline.
+Do not include any other text in your response, just the JSON object.`,
+    user: `Text: "{text}"`
+  },
+  complete: {
+    name: 'Continue Writing',
+    system: `You are a writing assistant that continues the user's text. Write the next few words, at most one sentence, that naturally follow the end of the text.
+Match its language, tone and style, and never repeat what is already written. If the text ends in the middle of a word, finish that word first; begin with a space if the continuation starts a new word.
+Return ONLY a JSON object of the form {"text": "..."} where text is the continuation.
+Do not include any other text in your response, just the JSON object.`,
+    user: `Text: "{text}"`
+  },
+  chat: {
+    name: 'Chat',
+    system: `You are a writing assistant built into a text editor. Reply to the user's latest message in the conversation, helpfully and concisely.
+When asked to draft or rewrite something, reply with just that text so it can be inserted into the document.
+{context}
+Return ONLY a JSON object of the form {"text": "..."} where text is your reply.
+Do not include any other text in your response, just the JSON object.`,
+    user: `Conversation:
+{text}`
+  },
+  explain: {
+    name: 'Explain Correction',
+    system: `You are a writing tutor. Explain why the corrected text is better than the original.
+Name the grammar, spelling, punctuation or style rule being applied and explain it in one to three short sentences a non-expert can follow, referring to the words that changed.
+Return ONLY a JSON object of the form {"rule": "...", "explanation": "..."} where rule is the short name of the rule and explanation is your explanation.
+Do not include any other text in your response, just the JSON object.`,
+    user: `Original: "{text}"
+Corrected: "{replacement}"`
+  }
+};
+
+// Named, versioned prompt templates
+// Built-in templates can be edited by the user; edits are stored as JSON in the app data directory
+export class PromptTemplateStore {
+  private filePath: string;
+  private templates: Record<string, StoredTemplate> = {};
+  
+  // S1: Initialize template store
+  // Loads the templates edited in a previous session
+  constructor(filePath: string = getAppDataPath('prompt-templates.json')) {
+    this.filePath = filePath;
+    this.load();
+  }
+  
+  // S2: List templates
+  // Returns every template with its current wording and version
+  list(): PromptTemplate[] {
+    return Object.keys(DEFAULT_TEMPLATES).map(id => this.get(id)!);
+  }
+  
+  // S3: Get template
+  // Returns the template of an operation, or undefined if there is none
+  get(id: string): PromptTemplate | undefined {
+    const defaults = DEFAULT_TEMPLATES[id];
+    if (!defaults) {
+      return undefined;
+    }
+    
+    const stored = this.templates[id];
+    const system = stored ? stored.system : defaults.system;
+    const user = stored ? stored.user : defaults.user;
+    
+    return {
+      id,
+      name: defaults.name,
+      version: stored ? stored.version : 1,
+      system,
+      user,
+      isDefault: system === defaults.system && user === defaults.user
+    };
+  }
+  
+  // S4: Save template
+  // Stores new wording for a template under the next version
+  save(id: string, system: string, user: string): PromptTemplate {
+    const current = this.get(id);
+    if (!current) {
+      throw new Error(`Unknown prompt template: ${id}`);
+    }
+    
+    if (!system.trim() || !user.trim()) {
+      throw new Error('System and user prompts must not be empty');
+    }
+    
+    if (!`${system}\n${user}`.includes('{text}')) {
+      throw new Error('Template must include the {text} placeholder');
+    }
+    
+    if (system === current.system && user === current.user) {
+      return current;
+    }
+    
+    this.templates[id] = {
+      version: current.version + 1,
+      system,
+      user,
+      updatedAt: new Date().toISOString()
+    };
+    this.persist();
+    
+    electronLog.info(`Prompt template "${id}" saved as version ${this.templates[id].version}`);
+    return this.get(id)!;
+  }
+  
+  // S5: Reset template
+  // Restores the built-in wording, still under a new version
+  reset(id: string): PromptTemplate {
+    const defaults = DEFAULT_TEMPLATES[id];
+    if (!defaults) {
+      throw new Error(`Unknown prompt template: ${id}`);
+    }
+    
+    return this.save(id, defaults.system, defaults.user);
+  }
+  
+  // S6: Render template
+  // Fills in the placeholders of an operation's template
+  render(id: string, variables: PromptVariables): RenderedPrompt {
+    const template = this.get(id);
+    if (!template) {
+      throw new Error(`Unknown prompt template: ${id}`);
+    }
+    
+    return renderPrompt(template, variables);
+  }
+  
+  // Helper method to read the templates file, falling back to the built-in templates
+  private load(): void {
+    try {
+      if (!fs.existsSync(this.filePath)) {
+        return;
+      }
+      
+      const data: TemplatesFile = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      if (data.version !== TEMPLATES_FILE_VERSION || !data.templates || typeof data.templates !== 'object') {
+        electronLog.warn('Ignoring prompt templates file with an unknown layout');
+        return;
+      }
+      
+      this.templates = data.templates;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      electronLog.error('Failed to load prompt templates:', errorMessage);
+    }
+  }
+  
+  // Helper method to write the templates file
+  private persist(): void {
+    const data: TemplatesFile = {
+      version: TEMPLATES_FILE_VERSION,
+      templates: this.templates
+    };
+    
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(data, null, 2), 'utf8');
+  }
+}
+
+// Fill in the placeholders of a template
+// Unknown placeholders and JSON braces in the wording are left untouched
+export function renderPrompt(template: { system: string; user: string }, variables: PromptVariables): RenderedPrompt {
+  const values: Record<string, string> = {
+    text: variables.text,
+    language: variables.language || 'English',
+    style: variables.style || 'formal',
+    source: variables.source || 'unknown, detect it from the text',
+    format: variables.format === 'paragraph' ? 'a single paragraph' : 'a bulleted list',
+    length: variables.length ? `in about ${variables.length} words` : 'as briefly as the content allows',
+    context: variables.context || 'The user has not shared any text from the editor.',
+    replacement: variables.replacement || '(removed)'
+  };
+  const fill = (wording: string) => wording.replace(VARIABLE_PATTERN, (_match, name: string) => values[name]);
+  
+  return {
+    system: fill(template.system),
+    user: fill(template.user)
+  };
+}
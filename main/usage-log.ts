@@ -0,0 +1,254 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as electronLog from 'electron-log';
+import { getAppDataPath } from './file-handler';
+
+// Metrics of one provider call, or of a request answered from the cache
+export interface UsageRecord {
+  timestamp: string;
+  provider: string;
+  model: string;
+  operation: string;
+  promptTokens: number;
+  completionTokens: number;
+  // True when the provider reported no token counts and they were estimated from the text length
+  estimated: boolean;
+  latencyMs: number;
+  cacheHit: boolean;
+  // ErrorCodes value of a failed call
+  errorCode?: string;
+}
+
+// Totals over a set of usage records
+export interface UsageTotals {
+  requests: number;
+  cacheHits: number;
+  errors: number;
+  promptTokens: number;
+  completionTokens: number;
+  // Requests whose token counts were estimated
+  estimated: number;
+  // Sum of the latencies of the calls that reached a provider
+  latencyMs: number;
+}
+
+// Totals of one provider, model and operation on one day
+export interface DailyUsage extends UsageTotals {
+  // Local date, YYYY-MM-DD
+  date: string;
+  provider: string;
+  model: string;
+  operation: string;
+}
+
+// Layout of the rollup file on disk
+interface RollupFile {
+  version: number;
+  days: DailyUsage[];
+}
+
+const ROLLUP_FILE_VERSION = 1;
+const LOG_RETENTION_DAYS = 90; // Raw records are kept this long, the daily rollups forever
+const SAVE_DELAY = 2000; // Batch rollup writes that happen close together
+
+// Helper to format a date as a local YYYY-MM-DD day
+export function toDay(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Helper to create empty totals
+export function emptyTotals(): UsageTotals {
+  return { requests: 0, cacheHits: 0, errors: 0, promptTokens: 0, completionTokens: 0, estimated: 0, latencyMs: 0 };
+}
+
+// Helper to add totals to others in place
+export function addTotals(target: UsageTotals, source: UsageTotals): void {
+  target.requests += source.requests;
+  target.cacheHits += source.cacheHits;
+  target.errors += source.errors;
+  target.promptTokens += source.promptTokens;
+  target.completionTokens += source.completionTokens;
+  target.estimated += source.estimated;
+  target.latencyMs += source.latencyMs;
+}
+
+// LLM usage log
+// Appends every record to a JSON lines file and keeps daily totals by provider, model and operation in a JSON file
+export class UsageLog {
+  private logPath: string;
+  private rollupPath: string;
+  // Daily totals by date, provider, model and operation
+  private days: Map<string, DailyUsage> = new Map();
+  // Appends and pruning of the log run one after another
+  private writes: Promise<void> = Promise.resolve();
+  private saveTimeout: NodeJS.Timeout | null = null;
+  
+  // S1: Initialize usage log
+  // Loads the daily totals and drops raw records past their retention
+  constructor(
+    logPath: string = getAppDataPath('usage-log.jsonl'),
+    rollupPath: string = getAppDataPath('usage-daily.json')
+  ) {
+    this.logPath = logPath;
+    this.rollupPath = rollupPath;
+    
+    this.load();
+    this.enqueue(() => this.prune());
+  }
+  
+  // S2: Record usage
+  // Appends a record to the log and adds it to the totals of its day
+  record(record: UsageRecord): void {
+    const date = toDay(new Date(record.timestamp));
+    const key = JSON.stringify([date, record.provider, record.model, record.operation]);
+    
+    let daily = this.days.get(key);
+    if (!daily) {
+      daily = { date, provider: record.provider, model: record.model, operation: record.operation, ...emptyTotals() };
+      this.days.set(key, daily);
+    }
+    
+    addTotals(daily, {
+      requests: 1,
+      cacheHits: record.cacheHit ? 1 : 0,
+      errors: record.errorCode ? 1 : 0,
+      promptTokens: record.promptTokens,
+      completionTokens: record.completionTokens,
+      estimated: record.estimated ? 1 : 0,
+      latencyMs: record.cacheHit ? 0 : record.latencyMs
+    });
+    
+    this.enqueue(async () => {
+      await fs.promises.mkdir(path.dirname(this.logPath), { recursive: true });
+      await fs.promises.appendFile(this.logPath, `${JSON.stringify(record)}\n`, 'utf8');
+    });
+    this.scheduleSave();
+  }
+  
+  // S3: Get daily totals
+  // Returns the totals of the days from one date to another, both YYYY-MM-DD and included
+  getDaily(from: string, to: string): DailyUsage[] {
+    return Array.from(this.days.values())
+      .filter(daily => daily.date >= from && daily.date <= to)
+      .map(daily => ({ ...daily }));
+  }
+  
+  // S4: Clear usage
+  // Drops every record and total, on disk as well
+  clear(): void {
+    this.days.clear();
+    this.flush();
+    this.enqueue(() => fs.promises.rm(this.logPath, { force: true }));
+    
+    electronLog.info('LLM usage log cleared');
+  }
+  
+  // S5: Flush usage
+  // Writes pending totals to disk right away, used when the app quits
+  flush(): void {
+    if (this.saveTimeout) {
+      clearTimeout(this.saveTimeout);
+      this.saveTimeout = null;
+    }
+    
+    try {
+      fs.mkdirSync(path.dirname(this.rollupPath), { recursive: true });
+      fs.writeFileSync(this.rollupPath, this.serialize(), 'utf8');
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      electronLog.error('Failed to save LLM usage:', errorMessage);
+    }
+  }
+  
+  // Helper method to read the rollup file, starting empty if it is missing or unreadable
+  private load(): void {
+    try {
+      if (!fs.existsSync(this.rollupPath)) {
+        return;
+      }
+      
+      const data: RollupFile = JSON.parse(fs.readFileSync(this.rollupPath, 'utf8'));
+      if (data.version !== ROLLUP_FILE_VERSION || !Array.isArray(data.days)) {
+        electronLog.warn('Ignoring LLM usage file with an unknown layout');
+        return;
+      }
+      
+      data.days.forEach(daily => {
+        this.days.set(JSON.stringify([daily.date, daily.provider, daily.model, daily.operation]), daily);
+      });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      electronLog.error('Failed to load LLM usage:', errorMessage);
+    }
+  }
+  
+  // Helper method to rewrite the log without the records past their retention
+  private async prune(): Promise<void> {
+    let content: string;
+    try {
+      content = await fs.promises.readFile(this.logPath, 'utf8');
+    } catch (error: unknown) {
+      // Nothing logged yet
+      return;
+    }
+    
+    const cutoff = new Date(Date.now() - LOG_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const lines = content.split('\n').filter(line => line.trim());
+    const kept = lines.filter(line => {
+      try {
+        return JSON.parse(line).timestamp >= cutoff;
+      } catch (error: unknown) {
+        return false;
+      }
+    });
+    
+    if (kept.length < lines.length) {
+      const tempPath = `${this.logPath}.tmp`;
+      await fs.promises.writeFile(tempPath, kept.map(line => `${line}\n`).join(''), 'utf8');
+      await fs.promises.rename(tempPath, this.logPath);
+      electronLog.info(`Dropped ${lines.length - kept.length} LLM usage records older than ${LOG_RETENTION_DAYS} days`);
+    }
+  }
+  
+  // Helper method to run a write to the log after the ones before it
+  private enqueue(write: () => Promise<void>): void {
+    this.writes = this.writes.then(write).catch((error: unknown) => {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      electronLog.error('Failed to write LLM usage log:', errorMessage);
+    });
+  }
+  
+  // Helper method to write the rollup file shortly after the last change
+  private scheduleSave(): void {
+    if (this.saveTimeout) {
+      return;
+    }
+    
+    this.saveTimeout = setTimeout(async () => {
+      this.saveTimeout = null;
+      
+      try {
+        // Write to a temporary file first so a crash never leaves a truncated file
+        const tempPath = `${this.rollupPath}.tmp`;
+        await fs.promises.mkdir(path.dirname(this.rollupPath), { recursive: true });
+        await fs.promises.writeFile(tempPath, this.serialize(), 'utf8');
+        await fs.promises.rename(tempPath, this.rollupPath);
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        electronLog.error('Failed to save LLM usage:', errorMessage);
+      }
+    }, SAVE_DELAY);
+  }
+  
+  // Helper method to build the rollup file contents
+  private serialize(): string {
+    const data: RollupFile = {
+      version: ROLLUP_FILE_VERSION,
+      days: Array.from(this.days.values()).sort((a, b) => a.date.localeCompare(b.date))
+    };
+    
+    return JSON.stringify(data);
+  }
+}
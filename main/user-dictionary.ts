@@ -0,0 +1,257 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as electronLog from 'electron-log';
+import { getAppDataPath } from './file-handler';
+
+// Suggestions matching a rule are never shown
+// A plain pattern matches the whole flagged text ignoring case, a regex pattern is searched in it
+export interface IgnoreRule {
+  pattern: string;
+  regex: boolean;
+  // Only suggestions of this category are ignored, all of them when empty
+  category?: string;
+}
+
+// Words and ignore rules of one scope
+export interface DictionaryEntries {
+  words: string[];
+  ignoreRules: IgnoreRule[];
+}
+
+// Entries shared by every document, or kept for the folder of the open document
+export type DictionaryScope = 'global' | 'workspace';
+
+// Entries that apply to a document
+export interface UserDictionary {
+  global: DictionaryEntries;
+  // Folder of the document, null while it has never been saved
+  workspacePath: string | null;
+  workspace: DictionaryEntries | null;
+}
+
+// Layout of the dictionary file on disk
+interface DictionaryFile {
+  version: number;
+  global: DictionaryEntries;
+  // Entries by workspace folder
+  workspaces: Record<string, DictionaryEntries>;
+}
+
+const DICTIONARY_FILE_VERSION = 1;
+
+// Letters, marks, digits and underscores, which a dictionary word must not be directly next to
+const WORD_CHAR = '[\\p{L}\\p{M}\\p{N}_]';
+
+// Helper to create empty entries
+export function emptyEntries(): DictionaryEntries {
+  return { words: [], ignoreRules: [] };
+}
+
+// Helper to list the words of a dictionary that occur in a text, to tell the model to leave them alone
+export function findDictionaryTerms(text: string, dictionary: UserDictionary): string[] {
+  return getWords(dictionary).filter(word => wordPattern(word).test(text));
+}
+
+// Helper to tell whether a suggestion should be hidden
+// It is when it flags a dictionary word, changes one inside a longer fragment, or matches an ignore rule
+export function isIgnoredIssue(
+  issue: { original: string; replacement: string; category: string },
+  dictionary: UserDictionary
+): boolean {
+  const changesWord = getWords(dictionary).some(word => {
+    const pattern = wordPattern(word);
+    if (!pattern.test(issue.original)) {
+      return false;
+    }
+    
+    // The match covers the whole fragment exactly when the lengths agree
+    return issue.original.trim().length === word.length || !pattern.test(issue.replacement);
+  });
+  if (changesWord) {
+    return true;
+  }
+  
+  const original = issue.original.trim();
+  return getIgnoreRules(dictionary).some(rule => {
+    if (!rule.pattern || (rule.category && rule.category.toLowerCase() !== (issue.category || '').toLowerCase())) {
+      return false;
+    }
+    
+    if (!rule.regex) {
+      return rule.pattern.trim().toLowerCase() === original.toLowerCase();
+    }
+    
+    try {
+      return new RegExp(rule.pattern, 'iu').test(original);
+    } catch (error: unknown) {
+      // Invalid patterns are flagged in the settings and match nothing
+      return false;
+    }
+  });
+}
+
+// Personal dictionary and ignore rules
+// Global entries apply to every document, workspace entries to the documents of one folder
+export class UserDictionaryStore {
+  private filePath: string;
+  private data: DictionaryFile | null = null;
+  
+  // S1: Initialize dictionary store
+  // Sets the file the dictionary is kept in
+  constructor(filePath: string = getAppDataPath('user-dictionary.json')) {
+    this.filePath = filePath;
+  }
+  
+  // S2: Get dictionary
+  // Returns the global entries and those of the folder of a document
+  get(documentPath: string): UserDictionary {
+    const data = this.load();
+    const workspacePath = documentPath ? path.dirname(documentPath) : null;
+    const workspace = workspacePath ? data.workspaces[workspacePath] : undefined;
+    
+    return {
+      global: copyEntries(data.global),
+      workspacePath,
+      workspace: workspacePath ? copyEntries(workspace || emptyEntries()) : null
+    };
+  }
+  
+  // S3: Add word
+  // Adds a word to a scope unless it is already there
+  addWord(scope: DictionaryScope, documentPath: string, word: string): UserDictionary {
+    const entries = this.get(documentPath)[scope] || emptyEntries();
+    entries.words.push(word);
+    
+    return this.save(scope, documentPath, entries);
+  }
+  
+  // S4: Add ignore rule
+  // Adds an ignore rule to a scope unless the same rule is already there
+  addIgnoreRule(scope: DictionaryScope, documentPath: string, rule: IgnoreRule): UserDictionary {
+    const entries = this.get(documentPath)[scope] || emptyEntries();
+    entries.ignoreRules.push(rule);
+    
+    return this.save(scope, documentPath, entries);
+  }
+  
+  // S5: Save entries
+  // Replaces the entries of a scope, dropping blank and repeated ones
+  save(scope: DictionaryScope, documentPath: string, entries: DictionaryEntries): UserDictionary {
+    const data = this.load();
+    const cleaned = cleanEntries(entries);
+    
+    if (scope === 'global') {
+      data.global = cleaned;
+    } else {
+      if (!documentPath) {
+        throw new Error('Save the document before adding to its workspace dictionary');
+      }
+      
+      const workspacePath = path.dirname(documentPath);
+      if (cleaned.words.length > 0 || cleaned.ignoreRules.length > 0) {
+        data.workspaces[workspacePath] = cleaned;
+      } else {
+        delete data.workspaces[workspacePath];
+      }
+    }
+    
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(this.filePath, JSON.stringify(data, null, 2), 'utf8');
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      electronLog.error('Failed to save the user dictionary:', errorMessage);
+      throw error;
+    }
+    
+    return this.get(documentPath);
+  }
+  
+  // Helper method to read the dictionary file, starting empty if it is missing or unreadable
+  private load(): DictionaryFile {
+    if (this.data) {
+      return this.data;
+    }
+    
+    this.data = { version: DICTIONARY_FILE_VERSION, global: emptyEntries(), workspaces: {} };
+    
+    try {
+      if (!fs.existsSync(this.filePath)) {
+        return this.data;
+      }
+      
+      const data: DictionaryFile = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      if (data.version !== DICTIONARY_FILE_VERSION || !data.global || !data.workspaces || typeof data.workspaces !== 'object') {
+        electronLog.warn('Ignoring user dictionary with an unknown layout');
+        return this.data;
+      }
+      
+      this.data.global = cleanEntries(data.global);
+      Object.entries(data.workspaces).forEach(([workspacePath, entries]) => {
+        this.data!.workspaces[workspacePath] = cleanEntries(entries);
+      });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      electronLog.error('Failed to load the user dictionary:', errorMessage);
+    }
+    
+    return this.data;
+  }
+}
+
+// Helper to copy entries so callers can't change the stored ones
+function copyEntries(entries: DictionaryEntries): DictionaryEntries {
+  return {
+    words: [...entries.words],
+    ignoreRules: entries.ignoreRules.map(rule => ({ ...rule }))
+  };
+}
+
+// Helper to trim entries and drop blank and repeated ones
+function cleanEntries(entries: Partial<DictionaryEntries>): DictionaryEntries {
+  const words: string[] = [];
+  (Array.isArray(entries.words) ? entries.words : []).forEach(word => {
+    const trimmed = typeof word === 'string' ? word.trim() : '';
+    if (trimmed && !words.includes(trimmed)) {
+      words.push(trimmed);
+    }
+  });
+  
+  const ignoreRules: IgnoreRule[] = [];
+  (Array.isArray(entries.ignoreRules) ? entries.ignoreRules : []).forEach(rule => {
+    const pattern = rule && typeof rule.pattern === 'string' ? rule.pattern.trim() : '';
+    if (!pattern) {
+      return;
+    }
+    
+    const cleaned: IgnoreRule = { pattern, regex: !!rule.regex };
+    if (rule.category && rule.category.trim()) {
+      cleaned.category = rule.category.trim();
+    }
+    
+    const isRepeated = ignoreRules.some(other =>
+      other.pattern === cleaned.pattern && other.regex === cleaned.regex && other.category === cleaned.category);
+    if (!isRepeated) {
+      ignoreRules.push(cleaned);
+    }
+  });
+  
+  return { words, ignoreRules };
+}
+
+// Helper to list the words of both scopes
+function getWords(dictionary: UserDictionary): string[] {
+  return dictionary.global.words.concat(dictionary.workspace ? dictionary.workspace.words : []);
+}
+
+// Helper to list the ignore rules of both scopes
+function getIgnoreRules(dictionary: UserDictionary): IgnoreRule[] {
+  return dictionary.global.ignoreRules.concat(dictionary.workspace ? dictionary.workspace.ignoreRules : []);
+}
+
+// Helper to build the pattern of a whole dictionary word
+// A word in lower case matches any capitalization, one with capitals only matches as written
+function wordPattern(word: string): RegExp {
+  const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(?<!${WORD_CHAR})${escaped}(?!${WORD_CHAR})`, word === word.toLowerCase() ? 'iu' : 'u');
+}
@@ -1,9 +1,44 @@
 import React from 'react';
-import { render, screen } from '@testing-library/react';
+import { render, screen, waitFor } from '@testing-library/react';
 import App from './App';
+import { ThemeProvider } from './context/ThemeContext';
+import { SettingsProvider } from './context/SettingsContext';
+import { EditorProvider } from './context/EditorContext';
+import { DEFAULT_SETTINGS } from './interfaces/constants';
 
-test('renders learn react link', () => {
-  render(<App />);
-  const linkElement = screen.getByText(/learn react/i);
-  expect(linkElement).toBeInTheDocument();
+// Monaco needs a real browser, so the editor is left out of the app shell
+jest.mock('./components/TextEditor', () => () => null);
+
+// Replies of the preload API by method name; methods not listed resolve to undefined
+const API_REPLIES: Record<string, unknown> = {
+  settingsGet: DEFAULT_SETTINGS,
+  fileNew: { path: '', content: '' },
+  getRecentFiles: []
+};
+
+beforeEach(() => {
+  window.matchMedia = jest.fn().mockReturnValue({ matches: false }) as any;
+  window.electronAPI = new Proxy({}, {
+    get: (_target, method: string) => method === 'on'
+      ? () => () => undefined
+      : () => Promise.resolve(API_REPLIES[method])
+  }) as any;
+});
+
+test('renders the toolbar and status bar once a new document is created', async () => {
+  render(
+    <SettingsProvider>
+      <ThemeProvider>
+        <EditorProvider>
+          <App />
+        </EditorProvider>
+      </ThemeProvider>
+    </SettingsProvider>
+  );
+  
+  await waitFor(() => expect(screen.queryByText('Creating new document...')).not.toBeInTheDocument());
+  
+  expect(screen.getByTitle('Open File (Ctrl+O)')).toBeInTheDocument();
+  expect(screen.getByText('Words: 0')).toBeInTheDocument();
+  expect(screen.getByText('Untitled')).toBeInTheDocument();
 });
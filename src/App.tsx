@@ -127,7 +127,7 @@ const App: React.FC = () => {
       />
       
       <div className="editor-container">
-        <TextEditor />
+        <TextEditor filePath={currentFile?.path || undefined} />
       </div>
       
       <StatusBar 
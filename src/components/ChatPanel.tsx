@@ -0,0 +1,263 @@
+import React, { useEffect, useRef, useState } from 'react';
+import '../styles/ChatPanel.css';
+import { useTheme } from '../context/ThemeContext';
+import useLLM from '../hooks/useLLM';
+import IPCBridge from '../services/IPCBridge';
+import LLMProcessor from '../services/LLMProcessor';
+import { IpcChannels } from '../interfaces/constants';
+import { ChatContext, ChatMessage, TextSelection } from '../interfaces/types';
+
+interface ChatPanelProps {
+  open: boolean;
+  // Conversations are saved per file; an unsaved document keeps its conversation for the session only
+  filePath?: string;
+  content: string;
+  selection: TextSelection | null;
+  onInsert: (text: string) => void;
+  onReplace: (text: string) => void;
+  onToggle: () => void;
+}
+
+// Editor text the next message shares with the model
+type ContextMode = 'none' | 'selection' | 'document';
+
+// Operations whose requests the panel follows
+const CHAT_OPERATIONS = ['chat'];
+
+// Helper to save a conversation under its file; failures only cost the history
+const saveHistory = (filePath: string | undefined, messages: ChatMessage[]) => {
+  if (!filePath) return;
+  
+  IPCBridge.invoke(IpcChannels.CHAT_HISTORY_SAVE, { filePath, messages }).catch(error => {
+    console.error('Error saving chat history:', error);
+  });
+};
+
+const ChatPanel: React.FC<ChatPanelProps> = ({
+  open,
+  filePath,
+  content,
+  selection,
+  onInsert,
+  onReplace,
+  onToggle
+}) => {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [input, setInput] = useState('');
+  const [contextMode, setContextMode] = useState<ContextMode>('document');
+  const [error, setError] = useState<string | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const { theme } = useTheme();
+  // An instance of its own that only follows chat requests, so replies never stream into the editor's suggestion panel
+  // and stopping a reply leaves the editor's requests running
+  const { chat, cancelRequest, isProcessing, streamingSuggestions } = useLLM(CHAT_OPERATIONS);
+  // File shown now, which may have changed while a reply was on its way
+  const filePathRef = useRef(filePath);
+  filePathRef.current = filePath;
+  
+  // S1: Load conversation
+  // Shows the saved conversation of the open file
+  useEffect(() => {
+    let cancelled = false;
+    setMessages([]);
+    setError(null);
+    
+    if (filePath) {
+      IPCBridge.invoke<ChatMessage[]>(IpcChannels.CHAT_HISTORY_GET, filePath)
+        .then(saved => {
+          if (!cancelled) setMessages(saved);
+        })
+        .catch(loadError => console.error('Error loading chat history:', loadError));
+    }
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [filePath]);
+  
+  // Keep the latest message in view
+  useEffect(() => {
+    if (listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight;
+    }
+  }, [messages, streamingSuggestions, open]);
+  
+  // Helper to pick the editor text to share with the next message
+  const getContext = (): ChatContext | undefined => {
+    if (contextMode === 'selection' && selection && selection.text) {
+      return { kind: 'selection', text: selection.text };
+    }
+    if (contextMode === 'document' && content.trim()) {
+      return { kind: 'document', text: content };
+    }
+    return undefined;
+  };
+  
+  // S2: Send message
+  // Adds the message to the conversation and asks for a reply
+  const handleSend = async () => {
+    const text = input.trim();
+    if (!text || isProcessing) return;
+    
+    const conversation: ChatMessage[] = [
+      ...messages,
+      { role: 'user', content: text, createdAt: new Date().toISOString() }
+    ];
+    setMessages(conversation);
+    setInput('');
+    setError(null);
+    
+    try {
+      const response = await chat(conversation, getContext());
+      
+      // After a switch to another file the reply only goes into the history of the file it was asked in
+      if (filePathRef.current !== filePath) {
+        if (!response.error && response.suggestions.length > 0) {
+          saveHistory(filePath, [
+            ...conversation,
+            { role: 'assistant', content: response.suggestions[0].text, createdAt: new Date().toISOString() }
+          ]);
+        } else {
+          saveHistory(filePath, conversation);
+        }
+        return;
+      }
+      
+      if (LLMProcessor.isCancelled(response.error)) {
+        saveHistory(filePath, conversation);
+        return;
+      }
+      
+      if (response.error || response.suggestions.length === 0) {
+        setError(response.error || 'No reply received');
+        saveHistory(filePath, conversation);
+        return;
+      }
+      
+      const updated: ChatMessage[] = [
+        ...conversation,
+        { role: 'assistant', content: response.suggestions[0].text, createdAt: new Date().toISOString() }
+      ];
+      setMessages(updated);
+      saveHistory(filePath, updated);
+    } catch (sendError) {
+      const errorMessage = sendError instanceof Error ? sendError.message : 'Unknown error';
+      if (filePathRef.current === filePath && !LLMProcessor.isCancelled(errorMessage)) {
+        setError(errorMessage);
+      }
+    }
+  };
+  
+  // S3: Handle input keys
+  // Enter sends the message, Shift+Enter starts a new line
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSend();
+    }
+  };
+  
+  // S4: Clear conversation
+  // Forgets the conversation of this file after confirmation
+  const handleClear = async () => {
+    if (!window.confirm('Clear this conversation?')) return;
+    
+    setMessages([]);
+    setError(null);
+    
+    if (filePath) {
+      try {
+        await IPCBridge.invoke(IpcChannels.CHAT_HISTORY_CLEAR, filePath);
+      } catch (clearError) {
+        console.error('Error clearing chat history:', clearError);
+      }
+    }
+  };
+  
+  if (!open) {
+    return (
+      <button className={`chat-panel-tab ${theme}`} onClick={onToggle} title="Open AI chat">
+        AI Chat
+      </button>
+    );
+  }
+  
+  return (
+    <div className={`chat-panel ${theme}`}>
+      <div className="chat-header">
+        <h3>AI Chat</h3>
+        <div className="chat-header-actions">
+          <button onClick={handleClear} disabled={messages.length === 0 || isProcessing}>Clear</button>
+          <button className="close-button" onClick={onToggle} title="Collapse">»</button>
+        </div>
+      </div>
+      
+      <div className="chat-messages" ref={listRef}>
+        {messages.length === 0 && !isProcessing && (
+          <p className="chat-hint">
+            Ask about what you're writing, for example "What did I decide about the budget?" or "Draft a reply to this".
+            {!filePath && ' Save the file to keep the conversation.'}
+          </p>
+        )}
+        
+        {messages.map((message, index) => (
+          <div key={`${message.createdAt}-${index}`} className={`chat-message ${message.role}`}>
+            <div className="chat-message-text">{message.content}</div>
+            {message.role === 'assistant' && (
+              <div className="chat-message-actions">
+                <button onClick={() => onInsert(message.content)}>Insert at Cursor</button>
+                <button onClick={() => onReplace(message.content)} disabled={!selection || !selection.text}>
+                  Replace Selection
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+        
+        {isProcessing && (
+          <div className="chat-message assistant pending">
+            <div className="chat-message-text">{streamingSuggestions[0] || 'Thinking...'}</div>
+          </div>
+        )}
+        
+        {error && <div className="chat-error">{error}</div>}
+      </div>
+      
+      <div className="chat-input">
+        <div className="chat-context">
+          <label htmlFor="chatContext">Include:</label>
+          <select
+            id="chatContext"
+            value={contextMode}
+            onChange={(e) => setContextMode(e.target.value as ContextMode)}
+          >
+            <option value="document">Document</option>
+            <option value="selection">Selection</option>
+            <option value="none">Nothing</option>
+          </select>
+          {contextMode === 'selection' && (!selection || !selection.text) && (
+            <span className="chat-context-note">nothing selected</span>
+          )}
+        </div>
+        
+        <textarea
+          rows={3}
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Ask about your document..."
+        />
+        
+        <div className="chat-input-actions">
+          {isProcessing ? (
+            <button className="chat-stop-button" onClick={cancelRequest}>Stop</button>
+          ) : (
+            <button onClick={handleSend} disabled={!input.trim()}>Send</button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChatPanel;
@@ -0,0 +1,249 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import '../styles/DictionaryEditor.css';
+import IPCBridge from '../services/IPCBridge';
+import { IpcChannels, GRAMMAR_CATEGORIES } from '../interfaces/constants';
+import { DictionaryEntries, DictionaryScope, IgnoreRule, UserDictionary } from '../interfaces/types';
+
+interface DictionaryEditorProps {
+  scope: DictionaryScope;
+  onScopeChange: (scope: DictionaryScope) => void;
+}
+
+// Helper to check that a regular expression compiles
+const isValidPattern = (pattern: string): boolean => {
+  try {
+    new RegExp(pattern, 'iu');
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+const DictionaryEditor: React.FC<DictionaryEditorProps> = ({ scope, onScopeChange }) => {
+  const [dictionary, setDictionary] = useState<UserDictionary | null>(null);
+  const [words, setWords] = useState<Record<DictionaryScope, string>>({ global: '', workspace: '' });
+  const [rule, setRule] = useState<IgnoreRule & { scope: DictionaryScope }>({
+    pattern: '',
+    regex: false,
+    category: '',
+    scope: 'global'
+  });
+  const [error, setError] = useState<string | null>(null);
+  
+  // S1: Load dictionary
+  // Fetches the global entries and those of the open document's folder
+  const loadDictionary = useCallback(async () => {
+    try {
+      setDictionary(await IPCBridge.invoke<UserDictionary>(IpcChannels.DICTIONARY_GET));
+      setError(null);
+    } catch (loadError) {
+      console.error('Error loading the user dictionary:', loadError);
+      setError('The dictionary could not be loaded');
+    }
+  }, []);
+  
+  useEffect(() => {
+    loadDictionary();
+    
+    // Words added from the suggestion panel show up while the dialog is open
+    return IPCBridge.on(IpcChannels.DICTIONARY_CHANGED, (changed: UserDictionary) => setDictionary(changed));
+  }, [loadDictionary]);
+  
+  // S2: Save entries
+  // Replaces the entries of a scope right away, so every open check picks them up
+  const saveEntries = async (entryScope: DictionaryScope, entries: DictionaryEntries) => {
+    try {
+      setDictionary(await IPCBridge.invoke<UserDictionary>(IpcChannels.DICTIONARY_SAVE, { scope: entryScope, entries }));
+      setError(null);
+    } catch (saveError) {
+      console.error('Error saving the user dictionary:', saveError);
+      setError('The dictionary could not be saved');
+    }
+  };
+  
+  // S3: Add words
+  // Adds the words typed for a scope, separated by commas or spaces
+  const handleAddWords = async (entryScope: DictionaryScope) => {
+    const entries = dictionary && dictionary[entryScope];
+    const added = words[entryScope].split(/[\s,]+/).filter(word => word);
+    if (!entries || added.length === 0) return;
+    
+    await saveEntries(entryScope, { ...entries, words: entries.words.concat(added) });
+    setWords({ ...words, [entryScope]: '' });
+  };
+  
+  // S4: Remove word
+  // Deletes a word from a scope
+  const handleRemoveWord = (entryScope: DictionaryScope, word: string) => {
+    const entries = dictionary && dictionary[entryScope];
+    if (!entries) return;
+    
+    saveEntries(entryScope, { ...entries, words: entries.words.filter(other => other !== word) });
+  };
+  
+  // S5: Add ignore rule
+  // Adds the rule being written to its scope
+  const handleAddRule = async () => {
+    const entries = dictionary && dictionary[rule.scope];
+    if (!entries || !rule.pattern.trim() || (rule.regex && !isValidPattern(rule.pattern))) return;
+    
+    const added: IgnoreRule = { pattern: rule.pattern, regex: rule.regex };
+    if (rule.category) {
+      added.category = rule.category;
+    }
+    
+    await saveEntries(rule.scope, { ...entries, ignoreRules: entries.ignoreRules.concat(added) });
+    setRule({ ...rule, pattern: '' });
+  };
+  
+  // S6: Remove ignore rule
+  // Deletes an ignore rule from a scope after confirmation
+  const handleRemoveRule = (entryScope: DictionaryScope, index: number) => {
+    const entries = dictionary && dictionary[entryScope];
+    if (!entries || !window.confirm('Remove this ignore rule?')) return;
+    
+    saveEntries(entryScope, { ...entries, ignoreRules: entries.ignoreRules.filter((_, i) => i !== index) });
+  };
+  
+  // Helper to render the words and ignore rules of one scope
+  const renderEntries = (entryScope: DictionaryScope, title: string) => {
+    const entries = dictionary ? dictionary[entryScope] : null;
+    
+    return (
+      <div className="dictionary-scope">
+        <h4>{title}</h4>
+        
+        {!entries ? (
+          <p className="dictionary-hint">Save the document to keep words for its folder.</p>
+        ) : (
+          <div>
+            {entries.words.length > 0 ? (
+              <div className="dictionary-words">
+                {entries.words.map(word => (
+                  <span key={word} className="dictionary-word">
+                    {word}
+                    <button
+                      className="dictionary-word-remove"
+                      title={`Remove "${word}"`}
+                      onClick={() => handleRemoveWord(entryScope, word)}
+                    >
+                      ×
+                    </button>
+                  </span>
+                ))}
+              </div>
+            ) : (
+              <p className="dictionary-hint">No words yet.</p>
+            )}
+            
+            <div className="dictionary-add">
+              <input
+                type="text"
+                aria-label={`Words to add to ${title}`}
+                value={words[entryScope]}
+                onChange={(e) => setWords({ ...words, [entryScope]: e.target.value })}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleAddWords(entryScope);
+                }}
+                placeholder="Acme, Kubernetes, kubectl"
+              />
+              <button onClick={() => handleAddWords(entryScope)}>Add Words</button>
+            </div>
+            
+            {entries.ignoreRules.map((ignoreRule, index) => (
+              <div key={index} className="dictionary-rule">
+                <code>{ignoreRule.pattern}</code>
+                <span className="dictionary-rule-details">
+                  {ignoreRule.regex ? 'regex' : 'exact text'}, {ignoreRule.category || 'any category'}
+                </span>
+                {ignoreRule.regex && !isValidPattern(ignoreRule.pattern) && (
+                  <span className="dictionary-error">Invalid, matches nothing</span>
+                )}
+                <button className="dictionary-rule-remove" onClick={() => handleRemoveRule(entryScope, index)}>
+                  Remove
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+  
+  const isRuleInvalid = rule.regex && !!rule.pattern && !isValidPattern(rule.pattern);
+  
+  return (
+    <div className="dictionary-editor">
+      <p className="dictionary-hint">
+        Spelling and grammar checks, online and offline, leave these words alone and hide suggestions matching an ignore rule.
+        Words in lower case match any capitalization, words with capitals only match as written.
+      </p>
+      
+      {error && <div className="dictionary-error">{error}</div>}
+      
+      <div className="setting-item">
+        <label htmlFor="dictionaryScope">Add from Suggestions To:</label>
+        <select
+          id="dictionaryScope"
+          value={scope}
+          onChange={(e) => onScopeChange(e.target.value as DictionaryScope)}
+        >
+          <option value="global">All documents</option>
+          <option value="workspace">This folder</option>
+        </select>
+      </div>
+      
+      {renderEntries('global', 'All Documents')}
+      {renderEntries('workspace', dictionary && dictionary.workspacePath
+        ? `This Folder (${dictionary.workspacePath})`
+        : 'This Folder')}
+      
+      <div className="dictionary-rule-form">
+        <h4>New Ignore Rule</h4>
+        <div className="dictionary-add">
+          <input
+            type="text"
+            aria-label="Ignore rule pattern"
+            className={isRuleInvalid ? 'invalid' : ''}
+            value={rule.pattern}
+            onChange={(e) => setRule({ ...rule, pattern: e.target.value })}
+            placeholder={rule.regex ? '^v\\d+(\\.\\d+)*$' : 'e-mail'}
+          />
+          <label className="dictionary-rule-regex">
+            <input
+              type="checkbox"
+              checked={rule.regex}
+              onChange={(e) => setRule({ ...rule, regex: e.target.checked })}
+            />
+            Regex
+          </label>
+        </div>
+        {isRuleInvalid && <span className="dictionary-error">This pattern is invalid</span>}
+        
+        <div className="dictionary-add">
+          <select
+            aria-label="Ignore rule category"
+            value={rule.category}
+            onChange={(e) => setRule({ ...rule, category: e.target.value })}
+          >
+            <option value="">Any category</option>
+            {GRAMMAR_CATEGORIES.map(category => (
+              <option key={category} value={category}>{category}</option>
+            ))}
+          </select>
+          <select
+            aria-label="Ignore rule scope"
+            value={rule.scope}
+            onChange={(e) => setRule({ ...rule, scope: e.target.value as DictionaryScope })}
+          >
+            <option value="global">All documents</option>
+            <option value="workspace" disabled={!dictionary || !dictionary.workspace}>This folder</option>
+          </select>
+          <button onClick={handleAddRule} disabled={!rule.pattern.trim() || isRuleInvalid}>Add Rule</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DictionaryEditor;
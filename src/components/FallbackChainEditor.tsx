@@ -0,0 +1,95 @@
+import React from 'react';
+import '../styles/FallbackChainEditor.css';
+import { LLM_PROVIDER_LABELS } from '../interfaces/constants';
+
+interface FallbackChainEditorProps {
+  // Configured provider, which is always tried first
+  primary: string;
+  chain: string[];
+  cloudConsent: Record<string, boolean>;
+  onChange: (chain: string[], cloudConsent: Record<string, boolean>) => void;
+}
+
+// Providers that run on this machine; every other provider sends the text to the cloud
+const LOCAL_PROVIDERS = ['local'];
+
+const FallbackChainEditor: React.FC<FallbackChainEditorProps> = ({ primary, chain, cloudConsent, onChange }) => {
+  const fallbacks = chain.filter(id => id !== primary);
+  // Providers in the chain first, in order, then the unused ones
+  const providers = [
+    ...fallbacks,
+    ...Object.keys(LLM_PROVIDER_LABELS).filter(id => id !== primary && !fallbacks.includes(id))
+  ];
+  
+  // S1: Toggle fallback
+  // Adds a provider to the end of the chain or takes it out
+  const handleToggle = (id: string, enabled: boolean) => {
+    onChange(enabled ? [...fallbacks, id] : fallbacks.filter(other => other !== id), cloudConsent);
+  };
+  
+  // S2: Move fallback
+  // Swaps a provider with its neighbour in the chain
+  const handleMove = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= fallbacks.length) return;
+    
+    const reordered = [...fallbacks];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered, cloudConsent);
+  };
+  
+  // S3: Toggle cloud consent
+  // Allows or forbids sending text to a cloud provider when it is used as a fallback
+  const handleConsent = (id: string, allowed: boolean) => {
+    onChange(fallbacks, { ...cloudConsent, [id]: allowed });
+  };
+  
+  return (
+    <div className="fallback-chain-editor">
+      <p className="fallback-chain-hint">
+        When {LLM_PROVIDER_LABELS[primary] || primary} fails, these providers are tried in order.
+        Cloud providers are skipped unless you allow your text to be sent to them.
+      </p>
+      
+      {providers.map(id => {
+        const index = fallbacks.indexOf(id);
+        const enabled = index >= 0;
+        const isCloud = !LOCAL_PROVIDERS.includes(id);
+        
+        return (
+          <div key={id} className={`fallback-chain-item ${enabled ? '' : 'disabled'}`}>
+            <label className="fallback-chain-name">
+              <input
+                type="checkbox"
+                checked={enabled}
+                onChange={(e) => handleToggle(id, e.target.checked)}
+              />
+              {enabled && <span className="fallback-chain-order">{index + 1}.</span>}
+              {LLM_PROVIDER_LABELS[id] || id}
+            </label>
+            
+            {isCloud && (
+              <label className={`fallback-chain-consent ${enabled && !cloudConsent[id] ? 'missing' : ''}`}>
+                <input
+                  type="checkbox"
+                  checked={!!cloudConsent[id]}
+                  onChange={(e) => handleConsent(id, e.target.checked)}
+                />
+                Allow sending text to the cloud
+              </label>
+            )}
+            
+            {enabled && (
+              <div className="fallback-chain-move">
+                <button onClick={() => handleMove(index, -1)} disabled={index === 0} title="Try earlier">↑</button>
+                <button onClick={() => handleMove(index, 1)} disabled={index === fallbacks.length - 1} title="Try later">↓</button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default FallbackChainEditor;
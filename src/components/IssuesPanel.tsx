@@ -0,0 +1,86 @@
+import React from 'react';
+import '../styles/IssuesPanel.css';
+import { useTheme } from '../context/ThemeContext';
+import { GrammarIssue } from '../interfaces/types';
+
+interface IssuesPanelProps {
+  issues: Array<GrammarIssue & { line: number; column: number }>;
+  activeIndex: number;
+  onSelect: (index: number) => void;
+  onAccept: (index: number) => void;
+  onDismiss: (index: number) => void;
+  onApplyAll: () => void;
+  onClose: () => void;
+}
+
+const IssuesPanel: React.FC<IssuesPanelProps> = ({
+  issues,
+  activeIndex,
+  onSelect,
+  onAccept,
+  onDismiss,
+  onApplyAll,
+  onClose
+}) => {
+  const { theme } = useTheme();
+  
+  // S1: Navigate issues
+  // Moves to the previous or next issue, wrapping around at the ends
+  const handleNavigate = (step: number) => {
+    if (issues.length === 0) return;
+    
+    const current = activeIndex < 0 ? (step > 0 ? -1 : 0) : activeIndex;
+    onSelect((current + step + issues.length) % issues.length);
+  };
+  
+  // S2: Accept or dismiss an issue
+  // Forwards per-issue actions without jumping to the issue
+  const handleIssueAction = (e: React.MouseEvent, index: number, accept: boolean) => {
+    e.stopPropagation();
+    
+    if (accept) {
+      onAccept(index);
+    } else {
+      onDismiss(index);
+    }
+  };
+  
+  return (
+    <div className={`issues-panel ${theme}`}>
+      <div className="issues-header">
+        <h3>Document Issues ({issues.length})</h3>
+        <div className="issues-header-actions">
+          <button onClick={() => handleNavigate(-1)} disabled={issues.length === 0} title="Previous issue">↑</button>
+          <button onClick={() => handleNavigate(1)} disabled={issues.length === 0} title="Next issue">↓</button>
+          <button className="apply-all-button" onClick={onApplyAll} disabled={issues.length === 0}>Apply All</button>
+          <button className="close-button" onClick={onClose}>✕</button>
+        </div>
+      </div>
+      
+      <div className="issues-list">
+        {issues.map((issue, index) => (
+          <div
+            key={`${issue.offset}-${index}`}
+            className={`issues-item ${activeIndex === index ? 'active' : ''}`}
+            onClick={() => onSelect(index)}
+          >
+            <span className="issues-location">Ln {issue.line}, Col {issue.column}</span>
+            <span className="issues-category">{issue.category}</span>
+            <span className="issues-change">
+              <span className="issue-original">{issue.original}</span>
+              <span className="issue-arrow">→</span>
+              <span className="issue-replacement">{issue.replacement || '(remove)'}</span>
+            </span>
+            <span className="issues-explanation">{issue.explanation}</span>
+            <span className="issues-actions">
+              <button className="issue-accept" onClick={(e) => handleIssueAction(e, index, true)}>Accept</button>
+              <button className="issue-dismiss" onClick={(e) => handleIssueAction(e, index, false)}>Dismiss</button>
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default IssuesPanel;
@@ -0,0 +1,180 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import '../styles/ModelSettingsEditor.css';
+import IPCBridge from '../services/IPCBridge';
+import { IpcChannels, LLM_OPERATIONS, LLM_PROVIDER_LABELS } from '../interfaces/constants';
+import { OperationSettings } from '../interfaces/types';
+
+interface ModelSettingsEditorProps {
+  provider: string;
+  // Server URL typed in the dialog, so local models can be listed before it is saved
+  baseUrl?: string;
+  settings: Record<string, OperationSettings>;
+  onChange: (settings: Record<string, OperationSettings>) => void;
+}
+
+// Row that applies to every operation without settings of its own
+const ALL_OPERATIONS = 'default';
+
+// Sampling used when neither an operation nor the default row sets it
+const DEFAULT_TEMPERATURE = 0.3;
+const DEFAULT_MAX_TOKENS = 1000;
+
+const OPERATION_LABELS: Record<string, string> = {
+  [ALL_OPERATIONS]: 'All operations',
+  'grammar-check': 'Grammar check',
+  rephrase: 'Rephrase',
+  translate: 'Translate',
+  summarize: 'Summarize',
+  expand: 'Expand',
+  outline: 'Outline',
+  complete: 'Autocomplete',
+  chat: 'Chat',
+  explain: 'Explain'
+};
+
+// Helper to read the message of an IPC error without Electron's "Error invoking remote method" prefix
+const getErrorMessage = (error: unknown): string => {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  return message.replace(/^Error invoking remote method '[^']+': (?:\w*Error: )?/, '');
+};
+
+const ModelSettingsEditor: React.FC<ModelSettingsEditorProps> = ({ provider, baseUrl, settings, onChange }) => {
+  const [models, setModels] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Latest server URL, read when the models are listed rather than on every keystroke
+  const baseUrlRef = useRef(baseUrl);
+  baseUrlRef.current = baseUrl;
+  // Only the latest listing is shown when the provider changes while one is loading
+  const requestRef = useRef(0);
+  
+  const label = LLM_PROVIDER_LABELS[provider] || provider;
+  const shared = settings[ALL_OPERATIONS] || {};
+  
+  // S1: Load models
+  // Asks the provider which models it offers
+  const loadModels = useCallback(async () => {
+    const request = ++requestRef.current;
+    setLoading(true);
+    setError(null);
+    
+    try {
+      const list = await IPCBridge.invoke<string[]>(IpcChannels.AI_LIST_MODELS, { provider, baseUrl: baseUrlRef.current });
+      if (request !== requestRef.current) return;
+      setModels(list);
+    } catch (loadError) {
+      if (request !== requestRef.current) return;
+      console.error('Error listing models:', loadError);
+      setModels([]);
+      setError(getErrorMessage(loadError));
+    } finally {
+      if (request === requestRef.current) setLoading(false);
+    }
+  }, [provider]);
+  
+  useEffect(() => {
+    loadModels();
+  }, [loadModels]);
+  
+  // S2: Change model
+  // Sets the model of an operation for the current provider, a blank one inherits it
+  const handleModelChange = (operation: string, model: string) => {
+    const current = settings[operation] || {};
+    const currentModels = { ...(current.models || {}) };
+    
+    if (model.trim()) {
+      currentModels[provider] = model;
+    } else {
+      delete currentModels[provider];
+    }
+    
+    onChange({ ...settings, [operation]: { ...current, models: currentModels } });
+  };
+  
+  // S3: Change sampling
+  // Sets the temperature or max tokens of an operation, a blank value inherits it
+  const handleNumberChange = (operation: string, field: 'temperature' | 'maxTokens', value: string) => {
+    const updated: OperationSettings = { ...(settings[operation] || {}) };
+    const number = field === 'maxTokens' ? parseInt(value) : parseFloat(value);
+    
+    if (isNaN(number)) {
+      delete updated[field];
+    } else {
+      updated[field] = number;
+    }
+    
+    onChange({ ...settings, [operation]: updated });
+  };
+  
+  return (
+    <div className="model-settings-editor">
+      <div className="model-settings-toolbar">
+        <span className={`model-settings-status ${error ? 'error' : ''}`}>
+          {loading && `Listing ${label} models...`}
+          {!loading && error && `Could not list ${label} models: ${error}. You can still type a model name.`}
+          {!loading && !error && `${models.length} ${models.length === 1 ? 'model' : 'models'} available from ${label}`}
+        </span>
+        <button onClick={loadModels} disabled={loading}>Refresh</button>
+      </div>
+      
+      <datalist id="model-settings-models">
+        {models.map(model => <option key={model} value={model} />)}
+      </datalist>
+      
+      <table className="model-settings-table">
+        <thead>
+          <tr>
+            <th>Operation</th>
+            <th>Model</th>
+            <th>Temperature</th>
+            <th>Max Tokens</th>
+          </tr>
+        </thead>
+        <tbody>
+          {[ALL_OPERATIONS, ...LLM_OPERATIONS].map(operation => {
+            const current = settings[operation] || {};
+            const isShared = operation === ALL_OPERATIONS;
+            
+            return (
+              <tr key={operation} className={isShared ? 'model-settings-shared' : ''}>
+                <td>{OPERATION_LABELS[operation] || operation}</td>
+                <td>
+                  <input
+                    type="text"
+                    list="model-settings-models"
+                    value={current.models?.[provider] || ''}
+                    onChange={(e) => handleModelChange(operation, e.target.value)}
+                    placeholder={isShared || !shared.models?.[provider] ? 'Provider default' : shared.models[provider]}
+                  />
+                </td>
+                <td>
+                  <input
+                    type="number"
+                    min="0"
+                    max="2"
+                    step="0.1"
+                    value={current.temperature ?? ''}
+                    onChange={(e) => handleNumberChange(operation, 'temperature', e.target.value)}
+                    placeholder={String(isShared ? DEFAULT_TEMPERATURE : shared.temperature ?? DEFAULT_TEMPERATURE)}
+                  />
+                </td>
+                <td>
+                  <input
+                    type="number"
+                    min="1"
+                    step="100"
+                    value={current.maxTokens ?? ''}
+                    onChange={(e) => handleNumberChange(operation, 'maxTokens', e.target.value)}
+                    placeholder={String(isShared ? DEFAULT_MAX_TOKENS : shared.maxTokens ?? DEFAULT_MAX_TOKENS)}
+                  />
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default ModelSettingsEditor;
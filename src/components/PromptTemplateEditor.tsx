@@ -0,0 +1,201 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import '../styles/PromptTemplateEditor.css';
+import IPCBridge from '../services/IPCBridge';
+import { IpcChannels, REPHRASE_STYLES } from '../interfaces/constants';
+import { PromptTemplate } from '../interfaces/types';
+
+interface PromptTemplateEditorProps {
+  language: string;
+}
+
+// Text the preview fills into {text} until the user types their own
+const SAMPLE_TEXT = 'Their going to the libary tomorow, weather or not it rains.';
+
+// Delay between the last edit and the preview refresh
+const PREVIEW_DELAY = 300;
+
+// Helper to read the message of an IPC error without Electron's "Error invoking remote method" prefix
+const getErrorMessage = (error: unknown): string => {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  return message.replace(/^Error invoking remote method '[^']+': (?:Error: )?/, '');
+};
+
+const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({ language }) => {
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [selectedId, setSelectedId] = useState<string>('');
+  const [draft, setDraft] = useState({ system: '', user: '' });
+  const [sampleText, setSampleText] = useState(SAMPLE_TEXT);
+  const [sampleStyle, setSampleStyle] = useState(REPHRASE_STYLES[0]);
+  const [preview, setPreview] = useState({ system: '', user: '' });
+  const [message, setMessage] = useState<string | null>(null);
+  
+  const selected = templates.find(template => template.id === selectedId);
+  const isDirty = !!selected && (draft.system !== selected.system || draft.user !== selected.user);
+  
+  // S1: Load templates
+  // Fetches the templates and opens the first one
+  const loadTemplates = useCallback(async () => {
+    try {
+      const list = await IPCBridge.invoke<PromptTemplate[]>(IpcChannels.PROMPTS_LIST);
+      setTemplates(list);
+      
+      if (list.length > 0) {
+        setSelectedId(list[0].id);
+        setDraft({ system: list[0].system, user: list[0].user });
+      }
+    } catch (error) {
+      console.error('Error loading prompt templates:', error);
+      setMessage('Failed to load prompt templates');
+    }
+  }, []);
+  
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+  
+  // S2: Refresh preview
+  // Renders the draft against the sample values shortly after the last edit
+  useEffect(() => {
+    const timeout = setTimeout(async () => {
+      try {
+        setPreview(await IPCBridge.invoke<{ system: string; user: string }>(
+          IpcChannels.PROMPTS_PREVIEW,
+          { ...draft, text: sampleText, language, style: sampleStyle }
+        ));
+      } catch (error) {
+        console.error('Error previewing prompt template:', error);
+      }
+    }, PREVIEW_DELAY);
+    
+    return () => clearTimeout(timeout);
+  }, [draft, sampleText, sampleStyle, language]);
+  
+  // S3: Select template
+  // Opens another template, asking before unsaved edits are dropped
+  const handleSelect = (id: string) => {
+    if (isDirty && !window.confirm('Discard unsaved changes to this template?')) return;
+    
+    const template = templates.find(item => item.id === id);
+    if (template) {
+      setSelectedId(id);
+      setDraft({ system: template.system, user: template.user });
+      setMessage(null);
+    }
+  };
+  
+  // Helper to replace a template in the list after the main process stored it
+  const applySaved = (saved: PromptTemplate) => {
+    setTemplates(prev => prev.map(template => template.id === saved.id ? saved : template));
+    setDraft({ system: saved.system, user: saved.user });
+    setMessage(`Saved as version ${saved.version}`);
+  };
+  
+  // S4: Save template
+  // Stores the draft as a new version of the template
+  const handleSave = async () => {
+    try {
+      applySaved(await IPCBridge.invoke<PromptTemplate>(
+        IpcChannels.PROMPTS_SAVE,
+        { id: selectedId, ...draft }
+      ));
+    } catch (error) {
+      setMessage(getErrorMessage(error));
+    }
+  };
+  
+  // S5: Reset template
+  // Restores the built-in wording after confirmation
+  const handleReset = async () => {
+    if (!window.confirm('Restore the built-in wording of this template?')) return;
+    
+    try {
+      applySaved(await IPCBridge.invoke<PromptTemplate>(IpcChannels.PROMPTS_RESET, selectedId));
+    } catch (error) {
+      setMessage(getErrorMessage(error));
+    }
+  };
+  
+  if (!selected) {
+    return <div className="setting-item">{message || 'Loading prompt templates...'}</div>;
+  }
+  
+  return (
+    <div className="prompt-template-editor">
+      <div className="setting-item">
+        <label htmlFor="promptTemplate">Template:</label>
+        <select
+          id="promptTemplate"
+          value={selectedId}
+          onChange={(e) => handleSelect(e.target.value)}
+        >
+          {templates.map(template => (
+            <option key={template.id} value={template.id}>
+              {template.name} (v{template.version}{template.isDefault ? ', built-in' : ''})
+            </option>
+          ))}
+        </select>
+      </div>
+      
+      <p className="prompt-template-hint">
+        Placeholders: <code>{'{text}'}</code>, <code>{'{language}'}</code>, <code>{'{style}'}</code>, <code>{'{source}'}</code>,{' '}
+        <code>{'{format}'}</code>, <code>{'{length}'}</code>, <code>{'{context}'}</code>, <code>{'{replacement}'}</code>
+      </p>
+      
+      <label className="prompt-template-label" htmlFor="promptSystem">System prompt</label>
+      <textarea
+        id="promptSystem"
+        rows={7}
+        value={draft.system}
+        onChange={(e) => setDraft(prev => ({ ...prev, system: e.target.value }))}
+      />
+      
+      <label className="prompt-template-label" htmlFor="promptUser">User prompt</label>
+      <textarea
+        id="promptUser"
+        rows={3}
+        value={draft.user}
+        onChange={(e) => setDraft(prev => ({ ...prev, user: e.target.value }))}
+      />
+      
+      <div className="prompt-template-actions">
+        <button onClick={handleSave} disabled={!isDirty}>Save Template</button>
+        <button onClick={() => setDraft({ system: selected.system, user: selected.user })} disabled={!isDirty}>
+          Revert
+        </button>
+        <button onClick={handleReset} disabled={selected.isDefault}>Restore Built-in</button>
+        {message && <span className="prompt-template-message">{message}</span>}
+      </div>
+      
+      <div className="prompt-template-preview">
+        <div className="setting-item">
+          <label htmlFor="promptSample">Sample Text:</label>
+          <input
+            id="promptSample"
+            type="text"
+            value={sampleText}
+            onChange={(e) => setSampleText(e.target.value)}
+          />
+        </div>
+        
+        <div className="setting-item">
+          <label htmlFor="promptSampleStyle">Sample Style:</label>
+          <select
+            id="promptSampleStyle"
+            value={sampleStyle}
+            onChange={(e) => setSampleStyle(e.target.value)}
+          >
+            {REPHRASE_STYLES.map(style => (
+              <option key={style} value={style}>{style}</option>
+            ))}
+          </select>
+        </div>
+        
+        <pre className="prompt-template-output">
+          <strong>System:</strong>{'\n'}{preview.system}{'\n\n'}<strong>User:</strong>{'\n'}{preview.user}
+        </pre>
+      </div>
+    </div>
+  );
+};
+
+export default PromptTemplateEditor;
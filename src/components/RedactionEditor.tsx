@@ -0,0 +1,222 @@
+import React, { useEffect, useState } from 'react';
+import '../styles/RedactionEditor.css';
+import IPCBridge from '../services/IPCBridge';
+import { IpcChannels, LLM_OPERATIONS, REDACTION_DETECTORS } from '../interfaces/constants';
+import { RedactionPreview, RedactionRule, RedactionSettings } from '../interfaces/types';
+
+interface RedactionEditorProps {
+  settings: RedactionSettings;
+  onChange: (settings: RedactionSettings) => void;
+}
+
+// Text the preview redacts until the user types their own
+const SAMPLE_TEXT = 'Call Jane Doe on +1 (555) 123-4567 or write to jane.doe@example.com about the Acme renewal.';
+
+// Delay between the last edit and the preview refresh
+const PREVIEW_DELAY = 300;
+
+// Helper to tell whether a rule's pattern compiles
+const isValidPattern = (pattern?: string): boolean => {
+  try {
+    new RegExp(pattern || '');
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+const RedactionEditor: React.FC<RedactionEditorProps> = ({ settings, onChange }) => {
+  const [sampleText, setSampleText] = useState(SAMPLE_TEXT);
+  const [sampleOperation, setSampleOperation] = useState('rephrase');
+  const [preview, setPreview] = useState<RedactionPreview | null>(null);
+  
+  const disabled = settings.disabledDetectors || [];
+  const rules = settings.rules || [];
+  
+  // S1: Refresh preview
+  // Renders what a cloud provider would receive for the sample shortly after the last edit
+  useEffect(() => {
+    const timeout = setTimeout(async () => {
+      try {
+        setPreview(await IPCBridge.invoke<RedactionPreview>(
+          IpcChannels.AI_REDACTION_PREVIEW,
+          { text: sampleText, operation: sampleOperation, settings }
+        ));
+      } catch (error) {
+        console.error('Error previewing redaction:', error);
+      }
+    }, PREVIEW_DELAY);
+    
+    return () => clearTimeout(timeout);
+  }, [settings, sampleText, sampleOperation]);
+  
+  // S2: Toggle detector
+  // Turns a built-in detector on or off
+  const handleDetectorToggle = (id: string, enabled: boolean) => {
+    onChange({
+      ...settings,
+      disabledDetectors: enabled ? disabled.filter(other => other !== id) : [...disabled, id]
+    });
+  };
+  
+  // S3: Add rule
+  // Appends an empty term list or pattern
+  const handleAdd = (type: 'terms' | 'pattern') => {
+    const rule: RedactionRule = type === 'terms'
+      ? { kind: 'NAME', terms: [], enabled: true }
+      : { kind: 'ID', pattern: '', enabled: true };
+    onChange({ ...settings, rules: [...rules, rule] });
+  };
+  
+  // S4: Update rule
+  // Changes one field of a rule
+  const handleUpdate = (index: number, changes: Partial<RedactionRule>) => {
+    onChange({ ...settings, rules: rules.map((rule, i) => i === index ? { ...rule, ...changes } : rule) });
+  };
+  
+  // S5: Remove rule
+  // Deletes a rule after confirmation
+  const handleRemove = (index: number) => {
+    if (!window.confirm(`Remove the ${rules[index].kind} rule?`)) return;
+    
+    onChange({ ...settings, rules: rules.filter((_, i) => i !== index) });
+  };
+  
+  return (
+    <div className="redaction-editor">
+      <div className="setting-item">
+        <label htmlFor="redactionEnabled">Redact Personal Data:</label>
+        <input
+          id="redactionEnabled"
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+        />
+      </div>
+      
+      <p className="redaction-hint">
+        Before text is sent to a cloud provider, matches are replaced with placeholders such as [EMAIL_1].
+        The placeholders are put back in the suggestions. Text sent to a local server is never changed.
+      </p>
+      
+      <div className="redaction-detectors">
+        {Object.keys(REDACTION_DETECTORS).map(id => (
+          <label key={id} className="redaction-detector">
+            <input
+              type="checkbox"
+              checked={!disabled.includes(id)}
+              disabled={!settings.enabled}
+              onChange={(e) => handleDetectorToggle(id, e.target.checked)}
+            />
+            {REDACTION_DETECTORS[id]}
+          </label>
+        ))}
+      </div>
+      
+      {rules.map((rule, index) => {
+        const isTerms = rule.pattern === undefined;
+        
+        return (
+          <div key={index} className={`redaction-rule ${rule.enabled ? '' : 'disabled'}`}>
+            <div className="setting-item">
+              <label htmlFor={`redaction-kind-${index}`}>Placeholder Name:</label>
+              <input
+                id={`redaction-kind-${index}`}
+                type="text"
+                value={rule.kind}
+                onChange={(e) => handleUpdate(index, { kind: e.target.value.toUpperCase() })}
+              />
+              <label className="redaction-rule-enabled">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={(e) => handleUpdate(index, { enabled: e.target.checked })}
+                />
+                On
+              </label>
+              <button className="redaction-rule-remove" onClick={() => handleRemove(index)}>Remove</button>
+            </div>
+            
+            {isTerms ? (
+              <div className="redaction-rule-field">
+                <label className="redaction-label" htmlFor={`redaction-terms-${index}`}>
+                  Names and terms (one per line, whole words, any case)
+                </label>
+                <textarea
+                  id={`redaction-terms-${index}`}
+                  rows={3}
+                  value={(rule.terms || []).join('\n')}
+                  onChange={(e) => handleUpdate(index, { terms: e.target.value.split('\n') })}
+                  placeholder={'Jane Doe\nAcme Corp'}
+                />
+              </div>
+            ) : (
+              <div className="redaction-rule-field">
+                <label className="redaction-label" htmlFor={`redaction-pattern-${index}`}>
+                  Regular expression (case-sensitive)
+                </label>
+                <input
+                  id={`redaction-pattern-${index}`}
+                  type="text"
+                  className={isValidPattern(rule.pattern) ? '' : 'invalid'}
+                  value={rule.pattern}
+                  onChange={(e) => handleUpdate(index, { pattern: e.target.value })}
+                  placeholder="CUST-\d{6}"
+                />
+                {!isValidPattern(rule.pattern) && (
+                  <span className="redaction-error">This pattern is invalid and will be skipped</span>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+      
+      <div className="redaction-actions">
+        <button onClick={() => handleAdd('terms')}>Add Term List</button>
+        <button onClick={() => handleAdd('pattern')}>Add Pattern</button>
+      </div>
+      
+      <div className="redaction-preview">
+        <div className="setting-item">
+          <label htmlFor="redactionSample">Sample Text:</label>
+          <input
+            id="redactionSample"
+            type="text"
+            value={sampleText}
+            onChange={(e) => setSampleText(e.target.value)}
+          />
+        </div>
+        
+        <div className="setting-item">
+          <label htmlFor="redactionSampleOperation">Operation:</label>
+          <select
+            id="redactionSampleOperation"
+            value={sampleOperation}
+            onChange={(e) => setSampleOperation(e.target.value)}
+          >
+            {LLM_OPERATIONS.map(operation => (
+              <option key={operation} value={operation}>{operation}</option>
+            ))}
+          </select>
+        </div>
+        
+        {preview && (
+          <div className="redaction-result">
+            <p className="redaction-hint">
+              {!preview.cloud && 'Requests currently stay on this machine; this is what a cloud provider would receive. '}
+              {preview.items.length === 0
+                ? 'Nothing in the sample is redacted.'
+                : preview.items.map(item => `${item.placeholder} = ${item.value}`).join(', ')}
+            </p>
+            <pre className="redaction-output">
+              <strong>System:</strong>{'\n'}{preview.system}{'\n\n'}<strong>User:</strong>{'\n'}{preview.user}
+            </pre>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RedactionEditor;
@@ -1,7 +1,36 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import '../styles/SettingsDialog.css';
 import { useSettings } from '../context/SettingsContext';
 import { useTheme } from '../context/ThemeContext';
+import PromptTemplateEditor from './PromptTemplateEditor';
+import StyleEditor from './StyleEditor';
+import FallbackChainEditor from './FallbackChainEditor';
+import ModelSettingsEditor from './ModelSettingsEditor';
+import RedactionEditor from './RedactionEditor';
+import DictionaryEditor from './DictionaryEditor';
+import UsageView from './UsageView';
+import IPCBridge from '../services/IPCBridge';
+import { IpcChannels, DEFAULT_SETTINGS, LANGUAGE_NAMES, LLM_PROVIDER_LABELS, SPELLCHECK_LANGUAGES } from '../interfaces/constants';
+import { ApiKeyStatus, CacheStats, ProviderHealth } from '../interfaces/types';
+
+// Format a byte count for display
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Cloud providers that take an API key, by id
+const API_KEY_PROVIDERS: Record<string, string> = {
+  openai: 'OpenAI',
+  anthropic: 'Anthropic',
+  gemini: 'Gemini'
+};
+
+// Languages without a bundled dictionary, which can't be spell checked offline
+const NO_SPELLCHECK_LANGUAGES = Object.keys(LANGUAGE_NAMES)
+  .filter(language => SPELLCHECK_LANGUAGES.indexOf(language) < 0)
+  .map(language => LANGUAGE_NAMES[language]);
 
 interface SettingsDialogProps {
   onClose: () => void;
@@ -11,6 +40,13 @@ const SettingsDialog: React.FC<SettingsDialogProps> = ({ onClose }) => {
   const { settings, updateSetting, saveSettings, resetSettings } = useSettings();
   const { theme } = useTheme();
   const [localSettings, setLocalSettings] = useState({ ...settings });
+  const [cacheStats, setCacheStats] = useState<CacheStats | null>(null);
+  const [cacheMessage, setCacheMessage] = useState<string | null>(null);
+  const [keyStatus, setKeyStatus] = useState<ApiKeyStatus | null>(null);
+  // Keys typed since the dialog opened; saved ones are never sent back to be shown
+  const [keyDrafts, setKeyDrafts] = useState<Record<string, string>>({});
+  const [connection, setConnection] = useState<ProviderHealth | null>(null);
+  const [testingConnection, setTestingConnection] = useState(false);
   
   // S1: Show settings dialog
   // Displays the settings dialog with current settings
@@ -19,10 +55,38 @@ const SettingsDialog: React.FC<SettingsDialogProps> = ({ onClose }) => {
     setLocalSettings({ ...settings });
   }, [settings]);
   
+  // S5: Load cache statistics
+  // Fetches the response cache figures from the main process
+  const loadCacheStats = useCallback(async () => {
+    try {
+      setCacheStats(await IPCBridge.invoke<CacheStats>(IpcChannels.CACHE_STATS));
+    } catch (error) {
+      console.error('Error loading cache statistics:', error);
+    }
+  }, []);
+  
+  useEffect(() => {
+    loadCacheStats();
+  }, [loadCacheStats]);
+  
+  // S8: Load API key status
+  // Fetches which providers have a key and whether keys are encrypted
+  const loadKeyStatus = useCallback(async () => {
+    try {
+      setKeyStatus(await IPCBridge.invoke<ApiKeyStatus>(IpcChannels.API_KEYS_STATUS));
+    } catch (error) {
+      console.error('Error loading API key status:', error);
+    }
+  }, []);
+  
+  useEffect(() => {
+    loadKeyStatus();
+  }, [loadKeyStatus]);
+  
   // S2: Update setting value
   // Updates a specific setting in the local state
   const handleSettingChange = (key: string, value: any) => {
-    // For nested settings like apiKeys
+    // For nested settings like baseUrls
     if (key.includes('.')) {
       const [parentKey, childKey] = key.split('.');
       setLocalSettings(prev => ({
@@ -42,7 +106,18 @@ const SettingsDialog: React.FC<SettingsDialogProps> = ({ onClose }) => {
   
   // S3: Save settings
   // Saves the updated settings
-  const handleSaveSettings = () => {
+  const handleSaveSettings = async () => {
+    try {
+      // Keys are stored on their own so they never pass through the settings file
+      await Promise.all(Object.entries(keyDrafts)
+        .filter(([, key]) => key.trim())
+        .map(([provider, key]) => IPCBridge.invoke<boolean>(IpcChannels.API_KEYS_SET, { provider, key })));
+    } catch (error) {
+      console.error('Error saving API keys:', error);
+      alert('Failed to save the API key');
+      return;
+    }
+    
     saveSettings(localSettings);
     onClose();
   };
@@ -56,6 +131,91 @@ const SettingsDialog: React.FC<SettingsDialogProps> = ({ onClose }) => {
     }
   };
   
+  // S6: Clear response cache
+  // Drops every cached AI response after confirmation
+  const handleClearCache = async () => {
+    if (!window.confirm('Clear all cached AI responses?')) return;
+    
+    try {
+      await IPCBridge.invoke<boolean>(IpcChannels.CACHE_CLEAR);
+      setCacheMessage('Cache cleared');
+      await loadCacheStats();
+    } catch (error) {
+      console.error('Error clearing cache:', error);
+      setCacheMessage('Failed to clear the cache');
+    }
+  };
+  
+  // S9: Remove API key
+  // Deletes the stored key of a provider after confirmation
+  const handleRemoveKey = async (provider: string) => {
+    if (!window.confirm(`Remove the stored ${API_KEY_PROVIDERS[provider]} API key?`)) return;
+    
+    try {
+      await IPCBridge.invoke<boolean>(IpcChannels.API_KEYS_SET, { provider, key: '' });
+      setKeyDrafts(prev => ({ ...prev, [provider]: '' }));
+      await loadKeyStatus();
+    } catch (error) {
+      console.error('Error removing API key:', error);
+    }
+  };
+  
+  // S10: Test connection
+  // Pings the selected provider with the server URL and key typed so far, before they are saved
+  const handleTestConnection = async () => {
+    const provider = localSettings.llmProvider;
+    setTestingConnection(true);
+    setConnection(null);
+    
+    try {
+      setConnection(await IPCBridge.invoke<ProviderHealth>(IpcChannels.AI_HEALTH_CHECK, {
+        provider,
+        baseUrl: localSettings.baseUrls?.[provider] || undefined,
+        apiKey: keyDrafts[provider] || undefined
+      }));
+    } catch (error) {
+      console.error('Error testing connection:', error);
+      setConnection({
+        provider,
+        status: 'error',
+        error: 'The connection test failed',
+        checkedAt: new Date().toISOString()
+      });
+    } finally {
+      setTestingConnection(false);
+    }
+  };
+  
+  // Helper to describe the outcome of a connection test
+  const describeConnection = (result: ProviderHealth) => {
+    const label = LLM_PROVIDER_LABELS[result.provider] || result.provider;
+    if (result.status === 'ok') return `Connected to ${label} in ${result.latencyMs} ms`;
+    return result.error || `Could not connect to ${label}`;
+  };
+  
+  // Helper to describe where the key of a provider comes from
+  const describeKey = (provider: string) => {
+    const source = keyStatus?.configured[provider];
+    if (source === 'stored') return `Configured${keyStatus!.encrypted ? '' : ' (stored unencrypted)'}`;
+    if (source === 'environment') return 'Configured from the environment';
+    if (source === 'undecryptable') return 'The stored key can no longer be decrypted, enter it again';
+    return 'Not configured';
+  };
+  
+  // S7: Export response cache
+  // Saves the cached AI responses to a JSON file chosen by the user
+  const handleExportCache = async () => {
+    try {
+      const count = await IPCBridge.invoke<number | null>(IpcChannels.CACHE_EXPORT);
+      if (count !== null) {
+        setCacheMessage(`Exported ${count} cached responses`);
+      }
+    } catch (error) {
+      console.error('Error exporting cache:', error);
+      setCacheMessage('Failed to export the cache');
+    }
+  };
+  
   return (
     <div className="settings-overlay">
       <div className={`settings-dialog ${theme}`}>
@@ -130,12 +290,70 @@ const SettingsDialog: React.FC<SettingsDialogProps> = ({ onClose }) => {
                 value={localSettings.llmProvider}
                 onChange={(e) => handleSettingChange('llmProvider', e.target.value)}
               >
-                <option value="local">Local (Ollama)</option>
+                <option value="local">Local (OpenAI-compatible server)</option>
                 <option value="openai">OpenAI</option>
                 <option value="anthropic">Anthropic</option>
+                <option value="gemini">Google Gemini</option>
+              </select>
+            </div>
+            
+            <div className="setting-item">
+              <label htmlFor="liveGrammarCheck">Check Grammar While Typing:</label>
+              <input
+                id="liveGrammarCheck"
+                type="checkbox"
+                checked={!!localSettings.liveGrammarCheck}
+                onChange={(e) => handleSettingChange('liveGrammarCheck', e.target.checked)}
+              />
+            </div>
+            
+            <div className="setting-item">
+              <label htmlFor="inlineCompletion">Inline Autocomplete:</label>
+              <input
+                id="inlineCompletion"
+                type="checkbox"
+                checked={!!localSettings.inlineCompletion}
+                onChange={(e) => handleSettingChange('inlineCompletion', e.target.checked)}
+              />
+            </div>
+            
+            <div className="setting-item">
+              <label htmlFor="inlineCompletionDelay">Autocomplete Delay (ms):</label>
+              <input
+                id="inlineCompletionDelay"
+                type="number"
+                min="200"
+                step="100"
+                disabled={!localSettings.inlineCompletion}
+                value={localSettings.inlineCompletionDelay || 800}
+                onChange={(e) => handleSettingChange('inlineCompletionDelay', parseInt(e.target.value) || 800)}
+              />
+            </div>
+            
+            <div className="setting-item">
+              <label htmlFor="translationInsertMode">Insert Translations:</label>
+              <select
+                id="translationInsertMode"
+                value={localSettings.translationInsertMode || 'below'}
+                onChange={(e) => handleSettingChange('translationInsertMode', e.target.value)}
+              >
+                <option value="below">Below the original</option>
+                <option value="replace">In place of the original</option>
               </select>
             </div>
             
+            <div className="setting-item">
+              <label htmlFor="summaryLength">Summary Length (words, 0 = automatic):</label>
+              <input
+                id="summaryLength"
+                type="number"
+                min="0"
+                step="25"
+                value={localSettings.summaryLength || 0}
+                onChange={(e) => handleSettingChange('summaryLength', parseInt(e.target.value) || 0)}
+              />
+            </div>
+            
             <div className="setting-item">
               <label htmlFor="defaultLanguage">Default Language:</label>
               <select
@@ -156,36 +374,160 @@ const SettingsDialog: React.FC<SettingsDialogProps> = ({ onClose }) => {
                 <option value="ko">Korean</option>
               </select>
             </div>
+            <p className={SPELLCHECK_LANGUAGES.indexOf(localSettings.defaultLanguage) < 0 ? 'setting-hint warning' : 'setting-hint'}>
+              When no AI provider can be reached, text is spell checked offline, except in {NO_SPELLCHECK_LANGUAGES.join(', ')}.
+            </p>
+            
+            {localSettings.llmProvider === 'local' && (
+              <div className="setting-item">
+                <label htmlFor="localServerUrl">Server URL:</label>
+                <input
+                  id="localServerUrl"
+                  type="text"
+                  value={localSettings.baseUrls?.local || ''}
+                  onChange={(e) => handleSettingChange('baseUrls.local', e.target.value)}
+                  placeholder="http://localhost:1234/v1"
+                />
+              </div>
+            )}
             
-            {(localSettings.llmProvider === 'openai' || localSettings.llmProvider === 'anthropic') && (
+            {API_KEY_PROVIDERS[localSettings.llmProvider] && (
               <div className="api-key-settings">
-                {localSettings.llmProvider === 'openai' && (
-                  <div className="setting-item">
-                    <label htmlFor="openaiKey">OpenAI API Key:</label>
-                    <input
-                      id="openaiKey"
-                      type="password"
-                      value={localSettings.apiKeys?.openai || ''}
-                      onChange={(e) => handleSettingChange('apiKeys.openai', e.target.value)}
-                      placeholder="Enter your OpenAI API key"
-                    />
-                  </div>
-                )}
-                
-                {localSettings.llmProvider === 'anthropic' && (
-                  <div className="setting-item">
-                    <label htmlFor="anthropicKey">Anthropic API Key:</label>
-                    <input
-                      id="anthropicKey"
-                      type="password"
-                      value={localSettings.apiKeys?.anthropic || ''}
-                      onChange={(e) => handleSettingChange('apiKeys.anthropic', e.target.value)}
-                      placeholder="Enter your Anthropic API key"
-                    />
-                  </div>
+                <div className="setting-item">
+                  <label htmlFor="apiKey">{API_KEY_PROVIDERS[localSettings.llmProvider]} API Key:</label>
+                  <input
+                    id="apiKey"
+                    type="password"
+                    autoComplete="off"
+                    value={keyDrafts[localSettings.llmProvider] || ''}
+                    onChange={(e) => setKeyDrafts(prev => ({ ...prev, [localSettings.llmProvider]: e.target.value }))}
+                    placeholder={keyStatus?.configured[localSettings.llmProvider]
+                      ? 'Enter a new key to replace the configured one'
+                      : `Enter your ${API_KEY_PROVIDERS[localSettings.llmProvider]} API key`}
+                  />
+                </div>
+                <div className="api-key-status">
+                  <span className={keyStatus?.configured[localSettings.llmProvider] === 'undecryptable'
+                    ? 'undecryptable'
+                    : keyStatus?.configured[localSettings.llmProvider] ? 'configured' : ''}>
+                    {describeKey(localSettings.llmProvider)}
+                  </span>
+                  {(keyStatus?.configured[localSettings.llmProvider] === 'stored'
+                    || keyStatus?.configured[localSettings.llmProvider] === 'undecryptable') && (
+                    <button onClick={() => handleRemoveKey(localSettings.llmProvider)}>Remove</button>
+                  )}
+                </div>
+                {keyStatus && !keyStatus.encrypted && (
+                  <p className="api-key-warning">
+                    No system keyring is available, so API keys are saved unencrypted in the app data directory.
+                  </p>
                 )}
               </div>
             )}
+            
+            <div className="connection-test">
+              <button onClick={handleTestConnection} disabled={testingConnection}>
+                {testingConnection ? 'Testing...' : 'Test Connection'}
+              </button>
+              {connection && connection.provider === localSettings.llmProvider && (
+                <span className={`connection-test-result ${connection.status}`}>
+                  {describeConnection(connection)}
+                </span>
+              )}
+            </div>
+          </div>
+          
+          <div className="settings-section">
+            <h3>Models</h3>
+            <ModelSettingsEditor
+              provider={localSettings.llmProvider}
+              baseUrl={localSettings.llmProvider === 'local' ? localSettings.baseUrls?.local : undefined}
+              settings={localSettings.operationSettings || {}}
+              onChange={(operationSettings) => handleSettingChange('operationSettings', operationSettings)}
+            />
+          </div>
+          
+          <div className="settings-section">
+            <h3>Fallback Providers</h3>
+            <FallbackChainEditor
+              primary={localSettings.llmProvider}
+              chain={localSettings.fallbackProviders || []}
+              cloudConsent={localSettings.cloudFallbackConsent || {}}
+              onChange={(chain, cloudConsent) => setLocalSettings(prev => ({
+                ...prev,
+                fallbackProviders: chain,
+                cloudFallbackConsent: cloudConsent
+              }))}
+            />
+          </div>
+          
+          <div className="settings-section">
+            <h3>Privacy</h3>
+            <RedactionEditor
+              settings={localSettings.redaction || DEFAULT_SETTINGS.redaction}
+              onChange={(redaction) => handleSettingChange('redaction', redaction)}
+            />
+          </div>
+          
+          <div className="settings-section">
+            <h3>Dictionary</h3>
+            <DictionaryEditor
+              scope={localSettings.dictionaryScope || DEFAULT_SETTINGS.dictionaryScope}
+              onScopeChange={(scope) => handleSettingChange('dictionaryScope', scope)}
+            />
+          </div>
+          
+          <div className="settings-section">
+            <h3>Rephrase Styles</h3>
+            <StyleEditor
+              styles={localSettings.customStyles || []}
+              onChange={(styles) => handleSettingChange('customStyles', styles)}
+            />
+          </div>
+          
+          <div className="settings-section">
+            <h3>Prompt Templates</h3>
+            <PromptTemplateEditor language={localSettings.defaultLanguage} />
+          </div>
+          
+          <div className="settings-section">
+            <h3>Response Cache</h3>
+            
+            {cacheStats ? (
+              <div className="cache-stats">
+                <div className="setting-item">
+                  <span className="setting-label">Cached Responses:</span>
+                  <span>{cacheStats.entries}</span>
+                </div>
+                <div className="setting-item">
+                  <span className="setting-label">Size:</span>
+                  <span>{formatBytes(cacheStats.sizeBytes)} of {formatBytes(cacheStats.maxSizeBytes)}</span>
+                </div>
+                <div className="setting-item">
+                  <span className="setting-label">Hit Rate:</span>
+                  <span>
+                    {Math.round(cacheStats.hitRate * 100)}% ({cacheStats.hits} of {cacheStats.hits + cacheStats.misses} lookups)
+                  </span>
+                </div>
+              </div>
+            ) : (
+              <div className="setting-item">Cache statistics unavailable</div>
+            )}
+            
+            <div className="cache-actions">
+              <button onClick={handleClearCache}>Clear Cache</button>
+              <button onClick={handleExportCache}>Export...</button>
+              {cacheMessage && <span className="cache-message">{cacheMessage}</span>}
+            </div>
+          </div>
+          
+          <div className="settings-section">
+            <h3>Usage</h3>
+            <UsageView
+              prices={localSettings.modelPrices || DEFAULT_SETTINGS.modelPrices}
+              limits={localSettings.usageLimits || DEFAULT_SETTINGS.usageLimits}
+              onChange={(modelPrices, usageLimits) => setLocalSettings(prev => ({ ...prev, modelPrices, usageLimits }))}
+            />
           </div>
         </div>
         
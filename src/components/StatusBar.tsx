@@ -1,6 +1,9 @@
 import React, { useEffect, useState } from 'react';
 import { useEditor } from '../context/EditorContext';
 import { useTheme } from '../context/ThemeContext';
+import IPCBridge from '../services/IPCBridge';
+import { IpcChannels, LLM_PROVIDER_LABELS } from '../interfaces/constants';
+import { HealthStatus, ProviderHealth, QueueStatus, UsageStatus } from '../interfaces/types';
 import '../styles/StatusBar.css';
 
 interface StatusBarProps {
@@ -23,6 +26,11 @@ const StatusBar: React.FC<StatusBarProps> = ({ wordCount, filePath }) => {
     filePath
   });
   
+  const [queue, setQueue] = useState<QueueStatus | null>(null);
+  const [health, setHealth] = useState<HealthStatus | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [usage, setUsage] = useState<UsageStatus | null>(null);
+  
   const { selection } = useEditor();
   const { theme } = useTheme();
   
@@ -50,6 +58,76 @@ const StatusBar: React.FC<StatusBarProps> = ({ wordCount, filePath }) => {
     setState(prev => ({ ...prev, filePath }));
   }, [filePath]);
   
+  // S5: Follow AI request queue
+  // Shows how many AI requests are waiting for the provider and for how long
+  useEffect(() => {
+    return IPCBridge.on(IpcChannels.AI_QUEUE_STATUS, (status: QueueStatus) => setQueue(status));
+  }, []);
+  
+  // S6: Follow provider health
+  // Shows whether the configured provider can be reached and how fast it answers
+  useEffect(() => {
+    const removeListener = IPCBridge.on(IpcChannels.AI_HEALTH_STATUS, (status: HealthStatus) => setHealth(status));
+    
+    IPCBridge.invoke<HealthStatus>(IpcChannels.AI_HEALTH_GET)
+      .then(status => setHealth(prev => prev || status))
+      .catch(error => console.error('Error getting provider health:', error));
+    
+    return removeListener;
+  }, []);
+  
+  // S8: Follow usage
+  // Shows this month's estimated cost, highlighted as it nears or passes a soft limit
+  useEffect(() => {
+    const removeListener = IPCBridge.on(IpcChannels.AI_USAGE_STATUS, (status: UsageStatus) => setUsage(status));
+    
+    IPCBridge.invoke<UsageStatus>(IpcChannels.USAGE_STATUS)
+      .then(status => setUsage(prev => prev || status))
+      .catch(error => console.error('Error getting usage status:', error));
+    
+    return removeListener;
+  }, []);
+  
+  // S7: Check provider again
+  // Pings the configured provider right away instead of waiting for the next check
+  const handleCheckHealth = async () => {
+    if (!health || checking) return;
+    
+    setChecking(true);
+    try {
+      await IPCBridge.invoke(IpcChannels.AI_HEALTH_CHECK, { provider: health.provider });
+    } catch (error) {
+      console.error('Error checking provider health:', error);
+    } finally {
+      setChecking(false);
+    }
+  };
+  
+  // Describe the health of one provider
+  const describeHealth = (providerHealth: ProviderHealth | undefined) => {
+    if (!providerHealth) return 'not checked yet';
+    if (providerHealth.status === 'unconfigured') return 'no API key';
+    if (providerHealth.status === 'error') return 'unreachable';
+    return providerHealth.latencyMs !== undefined ? `${providerHealth.latencyMs} ms` : 'connected';
+  };
+  
+  // Describe the queue, or nothing while no request is waiting
+  const describeQueue = (status: QueueStatus) => {
+    const wait = Math.max(status.averageWaitMs, status.longestWaitMs);
+    return `AI: ${status.queued} queued${wait >= 1000 ? `, ~${(wait / 1000).toFixed(1)}s wait` : ''}`;
+  };
+  
+  // Describe this month's usage against the soft limits
+  const describeUsage = (status: UsageStatus) => {
+    const lines = [`${status.requests} AI requests this month, ${status.tokens.toLocaleString()} tokens`];
+    if (status.limits.monthlyCost > 0) lines.push(`Cost limit: $${status.limits.monthlyCost.toFixed(2)}`);
+    if (status.limits.monthlyTokens > 0) lines.push(`Token limit: ${status.limits.monthlyTokens.toLocaleString()}`);
+    if (status.level === 'exceeded') {
+      lines.push(status.acknowledged ? 'Limit reached, sending anyway' : 'Limit reached, you will be asked before sending');
+    }
+    return lines.join('\n');
+  };
+  
   // Get filename from path
   const getFileName = (path: string) => {
     if (!path) return 'Untitled';
@@ -65,6 +143,37 @@ const StatusBar: React.FC<StatusBarProps> = ({ wordCount, filePath }) => {
         {state.status}
       </div>
       
+      {queue && queue.queued > 0 && (
+        <div
+          className="status-section status-queue"
+          title={`Running: ${queue.running}\nInteractive: ${queue.queuedByPriority.interactive}\n` +
+            `Batch: ${queue.queuedByPriority.batch}\nBackground: ${queue.queuedByPriority.background}`}
+        >
+          {describeQueue(queue)}
+        </div>
+      )}
+      
+      {health && (
+        <button
+          className={`status-section status-health ${health.providers[health.provider]?.status || 'unknown'}`}
+          onClick={handleCheckHealth}
+          disabled={checking}
+          title={Object.values(health.providers)
+            .map(item => `${LLM_PROVIDER_LABELS[item.provider] || item.provider}: ${item.error || describeHealth(item)}`)
+            .concat(health.available ? [] : ['No provider can be reached, working offline'], ['Click to check again'])
+            .join('\n')}
+        >
+          <span className="status-health-dot" />
+          {LLM_PROVIDER_LABELS[health.provider] || health.provider}: {checking ? 'checking...' : describeHealth(health.providers[health.provider])}
+        </button>
+      )}
+      
+      {usage && usage.requests > 0 && (
+        <div className={`status-section status-usage ${usage.level}`} title={describeUsage(usage)}>
+          ${usage.cost.toFixed(2)} this month
+        </div>
+      )}
+      
       <div className="status-section status-position">
         {selection ? (
           <span>
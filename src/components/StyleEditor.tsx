@@ -0,0 +1,85 @@
+import React from 'react';
+import '../styles/StyleEditor.css';
+import { CustomStyle } from '../interfaces/types';
+
+interface StyleEditorProps {
+  styles: CustomStyle[];
+  onChange: (styles: CustomStyle[]) => void;
+}
+
+const StyleEditor: React.FC<StyleEditorProps> = ({ styles, onChange }) => {
+  // S1: Add style
+  // Appends an empty style with a unique id
+  const handleAdd = () => {
+    onChange([
+      ...styles,
+      {
+        id: `custom-${Date.now().toString(36)}`,
+        label: 'New Style',
+        instruction: '',
+        examples: []
+      }
+    ]);
+  };
+  
+  // S2: Update style
+  // Changes one field of a style
+  const handleUpdate = (index: number, changes: Partial<CustomStyle>) => {
+    onChange(styles.map((style, i) => i === index ? { ...style, ...changes } : style));
+  };
+  
+  // S3: Remove style
+  // Deletes a style after confirmation
+  const handleRemove = (index: number) => {
+    if (!window.confirm(`Remove the style "${styles[index].label}"?`)) return;
+    
+    onChange(styles.filter((_, i) => i !== index));
+  };
+  
+  return (
+    <div className="style-editor">
+      {styles.length === 0 && (
+        <p className="style-editor-hint">
+          Add your own styles, such as "plain English for executives". They appear in the AI menu,
+          the context menu and the command palette.
+        </p>
+      )}
+      
+      {styles.map((style, index) => (
+        <div key={style.id} className="style-editor-item">
+          <div className="setting-item">
+            <label htmlFor={`style-label-${style.id}`}>Name:</label>
+            <input
+              id={`style-label-${style.id}`}
+              type="text"
+              value={style.label}
+              onChange={(e) => handleUpdate(index, { label: e.target.value })}
+            />
+            <button className="style-editor-remove" onClick={() => handleRemove(index)}>Remove</button>
+          </div>
+          
+          <label className="style-editor-label" htmlFor={`style-instruction-${style.id}`}>Instruction</label>
+          <textarea
+            id={`style-instruction-${style.id}`}
+            rows={2}
+            value={style.instruction}
+            onChange={(e) => handleUpdate(index, { instruction: e.target.value })}
+            placeholder="Short sentences, no jargon, lead with the conclusion"
+          />
+          
+          <label className="style-editor-label" htmlFor={`style-examples-${style.id}`}>Examples (optional, one per line)</label>
+          <textarea
+            id={`style-examples-${style.id}`}
+            rows={2}
+            value={style.examples.join('\n')}
+            onChange={(e) => handleUpdate(index, { examples: e.target.value.split('\n') })}
+          />
+        </div>
+      ))}
+      
+      <button onClick={handleAdd}>Add Style</button>
+    </div>
+  );
+};
+
+export default StyleEditor;
@@ -1,30 +1,140 @@
 import React, { useEffect, useRef, useState } from 'react';
 import '../styles/SuggestionPanel.css';
 import { useTheme } from '../context/ThemeContext';
+import { GrammarIssue, LLMResponse } from '../interfaces/types';
+import { LLM_PROVIDER_LABELS } from '../interfaces/constants';
 
 interface Suggestion {
   text: string;
   confidence: number;
   type: string;
+  explain?: string;
 }
 
+// Explanation of one suggestion or issue, keyed by item in the panel state
+interface Explanation {
+  before: string;
+  after: string;
+  loading: boolean;
+  rule?: string;
+  text?: string;
+  error?: string;
+}
+
+// Run of words a before/after highlight shows the same, removed or added
+interface DiffPart {
+  text: string;
+  kind: 'same' | 'removed' | 'added';
+}
+
+// Word pairs compared at most by a before/after highlight; longer texts are shown as replaced outright
+const MAX_DIFF_CELLS = 40000;
+
+// Helper to compare two texts word by word, keeping the whitespace between words
+const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = before.split(/(\s+)/).filter(token => token);
+  const b = after.split(/(\s+)/).filter(token => token);
+  
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [{ text: before, kind: 'removed' }, { text: after, kind: 'added' }];
+  }
+  
+  // lengths[i][j] is the longest common run of a[i..] and b[j..]
+  const lengths: number[][] = [];
+  for (let i = a.length; i >= 0; i--) {
+    lengths[i] = [];
+    for (let j = b.length; j >= 0; j--) {
+      if (i === a.length || j === b.length) {
+        lengths[i][j] = 0;
+      } else if (a[i] === b[j]) {
+        lengths[i][j] = lengths[i + 1][j + 1] + 1;
+      } else {
+        lengths[i][j] = Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+  }
+  
+  const parts: DiffPart[] = [];
+  const push = (text: string, kind: DiffPart['kind']) => {
+    const last = parts[parts.length - 1];
+    if (last && last.kind === kind) {
+      last.text += text;
+    } else {
+      parts.push({ text, kind });
+    }
+  };
+  
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      push(a[i++], 'same');
+      j++;
+    } else if (j < b.length && (i === a.length || lengths[i][j + 1] >= lengths[i + 1][j])) {
+      push(b[j++], 'added');
+    } else {
+      push(a[i++], 'removed');
+    }
+  }
+  
+  return parts;
+};
+
 interface SuggestionPanelProps {
   suggestions: Suggestion[];
   position: { x: number; y: number };
+  streaming?: boolean;
+  issues?: GrammarIssue[];
+  // Heading of generated text (summary, prose, outline), shown instead of the suggestion list
+  title?: string;
+  // Whether generated text may replace the selection as well as go in at the cursor
+  canReplace?: boolean;
+  // Text the suggestions rewrite, needed to explain them
+  original?: string;
+  // Provider that answered in place of the configured one
+  fallbackProvider?: string;
   onApply: (suggestion: Suggestion) => void;
+  onInsert?: (suggestion: Suggestion) => void;
+  // Applies an issue with its replacement, or with one of its alternatives when given
+  onAcceptIssue?: (index: number, replacement?: string) => void;
+  onDismissIssue?: (index: number) => void;
+  // Keep an issue's flagged word from being flagged again, or hide issues like it from now on
+  onAddToDictionary?: (index: number) => void;
+  onIgnoreIssue?: (index: number) => void;
+  onApplyAll?: () => void;
+  onExplain?: (original: string, replacement: string) => Promise<LLMResponse>;
   onClose: () => void;
 }
 
-const SuggestionPanel: React.FC<SuggestionPanelProps> = ({ 
-  suggestions, 
-  position, 
-  onApply, 
-  onClose 
+const SuggestionPanel: React.FC<SuggestionPanelProps> = ({
+  suggestions,
+  position,
+  streaming = false,
+  issues,
+  title,
+  canReplace = false,
+  original,
+  fallbackProvider,
+  onApply,
+  onInsert,
+  onAcceptIssue,
+  onDismissIssue,
+  onAddToDictionary,
+  onIgnoreIssue,
+  onApplyAll,
+  onExplain,
+  onClose
 }) => {
   const panelRef = useRef<HTMLDivElement>(null);
   const [selectedIndex, setSelectedIndex] = useState<number>(-1);
+  const [explanations, setExplanations] = useState<Record<string, Explanation>>({});
   const { theme } = useTheme();
   
+  // Explanations belong to the items they were asked for
+  useEffect(() => {
+    setExplanations({});
+  }, [suggestions, issues]);
+  
   // S1: Show suggestions
   // Displays the suggestions panel with the provided items
   useEffect(() => {
@@ -65,6 +175,9 @@ const SuggestionPanel: React.FC<SuggestionPanelProps> = ({
   // S2: Handle suggestion click
   // Processes clicks on suggestion items
   const handleSuggestionClick = (index: number) => {
+    // Suggestions can't be picked until the response is complete
+    if (streaming) return;
+    
     setSelectedIndex(index);
   };
   
@@ -77,9 +190,13 @@ const SuggestionPanel: React.FC<SuggestionPanelProps> = ({
   };
   
   // S4: Apply all suggestions
-  // Applies all suggestions (not implemented yet)
+  // Applies all suggestions when the owner supports it (grammar issues)
   const handleApplyAll = () => {
-    // This would need to be implemented based on how multiple suggestions should be applied
+    if (onApplyAll) {
+      onApplyAll();
+      return;
+    }
+    
     alert('Apply all suggestions functionality not implemented yet');
   };
   
@@ -89,6 +206,77 @@ const SuggestionPanel: React.FC<SuggestionPanelProps> = ({
     onClose();
   };
   
+  // S6: Accept or dismiss a grammar issue
+  // Forwards per-issue actions without selecting the item
+  const handleIssueAction = (e: React.MouseEvent, index: number, accept: boolean, replacement?: string) => {
+    e.stopPropagation();
+    
+    if (accept) {
+      onAcceptIssue?.(index, replacement);
+    } else {
+      onDismissIssue?.(index);
+    }
+  };
+  
+  // S7: Insert or replace with generated text
+  // Generated text is a single result, so it is used without being selected first
+  const handleGenerated = (replace: boolean) => {
+    if (suggestions.length === 0) return;
+    
+    if (replace) {
+      onApply(suggestions[0]);
+    } else {
+      onInsert?.(suggestions[0]);
+    }
+  };
+  
+  // S8: Explain a suggestion or issue
+  // Shows why the text was changed, asking the model unless the suggestion came with a reason; a second click hides it
+  const handleExplain = async (e: React.MouseEvent, key: string, before: string, after: string, known?: string) => {
+    e.stopPropagation();
+    
+    if (explanations[key]) {
+      setExplanations(prev => {
+        const next = { ...prev };
+        delete next[key];
+        return next;
+      });
+      return;
+    }
+    
+    if (known || !onExplain) {
+      setExplanations(prev => ({ ...prev, [key]: { before, after, loading: false, text: known } }));
+      return;
+    }
+    
+    setExplanations(prev => ({ ...prev, [key]: { before, after, loading: true } }));
+    
+    let result: Explanation;
+    try {
+      const response = await onExplain(before, after);
+      result = response.error || response.suggestions.length === 0
+        ? { before, after, loading: false, error: response.error || 'No explanation received' }
+        : { before, after, loading: false, rule: response.rule, text: response.suggestions[0].text };
+    } catch (error) {
+      result = { before, after, loading: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+    
+    // Skip results for explanations hidden while they loaded
+    setExplanations(prev => (prev[key] ? { ...prev, [key]: result } : prev));
+  };
+  
+  // S9: Remember a grammar issue
+  // Adds the issue's word to the user dictionary or ignores issues like it, without selecting the item
+  const handleRemember = (e: React.MouseEvent, index: number, addWord: boolean) => {
+    e.stopPropagation();
+    
+    if (addWord) {
+      onAddToDictionary?.(index);
+    } else {
+      onIgnoreIssue?.(index);
+    }
+  };
+  
   // Format confidence score as percentage
   const formatConfidence = (confidence: number) => {
     return `${Math.round(confidence * 100)}%`;
@@ -101,48 +289,192 @@ const SuggestionPanel: React.FC<SuggestionPanelProps> = ({
     return 'low-confidence';
   };
   
+  const showIssues = !streaming && issues !== undefined;
+  const isGenerated = !!onInsert;
+  
+  // Helper to render the before/after highlight and the explanation of an item
+  const renderExplanation = (key: string) => {
+    const explanation = explanations[key];
+    if (!explanation) return null;
+    
+    const parts = diffWords(explanation.before, explanation.after);
+    
+    return (
+      <div className="explain-box" onClick={(e) => e.stopPropagation()}>
+        <div className="explain-diff">
+          <div>
+            <span className="explain-label">Before</span>
+            {parts.filter(part => part.kind !== 'added').map((part, index) => part.kind === 'removed'
+              ? <del key={index} className="diff-removed">{part.text}</del>
+              : <span key={index}>{part.text}</span>)}
+          </div>
+          <div>
+            <span className="explain-label">After</span>
+            {parts.filter(part => part.kind !== 'removed').map((part, index) => part.kind === 'added'
+              ? <ins key={index} className="diff-added">{part.text}</ins>
+              : <span key={index}>{part.text}</span>)}
+          </div>
+        </div>
+        {explanation.loading && <div className="explain-text">Explaining...</div>}
+        {explanation.error && <div className="explain-error">{explanation.error}</div>}
+        {explanation.rule && <div className="explain-rule">{explanation.rule}</div>}
+        {explanation.text && <div className="explain-text">{explanation.text}</div>}
+      </div>
+    );
+  };
+  
+  // Helper to pick the panel heading for the current mode
+  const getHeading = () => {
+    if (streaming) return isGenerated ? `${title || 'Result'}: generating...` : 'Generating suggestions...';
+    if (showIssues) return `Issues (${issues!.length})`;
+    return isGenerated ? title || 'Result' : 'Suggestions';
+  };
+  
   return (
-    <div 
-      className={`suggestion-panel ${theme}`} 
+    <div
+      className={`suggestion-panel ${theme} ${streaming ? 'streaming' : ''}`}
       style={{ left: position.x, top: position.y }}
       ref={panelRef}
     >
       <div className="suggestion-header">
-        <h3>Suggestions</h3>
+        <h3>{getHeading()}</h3>
         <button className="close-button" onClick={onClose}>✕</button>
       </div>
       
+      {fallbackProvider && !streaming && (
+        <div className="suggestion-provider">
+          Answered by {LLM_PROVIDER_LABELS[fallbackProvider] || fallbackProvider} (fallback)
+        </div>
+      )}
+      
       <div className="suggestion-list">
-        {suggestions.map((suggestion, index) => (
-          <div 
+        {showIssues && issues!.map((issue, index) => (
+          <div key={`${issue.offset}-${index}`} className="suggestion-item issue-item">
+            <div className="suggestion-content">
+              <div className="suggestion-text">
+                <span className="issue-original">{issue.original}</span>
+                <span className="issue-arrow">→</span>
+                <span className="issue-replacement">{issue.replacement || '(remove)'}</span>
+              </div>
+              <div className={`suggestion-confidence ${getConfidenceClass(issue.confidence)}`}>
+                {formatConfidence(issue.confidence)}
+              </div>
+            </div>
+            <div className="suggestion-type">{issue.category}</div>
+            {issue.explanation && <div className="issue-explanation">{issue.explanation}</div>}
+            {issue.alternatives && issue.alternatives.length > 0 && (
+              <div className="issue-alternatives">
+                Or:
+                {issue.alternatives.map(alternative => (
+                  <button
+                    key={alternative}
+                    className="issue-alternative"
+                    onClick={(e) => handleIssueAction(e, index, true, alternative)}
+                  >
+                    {alternative}
+                  </button>
+                ))}
+              </div>
+            )}
+            {renderExplanation(`issue-${index}`)}
+            <div className="issue-actions">
+              {onExplain && (
+                <button
+                  className="explain-button"
+                  onClick={(e) => handleExplain(e, `issue-${index}`, issue.original, issue.replacement)}
+                >
+                  Why?
+                </button>
+              )}
+              {onAddToDictionary && /^\S+$/.test(issue.original.trim()) && (
+                <button className="issue-remember" onClick={(e) => handleRemember(e, index, true)}>
+                  Add to Dictionary
+                </button>
+              )}
+              {onIgnoreIssue && (
+                <button className="issue-remember" onClick={(e) => handleRemember(e, index, false)}>Ignore</button>
+              )}
+              <button className="issue-accept" onClick={(e) => handleIssueAction(e, index, true)}>Accept</button>
+              <button className="issue-dismiss" onClick={(e) => handleIssueAction(e, index, false)}>Dismiss</button>
+            </div>
+          </div>
+        ))}
+        {isGenerated && suggestions.slice(0, 1).map((suggestion, index) => (
+          <div key={index} className="suggestion-item generated-item">
+            <div className="suggestion-text generated-text">{suggestion.text}</div>
+          </div>
+        ))}
+        {!showIssues && !isGenerated && suggestions.map((suggestion, index) => (
+          <div
             key={index}
             className={`suggestion-item ${selectedIndex === index ? 'selected' : ''}`}
             onClick={() => handleSuggestionClick(index)}
           >
             <div className="suggestion-content">
               <div className="suggestion-text">{suggestion.text}</div>
-              <div className={`suggestion-confidence ${getConfidenceClass(suggestion.confidence)}`}>
-                {formatConfidence(suggestion.confidence)}
-              </div>
+              {!streaming && (
+                <div className={`suggestion-confidence ${getConfidenceClass(suggestion.confidence)}`}>
+                  {formatConfidence(suggestion.confidence)}
+                </div>
+              )}
             </div>
-            <div className="suggestion-type">{suggestion.type}</div>
+            {!streaming && (
+              <div className="suggestion-meta">
+                <div className="suggestion-type">{suggestion.type}</div>
+                {original && (suggestion.explain || onExplain) && (
+                  <button
+                    className="explain-button"
+                    onClick={(e) => handleExplain(e, `suggestion-${index}`, original, suggestion.text, suggestion.explain)}
+                  >
+                    Why?
+                  </button>
+                )}
+              </div>
+            )}
+            {!streaming && renderExplanation(`suggestion-${index}`)}
           </div>
         ))}
       </div>
       
-      <div className="suggestion-actions">
-        <button 
-          className="apply-button"
-          disabled={selectedIndex < 0}
-          onClick={handleApply}
-        >
-          Apply Selected
-        </button>
-        <div className="action-buttons">
-          <button className="apply-all-button" onClick={handleApplyAll}>Apply All</button>
-          <button className="reject-button" onClick={handleRejectAll}>Reject</button>
+      {isGenerated ? (
+        <div className="suggestion-actions">
+          <button
+            className="apply-button"
+            disabled={streaming || suggestions.length === 0}
+            onClick={() => handleGenerated(false)}
+          >
+            Insert at Cursor
+          </button>
+          <div className="action-buttons">
+            {canReplace && (
+              <button
+                className="apply-all-button"
+                disabled={streaming || suggestions.length === 0}
+                onClick={() => handleGenerated(true)}
+              >
+                Replace Selection
+              </button>
+            )}
+            <button className="reject-button" onClick={handleRejectAll}>Discard</button>
+          </div>
         </div>
-      </div>
+      ) : (
+        <div className="suggestion-actions">
+          {!showIssues && (
+            <button
+              className="apply-button"
+              disabled={streaming || selectedIndex < 0}
+              onClick={handleApply}
+            >
+              Apply Selected
+            </button>
+          )}
+          <div className="action-buttons">
+            <button className="apply-all-button" disabled={streaming} onClick={handleApplyAll}>Apply All</button>
+            <button className="reject-button" onClick={handleRejectAll}>Reject</button>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
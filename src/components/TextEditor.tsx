@@ -1,4 +1,4 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
+import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import { Editor } from '@monaco-editor/react'; // Removed loader import
 import { useEditor } from '../context/EditorContext';
 import useTextSelection from '../hooks/useTextSelection';
@@ -7,13 +7,161 @@ import { useSettings } from '../context/SettingsContext';
 import { useTheme } from '../context/ThemeContext';
 import ContextMenu from './ContextMenu';
 import SuggestionPanel from './SuggestionPanel';
+import IssuesPanel from './IssuesPanel';
+import ChatPanel from './ChatPanel';
 import '../styles/TextEditor.css';
 import { configureMonaco } from '../services/MonacoConfig';
+import LLMProcessor from '../services/LLMProcessor';
+import IPCBridge from '../services/IPCBridge';
+import { GrammarLinter } from '../services/GrammarLinter';
+import { InlineCompleter } from '../services/InlineCompleter';
+import { CustomStyle, GrammarIssue, IgnoreRule, SummaryFormat, TextOperation, UserDictionary } from '../interfaces/types';
+import { IpcChannels, REPHRASE_STYLES, SUPPORTED_LANGUAGES, LANGUAGE_NAMES } from '../interfaces/constants';
 
 // Configure Monaco Editor ONCE - this replaces all the old configuration
 configureMonaco();
 
-interface TextEditorProps {}
+// Operations whose results share the suggestion panel, the requests the editor follows and cancels
+const EDITOR_OPERATIONS = ['grammar-check', 'rephrase', 'translate', 'summarize', 'expand', 'outline'];
+
+interface TextEditorProps {
+  // Path of the open file, undefined while it is unsaved
+  filePath?: string;
+}
+
+// Helper method to remove editor decorations, returns the emptied id list
+const clearDecorations = (editor: any, decorationIds: string[]): string[] => {
+  if (editor && decorationIds.length > 0) {
+    editor.deltaDecorations(decorationIds, []);
+  }
+  return [];
+};
+
+// Helper method to highlight grammar issues, returns the decoration ids in issue order
+// Decorations track their range as the user keeps typing
+const decorateIssues = (editor: any, monaco: any, issues: GrammarIssue[], baseOffset: number): string[] => {
+  const model = editor.getModel();
+  
+  return editor.deltaDecorations([], issues.map(issue => {
+    const startPos = model.getPositionAt(baseOffset + issue.offset);
+    const endPos = model.getPositionAt(baseOffset + issue.offset + issue.length);
+    
+    return {
+      range: new monaco.Range(startPos.lineNumber, startPos.column, endPos.lineNumber, endPos.column),
+      options: {
+        className: 'grammar-issue-highlight',
+        hoverMessage: { value: issue.explanation || issue.category },
+        stickiness: monaco.editor.TrackedRangeStickiness.NeverGrowsWhenTypingAtEdges
+      }
+    };
+  }));
+};
+
+// Helper method to replace the highlighted spans of the given issues with their fixes
+// Skips fixes whose text was changed since the check
+const applyIssueFixes = (editor: any, issues: GrammarIssue[], decorationIds: string[], indexes: number[]) => {
+  const model = editor.getModel();
+  const edits: Array<{ range: any; text: string }> = [];
+  
+  indexes.forEach(index => {
+    const range = model.getDecorationRange(decorationIds[index]);
+    
+    if (range && model.getValueInRange(range) === issues[index].original) {
+      edits.push({ range, text: issues[index].replacement });
+    }
+  });
+  
+  if (edits.length > 0) {
+    editor.executeEdits('grammar-fix', edits);
+  }
+};
+
+// Helper method to remove the decorations at the given indexes, returns the ids that are kept
+const removeDecorations = (editor: any, decorationIds: string[], indexes: number[]): string[] => {
+  editor.deltaDecorations(decorationIds.filter((_, index) => indexes.includes(index)), []);
+  return decorationIds.filter((_, index) => !indexes.includes(index));
+};
+
+// Helper method to list the built-in rephrase styles followed by the user's own
+const getRephraseStyles = (customStyles: CustomStyle[] = []): Array<{ id: string; label: string }> => [
+  ...REPHRASE_STYLES.map(id => ({ id, label: id.charAt(0).toUpperCase() + id.slice(1) })),
+  ...customStyles.map(style => ({ id: style.id, label: style.label }))
+];
+
+// Helper method to add a command palette action per rephrase style, returns the registrations
+const registerStyleActions = (
+  editor: any,
+  styles: Array<{ id: string; label: string }>,
+  run: (styleId: string) => void
+): Array<{ dispose: () => void }> => styles.map(style => editor.addAction({
+  id: `ai.rephrase.${style.id}`,
+  label: `AI: Rephrase (${style.label})`,
+  precondition: 'editorHasSelection',
+  run: () => run(style.id)
+}));
+
+// Helper method to put a translation below the translated text or in its place
+const insertTranslation = (editor: any, start: number, end: number, translation: string, mode: string) => {
+  const model = editor.getModel();
+  const startPos = model.getPositionAt(start);
+  const endPos = model.getPositionAt(end);
+  
+  if (mode === 'replace') {
+    editor.executeEdits('translate', [{
+      range: {
+        startLineNumber: startPos.lineNumber,
+        startColumn: startPos.column,
+        endLineNumber: endPos.lineNumber,
+        endColumn: endPos.column
+      },
+      text: translation
+    }]);
+    return;
+  }
+  
+  // A selection of whole lines ends at the start of the next line
+  const lineNumber = endPos.column === 1 && endPos.lineNumber > startPos.lineNumber
+    ? endPos.lineNumber - 1
+    : endPos.lineNumber;
+  const column = model.getLineMaxColumn(lineNumber);
+  
+  editor.executeEdits('translate', [{
+    range: { startLineNumber: lineNumber, startColumn: column, endLineNumber: lineNumber, endColumn: column },
+    text: `\n\n${translation}`
+  }]);
+};
+
+// Panel headings of the operations that generate text for insertion
+const GENERATED_TITLES: Record<TextOperation, string> = {
+  summarize: 'Summary',
+  expand: 'Expanded Text',
+  outline: 'Outline'
+};
+
+// Helper method to insert generated text at the cursor, or after the selection when there is one
+// Text that would run on from the line it lands on starts a new paragraph instead
+const insertAtCursor = (editor: any, text: string) => {
+  const position = editor.getSelection().getEndPosition();
+  const before = editor.getModel().getLineContent(position.lineNumber).slice(0, position.column - 1);
+  
+  editor.executeEdits('generate', [{
+    range: {
+      startLineNumber: position.lineNumber,
+      startColumn: position.column,
+      endLineNumber: position.lineNumber,
+      endColumn: position.column
+    },
+    text: before.trim() ? `\n\n${text}` : text
+  }]);
+  editor.focus();
+};
+
+// Generated text shown in the suggestions panel
+interface GeneratedResult {
+  title: string;
+  // Whether the text came from a selection it may replace
+  canReplace: boolean;
+}
 
 interface EditorState {
   contextMenu: {
@@ -32,6 +180,17 @@ interface EditorState {
       x: number;
       y: number;
     };
+    streaming: boolean;
+    issues?: GrammarIssue[];
+    // Set when the panel shows generated text rather than suggestions
+    generated?: GeneratedResult;
+    // Provider that answered
+    provider?: string;
+  };
+  documentIssues: {
+    visible: boolean;
+    items: GrammarIssue[];
+    activeIndex: number;
   };
   findReplace: {
     visible: boolean;
@@ -40,11 +199,25 @@ interface EditorState {
     matchCase: boolean;
     useRegex: boolean;
   };
+  chatOpen: boolean;
 }
 
-const TextEditor: React.FC<TextEditorProps> = () => {
+const TextEditor: React.FC<TextEditorProps> = ({ filePath }) => {
   const editorRef = useRef<any>(null);
   const monacoRef = useRef<any>(null);
+  const linterRef = useRef<GrammarLinter | null>(null);
+  const completerRef = useRef<InlineCompleter | null>(null);
+  // Command palette actions of the rephrase styles, and the latest rephrase handler they call
+  const styleActionsRef = useRef<Array<{ dispose: () => void }>>([]);
+  const rephraseRef = useRef<(style?: string) => void>(() => {});
+  // Latest autocomplete toggle, called from the command palette action
+  const toggleAutocompleteRef = useRef<() => void>(() => {});
+  // Panel settings of the text being generated, so streamed output gets the right heading
+  const generatingRef = useRef<GeneratedResult | null>(null);
+  // Decoration ids of the highlighted grammar issues, aligned with state.suggestions.issues
+  const issueDecorationsRef = useRef<string[]>([]);
+  // Decoration ids of the whole-document issues, aligned with state.documentIssues.items
+  const documentDecorationsRef = useRef<string[]>([]);
   const [state, setState] = useState<EditorState>({
     contextMenu: {
       visible: false,
@@ -57,7 +230,13 @@ const TextEditor: React.FC<TextEditorProps> = () => {
       position: {
         x: 0,
         y: 0
-      }
+      },
+      streaming: false
+    },
+    documentIssues: {
+      visible: false,
+      items: [],
+      activeIndex: -1
     },
     findReplace: {
       visible: false,
@@ -65,14 +244,27 @@ const TextEditor: React.FC<TextEditorProps> = () => {
       replaceText: '',
       matchCase: false,
       useRegex: false
-    }
+    },
+    chatOpen: false
   });
   
   const { content, setContent, selection, setSelection } = useEditor();
   const { selectText, clearSelection } = useTextSelection();
-  const { checkGrammar, rephraseText, isProcessing } = useLLM();
-  const { settings } = useSettings();
+  const {
+    checkGrammar,
+    rephraseText,
+    translateText,
+    generateText,
+    explainSuggestion,
+    processBatch,
+    cancelRequest,
+    isProcessing,
+    batchProgress,
+    streamingSuggestions
+  } = useLLM(EDITOR_OPERATIONS);
+  const { settings, saveSettings } = useSettings();
   const { theme } = useTheme();
+  const rephraseStyles = useMemo(() => getRephraseStyles(settings.customStyles), [settings.customStyles]);
   
   // S1: Handle editor initialization
   // Sets up the Monaco editor when it's mounted
@@ -90,6 +282,13 @@ const TextEditor: React.FC<TextEditorProps> = () => {
     
     // Set up event listeners
     setupEditorEvents(editor, monaco);
+    
+    // List the rephrase styles in the command palette (F1)
+    styleActionsRef.current = registerStyleActions(editor, rephraseStyles, styleId => rephraseRef.current(styleId));
+    
+    // Attach background grammar linting (opt-in)
+    linterRef.current = new GrammarLinter(editor, monaco);
+    linterRef.current.setEnabled(!!settings.liveGrammarCheck, settings.defaultLanguage);
   };
   
   // S2: Configure editor settings
@@ -120,7 +319,7 @@ const TextEditor: React.FC<TextEditorProps> = () => {
     // Handle selection changes
     editor.onDidChangeCursorSelection((e: any) => {
       const selectionObj = e.selection;
-      if (selectionObj.startLineNumber === selectionObj.endLineNumber && 
+      if (selectionObj.startLineNumber === selectionObj.endLineNumber &&
           selectionObj.startColumn === selectionObj.endColumn) {
         // No actual selection, just cursor position
         clearSelection();
@@ -180,6 +379,17 @@ const TextEditor: React.FC<TextEditorProps> = () => {
         }
       }));
     });
+    
+    // Offer continuations as ghost text after typing pauses (opt-in); Tab accepts, Escape dismisses
+    completerRef.current = new InlineCompleter(editor, monaco);
+    completerRef.current.setEnabled(!!settings.inlineCompletion, settings.inlineCompletionDelay);
+    
+    // Command palette entry to turn autocomplete on or off
+    editor.addAction({
+      id: 'ai.toggle-autocomplete',
+      label: 'AI: Toggle Inline Autocomplete',
+      run: () => toggleAutocompleteRef.current()
+    });
   };
   
   // S4: Handle content changes
@@ -285,29 +495,114 @@ const TextEditor: React.FC<TextEditorProps> = () => {
     findController.replaceAll();
   };
   
+  // S20: Handle document grammar check
+  // Checks the whole document in chunks and lists the issues at their document offsets
+  const handleDocumentCheck = useCallback(async () => {
+    if (!editorRef.current || !monacoRef.current) return;
+    
+    const editor = editorRef.current;
+    const model = editor.getModel();
+    const chunks = LLMProcessor.splitIntoChunks(model.getValue());
+    
+    if (chunks.length === 0) {
+      alert('The document is empty');
+      return;
+    }
+    
+    try {
+      const responses = await processBatch(
+        chunks.map(chunk => chunk.text),
+        'grammar-check',
+        { language: settings.defaultLanguage }
+      );
+      
+      const failed = responses.filter(response => response.error);
+      if (failed.length === responses.length) {
+        throw new Error(failed[0].error);
+      }
+      
+      // Map chunk offsets back to the document, dropping issues whose text changed during the pass
+      const issues: GrammarIssue[] = [];
+      responses.forEach((response, index) => {
+        (response.issues || []).forEach(issue => {
+          const offset = chunks[index].offset + issue.offset;
+          const startPos = model.getPositionAt(offset);
+          const endPos = model.getPositionAt(offset + issue.length);
+          const current = model.getValueInRange({
+            startLineNumber: startPos.lineNumber,
+            startColumn: startPos.column,
+            endLineNumber: endPos.lineNumber,
+            endColumn: endPos.column
+          });
+          
+          if (current === issue.original) {
+            issues.push({ ...issue, offset });
+          }
+        });
+      });
+      
+      documentDecorationsRef.current = clearDecorations(editor, documentDecorationsRef.current);
+      documentDecorationsRef.current = decorateIssues(editor, monacoRef.current, issues, 0);
+      
+      setState(prev => ({
+        ...prev,
+        documentIssues: {
+          visible: issues.length > 0,
+          items: issues,
+          activeIndex: -1
+        }
+      }));
+      
+      if (failed.length > 0) {
+        alert(`${failed.length} of ${responses.length} parts of the document could not be checked: ${failed[0].error}`);
+      } else if (issues.length === 0) {
+        alert('No grammar issues found');
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      if (LLMProcessor.isCancelled(errorMessage)) return;
+      
+      console.error('Document grammar check error:', error);
+      alert(`Error checking document: ${errorMessage}`);
+    }
+  }, [processBatch, settings.defaultLanguage]);
+  
   // S12: Handle grammar check
   // Processes grammar check request for selected text
   const handleGrammarCheck = useCallback(async () => {
     if (!selection || !selection.text) {
-      alert('Please select text to check grammar');
+      // Without a selection the whole document is the natural target
+      if (window.confirm('No text is selected. Check the entire document?')) {
+        await handleDocumentCheck();
+      }
       return;
     }
 
     try {
-      const response = await checkGrammar(selection.text);
+      const response = await checkGrammar(selection.text, settings.defaultLanguage);
 
-      if (response.suggestions && response.suggestions.length > 0) {
+      if (LLMProcessor.isCancelled(response.error)) {
+        hideSuggestions();
+      } else if (response.issues && response.issues.length > 0) {
+        // Highlight each issue so it can be accepted on its own
+        highlightIssues(response.issues, selection.start);
+        showSuggestions([], false, response.issues, undefined, response.provider);
+      } else if (response.suggestions && response.suggestions.length > 0) {
         // Show suggestions panel
-        showSuggestions(response.suggestions);
+        showSuggestions(response.suggestions, false, undefined, undefined, response.provider);
       } else {
+        hideSuggestions();
         alert('No grammar issues found');
       }
     } catch (error) {
-      console.error('Grammar check error:', error);
+      hideSuggestions();
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      if (LLMProcessor.isCancelled(errorMessage)) return;
+      
+      console.error('Grammar check error:', error);
       alert(`Error checking grammar: ${errorMessage}`);
     }
-  }, [selection, checkGrammar]);
+  }, [selection, checkGrammar, handleDocumentCheck, settings.defaultLanguage]);
   
   // S13: Handle text rephrasing
   // Processes rephrasing request for selected text
@@ -320,22 +615,126 @@ const TextEditor: React.FC<TextEditorProps> = () => {
     try {
       const response = await rephraseText(selection.text, style || 'formal');
 
-      if (response.suggestions && response.suggestions.length > 0) {
+      if (LLMProcessor.isCancelled(response.error)) {
+        hideSuggestions();
+      } else if (response.suggestions && response.suggestions.length > 0) {
         // Show suggestions panel
-        showSuggestions(response.suggestions);
+        showSuggestions(response.suggestions, false, undefined, undefined, response.provider);
       } else {
+        hideSuggestions();
         alert('No rephrasing suggestions available');
       }
     } catch (error) {
-      console.error('Rephrasing error:', error);
+      hideSuggestions();
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      if (LLMProcessor.isCancelled(errorMessage)) return;
+      
+      console.error('Rephrasing error:', error);
       alert(`Error rephrasing text: ${errorMessage}`);
     }
   }, [selection, rephraseText]);
+  rephraseRef.current = handleRephrase;
+  
+  // S24: Handle translation
+  // Translates the selected text and inserts it below the original or in its place, as set in Settings
+  const handleTranslate = useCallback(async (targetLanguage: string) => {
+    if (!selection || !selection.text) {
+      alert('Please select text to translate');
+      return;
+    }
+    
+    try {
+      const response = await translateText(selection.text, targetLanguage);
+      hideSuggestions();
+      
+      if (LLMProcessor.isCancelled(response.error)) return;
+      
+      if (response.suggestions && response.suggestions.length > 0 && editorRef.current) {
+        insertTranslation(
+          editorRef.current,
+          selection.start,
+          selection.end,
+          response.suggestions[0].text,
+          settings.translationInsertMode
+        );
+      } else {
+        alert(`Error translating text: ${response.error || 'No translation returned'}`);
+      }
+    } catch (error) {
+      hideSuggestions();
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      if (LLMProcessor.isCancelled(errorMessage)) return;
+      
+      console.error('Translation error:', error);
+      alert(`Error translating text: ${errorMessage}`);
+    }
+  }, [selection, translateText, settings.translationInsertMode]);
+  
+  // S25: Handle generated text
+  // Summarizes, expands or outlines the selection, or the whole document when nothing is selected
+  const handleGenerateText = useCallback(async (operation: TextOperation, format: SummaryFormat = 'bullets') => {
+    const hasSelection = !!selection && !!selection.text;
+    const text = hasSelection ? selection!.text : content;
+    
+    if (!text.trim()) {
+      alert('There is no text to work with');
+      return;
+    }
+    
+    generatingRef.current = { title: GENERATED_TITLES[operation], canReplace: hasSelection };
+    
+    try {
+      const response = await generateText(operation, text, {
+        format,
+        targetLength: settings.summaryLength || undefined
+      });
+      
+      if (LLMProcessor.isCancelled(response.error)) {
+        hideSuggestions();
+      } else if (response.suggestions && response.suggestions.length > 0) {
+        showSuggestions(response.suggestions, false, undefined, generatingRef.current, response.provider);
+      } else {
+        hideSuggestions();
+        alert(`Error generating text: ${response.error || 'No text returned'}`);
+      }
+    } catch (error) {
+      hideSuggestions();
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      if (LLMProcessor.isCancelled(errorMessage)) return;
+      
+      console.error('Text generation error:', error);
+      alert(`Error generating text: ${errorMessage}`);
+    } finally {
+      generatingRef.current = null;
+    }
+  }, [selection, content, generateText, settings.summaryLength]);
+  
+  // S27: Toggle inline autocomplete
+  // Turns ghost text continuations on or off and saves the setting
+  const handleToggleAutocomplete = useCallback(async () => {
+    try {
+      await saveSettings({ ...settings, inlineCompletion: !settings.inlineCompletion });
+    } catch (error) {
+      console.error('Error toggling inline autocomplete:', error);
+    }
+  }, [settings, saveSettings]);
+  toggleAutocompleteRef.current = handleToggleAutocomplete;
+  
+  // S28: Toggle chat panel
+  // Expands or collapses the chat sidebar
+  const toggleChat = useCallback(() => {
+    setState(prev => ({ ...prev, chatOpen: !prev.chatOpen }));
+  }, []);
   
   // S14: Show suggestions panel
   // Displays the suggestions panel with provided items
-  const showSuggestions = (suggestions: Array<{ text: string; confidence: number; type: string }>) => {
+  const showSuggestions = (
+    suggestions: Array<{ text: string; confidence: number; type: string }>,
+    streaming: boolean = false,
+    issues?: GrammarIssue[],
+    generated?: GeneratedResult,
+    provider?: string
+  ) => {
     if (!editorRef.current) return;
     
     const editor = editorRef.current;
@@ -368,7 +767,12 @@ const TextEditor: React.FC<TextEditorProps> = () => {
       suggestions: {
         visible: true,
         items: suggestions,
-        position: { x, y }
+        // Keep the panel still while a stream is filling it in
+        position: prev.suggestions.visible && prev.suggestions.streaming ? prev.suggestions.position : { x, y },
+        streaming,
+        issues,
+        generated,
+        provider
       },
       contextMenu: {
         ...prev.contextMenu,
@@ -377,6 +781,31 @@ const TextEditor: React.FC<TextEditorProps> = () => {
     }));
   };
   
+  // Hide suggestions panel
+  const hideSuggestions = () => {
+    issueDecorationsRef.current = clearDecorations(editorRef.current, issueDecorationsRef.current);
+    
+    setState(prev => ({
+      ...prev,
+      suggestions: {
+        ...prev.suggestions,
+        visible: false,
+        streaming: false,
+        issues: undefined,
+        generated: undefined
+      }
+    }));
+  };
+  
+  // Highlight grammar issues
+  // Decorates the span of each issue so it can be fixed on its own
+  const highlightIssues = (issues: GrammarIssue[], baseOffset: number) => {
+    if (!editorRef.current || !monacoRef.current) return;
+    
+    clearDecorations(editorRef.current, issueDecorationsRef.current);
+    issueDecorationsRef.current = decorateIssues(editorRef.current, monacoRef.current, issues, baseOffset);
+  };
+  
   // S15: Hide context menu
   // Hides the context menu
   const hideContextMenu = () => {
@@ -398,20 +827,27 @@ const TextEditor: React.FC<TextEditorProps> = () => {
       case 'check-grammar':
         await handleGrammarCheck();
         break;
+      case 'check-document':
+        await handleDocumentCheck();
+        break;
       case 'rephrase-text':
         await handleRephrase();
         break;
-      case 'rephrase-formal':
-        await handleRephrase('formal');
+      case 'translate-text':
+        await handleTranslate(settings.defaultLanguage);
+        break;
+      case 'summarize-text':
+      case 'summarize-bullets':
+        await handleGenerateText('summarize', 'bullets');
         break;
-      case 'rephrase-casual':
-        await handleRephrase('casual');
+      case 'summarize-paragraph':
+        await handleGenerateText('summarize', 'paragraph');
         break;
-      case 'rephrase-concise':
-        await handleRephrase('concise');
+      case 'expand-text':
+        await handleGenerateText('expand');
         break;
-      case 'rephrase-detailed':
-        await handleRephrase('detailed');
+      case 'outline-text':
+        await handleGenerateText('outline');
         break;
       case 'cut':
         document.execCommand('cut');
@@ -423,6 +859,13 @@ const TextEditor: React.FC<TextEditorProps> = () => {
         document.execCommand('paste');
         break;
       default:
+        // Style items are "rephrase-<style id>"
+        if (itemId.startsWith('rephrase-')) {
+          await handleRephrase(itemId.slice('rephrase-'.length));
+        } else if (itemId.startsWith('translate-')) {
+          // Translate items are "translate-<language code>"
+          await handleTranslate(itemId.slice('translate-'.length));
+        }
         break;
     }
   };
@@ -436,15 +879,245 @@ const TextEditor: React.FC<TextEditorProps> = () => {
     replaceText(selection.start, selection.end, suggestion.text);
     
     // Hide suggestions panel
+    hideSuggestions();
+  };
+  
+  // S26: Insert generated text
+  // Inserts generated text at the cursor, leaving the selection in place
+  const insertGenerated = (suggestion: { text: string; confidence: number; type: string }) => {
+    if (!editorRef.current) return;
+    
+    insertAtCursor(editorRef.current, suggestion.text);
+    hideSuggestions();
+  };
+  
+  // S29: Insert chat reply
+  // Inserts an assistant message at the cursor
+  const insertChatReply = (text: string) => {
+    if (!editorRef.current) return;
+    
+    insertAtCursor(editorRef.current, text);
+  };
+  
+  // S30: Replace selection with chat reply
+  // Puts an assistant message in place of the selected text
+  const replaceWithChatReply = (text: string) => {
+    if (!selection || !selection.text) return;
+    
+    replaceText(selection.start, selection.end, text);
+  };
+  
+  // S18: Apply grammar issues
+  // Replaces the highlighted spans of the given issues with their fixes
+  const applyIssues = (indexes: number[], replacement?: string) => {
+    const issues = state.suggestions.issues;
+    if (!editorRef.current || !issues) return;
+    
+    // A replacement picked from the alternatives stands in for the suggested one
+    const chosen = replacement === undefined
+      ? issues
+      : issues.map((issue, index) => indexes.includes(index) ? { ...issue, replacement } : issue);
+    
+    applyIssueFixes(editorRef.current, chosen, issueDecorationsRef.current, indexes);
+    removeIssues(indexes);
+  };
+  
+  // S19: Remove grammar issues
+  // Drops issues from the panel along with their highlights
+  const removeIssues = (indexes: number[]) => {
+    const issues = state.suggestions.issues;
+    if (!editorRef.current || !issues) return;
+    
+    issueDecorationsRef.current = removeDecorations(editorRef.current, issueDecorationsRef.current, indexes);
+    
+    const remaining = issues.filter((_, index) => !indexes.includes(index));
+    if (remaining.length === 0) {
+      hideSuggestions();
+      return;
+    }
+    
     setState(prev => ({
       ...prev,
       suggestions: {
         ...prev.suggestions,
-        visible: false
+        issues: remaining
+      }
+    }));
+  };
+  
+  // S31: Remember grammar issue
+  // Adds an issue's word to the user dictionary, or an ignore rule for its text and category,
+  // then drops every issue in the panel the updated dictionary covers
+  const rememberIssue = async (index: number, addWord: boolean) => {
+    const issues = state.suggestions.issues;
+    if (!issues || !issues[index]) return;
+    
+    const issue = issues[index];
+    const scope = settings.dictionaryScope || 'global';
+    
+    try {
+      if (addWord) {
+        await IPCBridge.invoke<UserDictionary>(IpcChannels.DICTIONARY_ADD_WORD, { scope, word: issue.original.trim() });
+      } else {
+        const rule: IgnoreRule = { pattern: issue.original.trim(), regex: false, category: issue.category };
+        await IPCBridge.invoke<UserDictionary>(IpcChannels.DICTIONARY_ADD_IGNORE, { scope, rule });
+      }
+      
+      removeIssues(await IPCBridge.invoke<number[]>(IpcChannels.DICTIONARY_FILTER, { issues }));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error updating the user dictionary:', error);
+      alert(`Error updating the dictionary: ${errorMessage}`);
+    }
+  };
+  
+  // S21: Go to document issue
+  // Selects the span of an issue from the issues list and scrolls it into view
+  const goToDocumentIssue = (index: number) => {
+    if (!editorRef.current) return;
+    
+    const range = editorRef.current.getModel().getDecorationRange(documentDecorationsRef.current[index]);
+    if (range) {
+      editorRef.current.setSelection(range);
+      editorRef.current.revealRangeInCenterIfOutsideViewport(range);
+      editorRef.current.focus();
+    }
+    
+    setState(prev => ({
+      ...prev,
+      documentIssues: {
+        ...prev.documentIssues,
+        activeIndex: index
+      }
+    }));
+  };
+  
+  // S22: Apply document issues
+  // Fixes the given issues from the issues list
+  const applyDocumentIssues = (indexes: number[]) => {
+    if (!editorRef.current) return;
+    
+    applyIssueFixes(editorRef.current, state.documentIssues.items, documentDecorationsRef.current, indexes);
+    removeDocumentIssues(indexes);
+  };
+  
+  // S23: Remove document issues
+  // Drops issues from the issues list along with their highlights
+  const removeDocumentIssues = (indexes: number[]) => {
+    if (!editorRef.current) return;
+    
+    documentDecorationsRef.current = removeDecorations(editorRef.current, documentDecorationsRef.current, indexes);
+    
+    setState(prev => {
+      const remaining = prev.documentIssues.items.filter((_, index) => !indexes.includes(index));
+      
+      return {
+        ...prev,
+        documentIssues: {
+          visible: remaining.length > 0,
+          items: remaining,
+          activeIndex: Math.min(prev.documentIssues.activeIndex, remaining.length - 1)
+        }
+      };
+    });
+  };
+  
+  // Hide the issues list and its highlights
+  const hideDocumentIssues = () => {
+    documentDecorationsRef.current = clearDecorations(editorRef.current, documentDecorationsRef.current);
+    
+    setState(prev => ({
+      ...prev,
+      documentIssues: {
+        visible: false,
+        items: [],
+        activeIndex: -1
       }
     }));
   };
   
+  // Helper method to find where a document issue currently starts
+  const getDocumentIssueLocation = (index: number) => {
+    const range = editorRef.current?.getModel()?.getDecorationRange(documentDecorationsRef.current[index]);
+    
+    return range
+      ? { line: range.startLineNumber, column: range.startColumn }
+      : { line: 0, column: 0 };
+  };
+  
+  // Show partial suggestions as they stream in
+  useEffect(() => {
+    if (isProcessing && streamingSuggestions.length > 0) {
+      showSuggestions(
+        streamingSuggestions.map(text => ({ text, confidence: 0, type: 'streaming' })),
+        true,
+        undefined,
+        generatingRef.current || undefined
+      );
+    }
+  }, [isProcessing, streamingSuggestions]);
+  
+  // Cancel the AI request in flight with Escape
+  useEffect(() => {
+    if (!isProcessing) return;
+    
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        cancelRequest();
+      }
+    };
+    
+    // Capture phase so the editor can't swallow the key first
+    window.addEventListener('keydown', handleKeyDown, true);
+    
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown, true);
+    };
+  }, [isProcessing, cancelRequest]);
+  
+  // Follow the live grammar check setting
+  useEffect(() => {
+    linterRef.current?.setEnabled(!!settings.liveGrammarCheck, settings.defaultLanguage);
+  }, [settings.liveGrammarCheck, settings.defaultLanguage]);
+  
+  // Follow the inline autocomplete settings
+  useEffect(() => {
+    completerRef.current?.setEnabled(!!settings.inlineCompletion, settings.inlineCompletionDelay);
+  }, [settings.inlineCompletion, settings.inlineCompletionDelay]);
+  
+  // Hold background linting and autocomplete back while an AI request is in flight
+  useEffect(() => {
+    linterRef.current?.setPaused(isProcessing);
+    completerRef.current?.setPaused(isProcessing);
+  }, [isProcessing]);
+  
+  // Re-register the command palette actions when the style list changes
+  useEffect(() => {
+    if (editorRef.current) {
+      styleActionsRef.current = registerStyleActions(
+        editorRef.current,
+        rephraseStyles,
+        styleId => rephraseRef.current(styleId)
+      );
+    }
+    
+    return () => {
+      styleActionsRef.current.forEach(action => action.dispose());
+      styleActionsRef.current = [];
+    };
+  }, [rephraseStyles]);
+  
+  // Detach the linter and the completer when the editor goes away
+  useEffect(() => {
+    return () => {
+      linterRef.current?.dispose();
+      linterRef.current = null;
+      completerRef.current?.dispose();
+      completerRef.current = null;
+    };
+  }, []);
+  
   // Update editor theme when app theme changes
   useEffect(() => {
     if (editorRef.current && monacoRef.current) {
@@ -477,201 +1150,278 @@ const TextEditor: React.FC<TextEditorProps> = () => {
         }));
       }),
       window.electronAPI.on('ai:check-grammar', handleGrammarCheck),
-      window.electronAPI.on('ai:rephrase-text', handleRephrase)
+      window.electronAPI.on('ai:check-document', handleDocumentCheck),
+      window.electronAPI.on('ai:rephrase-text', handleRephrase),
+      window.electronAPI.on('ai:translate-text', handleTranslate),
+      window.electronAPI.on('ai:summarize-text', (format: SummaryFormat) => handleGenerateText('summarize', format)),
+      window.electronAPI.on('ai:expand-text', () => handleGenerateText('expand')),
+      window.electronAPI.on('ai:outline-text', () => handleGenerateText('outline')),
+      window.electronAPI.on('ai:toggle-autocomplete', handleToggleAutocomplete),
+      window.electronAPI.on('ai:toggle-chat', toggleChat)
     ];
     
     return () => {
       // Clean up listeners
       removeListeners.forEach(removeListener => removeListener());
     };
-  }, [selection, handleGrammarCheck, handleRephrase]);
+  }, [selection, handleGrammarCheck, handleDocumentCheck, handleRephrase, handleTranslate, handleGenerateText,
+    handleToggleAutocomplete, toggleChat]);
   
   return (
     <div className="text-editor-container">
-      <Editor
-        height="100%"
-        defaultLanguage="plaintext"
-        theme={theme === 'dark' ? 'vs-dark' : 'vs'}
-        value={content}
-        onChange={onChange}
-        onMount={handleEditorDidMount}
-        loading={<div className="editor-loading">Loading editor...</div>}
-        options={{
-          fontSize: settings.fontSize,
-          wordWrap: settings.wordWrap ? 'on' : 'off',
-          minimap: { enabled: true },
-          lineNumbers: 'on',
-          scrollBeyondLastLine: false,
-          automaticLayout: true,
-          contextmenu: false // We'll use our custom context menu
-        }}
-      />
-      
-      {state.contextMenu.visible && (
-        <ContextMenu
-          x={state.contextMenu.x}
-          y={state.contextMenu.y}
-          items={[
-            { id: 'cut', label: 'Cut', enabled: true },
-            { id: 'copy', label: 'Copy', enabled: true },
-            { id: 'paste', label: 'Paste', enabled: true },
-            { type: 'separator' },
-            { id: 'check-grammar', label: 'Check Grammar', enabled: true },
-            {
-              id: 'rephrase-text',
-              label: 'Rephrase Text',
-              enabled: true,
-              submenu: [
-                { id: 'rephrase-formal', label: 'Formal', enabled: true },
-                { id: 'rephrase-casual', label: 'Casual', enabled: true },
-                { id: 'rephrase-concise', label: 'Concise', enabled: true },
-                { id: 'rephrase-detailed', label: 'Detailed', enabled: true }
-              ]
-            }
-          ]}
-          onItemClick={handleContextMenuItemClick}
-          onClose={hideContextMenu}
-        />
-      )}
-      
-      {state.suggestions.visible && (
-        <SuggestionPanel
-          suggestions={state.suggestions.items}
-          position={state.suggestions.position}
-          onApply={applySuggestion}
-          onClose={() => {
-            setState(prev => ({
-              ...prev,
-              suggestions: {
-                ...prev.suggestions,
-                visible: false
-              }
-            }));
+      <div className="text-editor-main">
+        <Editor
+          height="100%"
+          defaultLanguage="plaintext"
+          theme={theme === 'dark' ? 'vs-dark' : 'vs'}
+          value={content}
+          onChange={onChange}
+          onMount={handleEditorDidMount}
+          loading={<div className="editor-loading">Loading editor...</div>}
+          options={{
+            fontSize: settings.fontSize,
+            wordWrap: settings.wordWrap ? 'on' : 'off',
+            minimap: { enabled: true },
+            lineNumbers: 'on',
+            scrollBeyondLastLine: false,
+            automaticLayout: true,
+            contextmenu: false // We'll use our custom context menu
           }}
         />
-      )}
       
-      {state.findReplace.visible && (
-        <div className="find-replace-panel">
-          <div className="find-replace-header">
-            <h3>Find & Replace</h3>
-            <button
-              onClick={() => {
-                setState(prev => ({
-                  ...prev,
-                  findReplace: {
-                    ...prev.findReplace,
-                    visible: false
-                  }
-                }));
-              }}
-            >
-              ✕
-            </button>
-          </div>
-          <div className="find-replace-content">
-            <div className="find-replace-row">
-              <label htmlFor="find-text">Find:</label>
-              <input
-                id="find-text"
-                type="text"
-                value={state.findReplace.searchText}
-                onChange={(e) => {
-                  setState(prev => ({
-                    ...prev,
-                    findReplace: {
-                      ...prev.findReplace,
-                      searchText: e.target.value
-                    }
-                  }));
-                }}
-              />
+        {state.contextMenu.visible && (
+          <ContextMenu
+            x={state.contextMenu.x}
+            y={state.contextMenu.y}
+            items={[
+              { id: 'cut', label: 'Cut', enabled: true },
+              { id: 'copy', label: 'Copy', enabled: true },
+              { id: 'paste', label: 'Paste', enabled: true },
+              { type: 'separator' },
+              { id: 'check-grammar', label: 'Check Grammar', enabled: true },
+              { id: 'check-document', label: 'Check Entire Document', enabled: true },
+              {
+                id: 'rephrase-text',
+                label: 'Rephrase Text',
+                enabled: true,
+                submenu: rephraseStyles.map(style => ({
+                  id: `rephrase-${style.id}`,
+                  label: style.label,
+                  enabled: true
+                }))
+              },
+              {
+                id: 'translate-text',
+                label: 'Translate To...',
+                enabled: true,
+                submenu: SUPPORTED_LANGUAGES.map(language => ({
+                  id: `translate-${language}`,
+                  label: LANGUAGE_NAMES[language] || language,
+                  enabled: true
+                }))
+              },
+              { type: 'separator' },
+              {
+                id: 'summarize-text',
+                label: 'Summarize',
+                enabled: true,
+                submenu: [
+                  { id: 'summarize-bullets', label: 'Bullet Points', enabled: true },
+                  { id: 'summarize-paragraph', label: 'Paragraph', enabled: true }
+                ]
+              },
+              { id: 'expand-text', label: 'Expand into Prose', enabled: true },
+              { id: 'outline-text', label: 'Generate Outline', enabled: true }
+            ]}
+            onItemClick={handleContextMenuItemClick}
+            onClose={hideContextMenu}
+          />
+        )}
+      
+        {state.suggestions.visible && (
+          <SuggestionPanel
+            suggestions={state.suggestions.items}
+            position={state.suggestions.position}
+            streaming={state.suggestions.streaming}
+            issues={state.suggestions.issues}
+            title={state.suggestions.generated?.title}
+            canReplace={state.suggestions.generated?.canReplace}
+            original={selection ? selection.text : undefined}
+            fallbackProvider={state.suggestions.provider !== settings.llmProvider ? state.suggestions.provider : undefined}
+            onApply={applySuggestion}
+            onInsert={state.suggestions.generated ? insertGenerated : undefined}
+            onAcceptIssue={(index, replacement) => applyIssues([index], replacement)}
+            onDismissIssue={index => removeIssues([index])}
+            onAddToDictionary={index => rememberIssue(index, true)}
+            onIgnoreIssue={index => rememberIssue(index, false)}
+            onApplyAll={state.suggestions.issues
+              ? () => applyIssues(state.suggestions.issues!.map((_, index) => index))
+              : undefined}
+            onExplain={explainSuggestion}
+            onClose={() => {
+              // Closing a panel that is still filling in stops the request
+              if (state.suggestions.streaming) {
+                cancelRequest();
+              }
+              hideSuggestions();
+            }}
+          />
+        )}
+        
+        {state.documentIssues.visible && (
+          <IssuesPanel
+            issues={state.documentIssues.items.map((issue, index) => ({
+              ...issue,
+              ...getDocumentIssueLocation(index)
+            }))}
+            activeIndex={state.documentIssues.activeIndex}
+            onSelect={goToDocumentIssue}
+            onAccept={index => applyDocumentIssues([index])}
+            onDismiss={index => removeDocumentIssues([index])}
+            onApplyAll={() => applyDocumentIssues(state.documentIssues.items.map((_, index) => index))}
+            onClose={hideDocumentIssues}
+          />
+        )}
+        
+        {state.findReplace.visible && (
+          <div className="find-replace-panel">
+            <div className="find-replace-header">
+              <h3>Find & Replace</h3>
               <button
                 onClick={() => {
-                  findText(state.findReplace.searchText, {
-                    matchCase: state.findReplace.matchCase,
-                    useRegex: state.findReplace.useRegex
-                  });
-                }}
-              >
-                Find
-              </button>
-            </div>
-            <div className="find-replace-row">
-              <label htmlFor="replace-text">Replace:</label>
-              <input
-                id="replace-text"
-                type="text"
-                value={state.findReplace.replaceText}
-                onChange={(e) => {
                   setState(prev => ({
                     ...prev,
                     findReplace: {
                       ...prev.findReplace,
-                      replaceText: e.target.value
+                      visible: false
                     }
                   }));
                 }}
-              />
-              <button
-                onClick={() => {
-                  replaceTextInEditor(
-                    state.findReplace.searchText,
-                    state.findReplace.replaceText,
-                    {
-                      matchCase: state.findReplace.matchCase,
-                      useRegex: state.findReplace.useRegex
-                    }
-                  );
-                }}
               >
-                Replace All
+                ✕
               </button>
             </div>
-            <div className="find-replace-options">
-              <label>
+            <div className="find-replace-content">
+              <div className="find-replace-row">
+                <label htmlFor="find-text">Find:</label>
                 <input
-                  type="checkbox"
-                  checked={state.findReplace.matchCase}
+                  id="find-text"
+                  type="text"
+                  value={state.findReplace.searchText}
                   onChange={(e) => {
                     setState(prev => ({
                       ...prev,
                       findReplace: {
                         ...prev.findReplace,
-                        matchCase: e.target.checked
+                        searchText: e.target.value
                       }
                     }));
                   }}
                 />
-                Match case
-              </label>
-              <label>
+                <button
+                  onClick={() => {
+                    findText(state.findReplace.searchText, {
+                      matchCase: state.findReplace.matchCase,
+                      useRegex: state.findReplace.useRegex
+                    });
+                  }}
+                >
+                  Find
+                </button>
+              </div>
+              <div className="find-replace-row">
+                <label htmlFor="replace-text">Replace:</label>
                 <input
-                  type="checkbox"
-                  checked={state.findReplace.useRegex}
+                  id="replace-text"
+                  type="text"
+                  value={state.findReplace.replaceText}
                   onChange={(e) => {
                     setState(prev => ({
                       ...prev,
                       findReplace: {
                         ...prev.findReplace,
-                        useRegex: e.target.checked
+                        replaceText: e.target.value
                       }
                     }));
                   }}
                 />
-                Use regex
-              </label>
+                <button
+                  onClick={() => {
+                    replaceTextInEditor(
+                      state.findReplace.searchText,
+                      state.findReplace.replaceText,
+                      {
+                        matchCase: state.findReplace.matchCase,
+                        useRegex: state.findReplace.useRegex
+                      }
+                    );
+                  }}
+                >
+                  Replace All
+                </button>
+              </div>
+              <div className="find-replace-options">
+                <label>
+                  <input
+                    type="checkbox"
+                    checked={state.findReplace.matchCase}
+                    onChange={(e) => {
+                      setState(prev => ({
+                        ...prev,
+                        findReplace: {
+                          ...prev.findReplace,
+                          matchCase: e.target.checked
+                        }
+                      }));
+                    }}
+                  />
+                  Match case
+                </label>
+                <label>
+                  <input
+                    type="checkbox"
+                    checked={state.findReplace.useRegex}
+                    onChange={(e) => {
+                      setState(prev => ({
+                        ...prev,
+                        findReplace: {
+                          ...prev.findReplace,
+                          useRegex: e.target.checked
+                        }
+                      }));
+                    }}
+                  />
+                  Use regex
+                </label>
+              </div>
+            </div>
+          </div>
+        )}
+      
+        {isProcessing && !state.suggestions.streaming && (
+          <div className="processing-overlay">
+            <div className="processing-spinner"></div>
+            <div className="processing-message">
+              {batchProgress
+                ? `Checking document (${batchProgress.done}/${batchProgress.total})...`
+                : 'Processing text...'}
             </div>
+            <button className="processing-cancel" onClick={cancelRequest}>
+              Cancel (Esc)
+            </button>
           </div>
-        </div>
-      )}
+        )}
+      </div>
       
-      {isProcessing && (
-        <div className="processing-overlay">
-          <div className="processing-spinner"></div>
-          <div className="processing-message">Processing text...</div>
-        </div>
-      )}
+      <ChatPanel
+        open={state.chatOpen}
+        filePath={filePath}
+        content={content}
+        selection={selection}
+        onInsert={insertChatReply}
+        onReplace={replaceWithChatReply}
+        onToggle={toggleChat}
+      />
     </div>
   );
 };
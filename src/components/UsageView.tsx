@@ -0,0 +1,286 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import '../styles/UsageView.css';
+import IPCBridge from '../services/IPCBridge';
+import { IpcChannels, LLM_PROVIDER_LABELS } from '../interfaces/constants';
+import { ModelPrice, UsageLimits, UsageReport, UsageSummary } from '../interfaces/types';
+
+interface UsageViewProps {
+  prices: Record<string, ModelPrice>;
+  limits: UsageLimits;
+  onChange: (prices: Record<string, ModelPrice>, limits: UsageLimits) => void;
+}
+
+// Periods the report can cover, in days
+const REPORT_PERIODS = [7, 30, 90];
+
+// Helper to format an estimated cost in USD, keeping small amounts visible
+const formatCost = (cost: number): string => {
+  if (cost > 0 && cost < 0.01) return '<$0.01';
+  return `$${cost.toFixed(2)}`;
+};
+
+// Helper to format the tokens of a summary, marking counts that were partly estimated
+const formatTokens = (summary: UsageSummary): string => {
+  const tokens = (summary.promptTokens + summary.completionTokens).toLocaleString();
+  return summary.estimated > 0 ? `~${tokens}` : tokens;
+};
+
+const UsageView: React.FC<UsageViewProps> = ({ prices, limits, onChange }) => {
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [days, setDays] = useState(30);
+  const [error, setError] = useState<string | null>(null);
+  
+  const priceEntries = Object.keys(prices).map(model => ({ model, price: prices[model] }));
+  
+  // S1: Load report
+  // Fetches the usage of the chosen period from the main process
+  const loadReport = useCallback(async () => {
+    try {
+      setReport(await IPCBridge.invoke<UsageReport>(IpcChannels.USAGE_REPORT, { days }));
+      setError(null);
+    } catch (loadError) {
+      console.error('Error loading usage report:', loadError);
+      setError('Usage figures unavailable');
+    }
+  }, [days]);
+  
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+  
+  // S2: Clear usage
+  // Drops the usage log after confirmation
+  const handleClear = async () => {
+    if (!window.confirm('Clear all recorded AI usage? This month\'s totals start again from zero.')) return;
+    
+    try {
+      await IPCBridge.invoke<boolean>(IpcChannels.USAGE_CLEAR);
+      await loadReport();
+    } catch (clearError) {
+      console.error('Error clearing usage:', clearError);
+      setError('Failed to clear the usage log');
+    }
+  };
+  
+  // S3: Update price
+  // Renames a priced model or changes one of its prices, keeping the order of the list
+  const handlePriceChange = (index: number, model: string, price: ModelPrice) => {
+    const updated: Record<string, ModelPrice> = {};
+    priceEntries.forEach((entry, i) => {
+      if (i === index) {
+        updated[model] = price;
+      } else if (entry.model !== model) {
+        updated[entry.model] = entry.price;
+      }
+    });
+    onChange(updated, limits);
+  };
+  
+  // S4: Add price
+  // Appends an empty price for a model to be named
+  const handleAddPrice = () => {
+    if (prices[''] !== undefined) return;
+    onChange({ ...prices, '': { input: 0, output: 0 } }, limits);
+  };
+  
+  // S5: Remove price
+  // Deletes the price of a model
+  const handleRemovePrice = (model: string) => {
+    const updated = { ...prices };
+    delete updated[model];
+    onChange(updated, limits);
+  };
+  
+  // S6: Update limit
+  // Sets a monthly soft limit, a blank or zero value turns it off
+  const handleLimitChange = (field: keyof UsageLimits, value: string) => {
+    const number = parseFloat(value);
+    onChange(prices, { ...limits, [field]: isNaN(number) || number < 0 ? 0 : number });
+  };
+  
+  const status = report?.status;
+  
+  return (
+    <div className="usage-view">
+      {error && <div className="usage-error">{error}</div>}
+      
+      {status && (
+        <div className={`usage-month ${status.level}`}>
+          <strong>{formatCost(status.cost)}</strong> and {status.tokens.toLocaleString()} tokens
+          over {status.requests} requests in {status.month}
+          {status.level === 'warning' && ' - nearing the monthly limit'}
+          {status.level === 'exceeded' && (status.acknowledged
+            ? ' - monthly limit reached, sending anyway'
+            : ' - monthly limit reached, you will be asked before sending')}
+        </div>
+      )}
+      
+      <div className="usage-toolbar">
+        <label htmlFor="usagePeriod">Period:</label>
+        <select id="usagePeriod" value={days} onChange={(e) => setDays(parseInt(e.target.value))}>
+          {REPORT_PERIODS.map(period => (
+            <option key={period} value={period}>Last {period} days</option>
+          ))}
+        </select>
+        <button onClick={loadReport}>Refresh</button>
+        <button onClick={handleClear}>Clear Usage</button>
+      </div>
+      
+      {report && (
+        <div className="usage-report">
+          <div className="usage-totals">
+            <div><span className="usage-figure">{report.totals.requests}</span> requests</div>
+            <div><span className="usage-figure">{formatTokens(report.totals)}</span> tokens</div>
+            <div><span className="usage-figure">{formatCost(report.totals.cost)}</span> estimated</div>
+            <div><span className="usage-figure">{report.totals.cacheHits}</span> from cache</div>
+            <div><span className="usage-figure">{report.totals.errors}</span> failed</div>
+            <div>
+              <span className="usage-figure">
+                {report.totals.requests > report.totals.cacheHits
+                  ? Math.round(report.totals.latencyMs / (report.totals.requests - report.totals.cacheHits))
+                  : 0} ms
+              </span> average latency
+            </div>
+          </div>
+          
+          {report.models.length > 0 ? (
+            <table className="usage-table">
+              <thead>
+                <tr>
+                  <th>Model</th>
+                  <th>Requests</th>
+                  <th>Input</th>
+                  <th>Output</th>
+                  <th>Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.models.map(item => (
+                  <tr key={`${item.provider}/${item.model}`}>
+                    <td title={LLM_PROVIDER_LABELS[item.provider] || item.provider}>{item.model || item.provider}</td>
+                    <td>{item.requests}</td>
+                    <td>{item.promptTokens.toLocaleString()}</td>
+                    <td>{item.completionTokens.toLocaleString()}</td>
+                    <td>{item.priced ? formatCost(item.cost) : 'no price'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="usage-hint">No AI requests in this period.</p>
+          )}
+          
+          {report.operations.length > 0 && (
+            <div className="usage-list">
+              {report.operations.map(item => (
+                <span key={item.operation} className="usage-list-item">
+                  {item.operation}: {item.requests} ({formatCost(item.cost)})
+                </span>
+              ))}
+            </div>
+          )}
+          
+          {report.days.length > 0 && (
+            <div className="usage-list">
+              {report.days.slice().reverse().map(item => (
+                <span key={item.date} className="usage-list-item">
+                  {item.date}: {item.requests} requests, {formatTokens(item)} tokens, {formatCost(item.cost)}
+                </span>
+              ))}
+            </div>
+          )}
+          
+          {report.totals.estimated > 0 && (
+            <p className="usage-hint">
+              Token counts marked ~ include requests whose provider reported none; they were estimated from the text length.
+            </p>
+          )}
+        </div>
+      )}
+      
+      <h4>Prices (USD per million tokens)</h4>
+      <p className="usage-hint">
+        A price applies to the model of that name and to every model whose name starts with it,
+        so "gpt-4o-mini" also covers "gpt-4o-mini-2024-07-18". Models without a price count as free.
+      </p>
+      
+      <table className="usage-table usage-prices">
+        <thead>
+          <tr>
+            <th>Model</th>
+            <th>Input</th>
+            <th>Output</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {priceEntries.map((entry, index) => (
+            <tr key={index}>
+              <td>
+                <input
+                  type="text"
+                  value={entry.model}
+                  onChange={(e) => handlePriceChange(index, e.target.value.trim(), entry.price)}
+                  placeholder="Model name"
+                />
+              </td>
+              <td>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={entry.price.input}
+                  onChange={(e) => handlePriceChange(index, entry.model, { ...entry.price, input: parseFloat(e.target.value) || 0 })}
+                />
+              </td>
+              <td>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={entry.price.output}
+                  onChange={(e) => handlePriceChange(index, entry.model, { ...entry.price, output: parseFloat(e.target.value) || 0 })}
+                />
+              </td>
+              <td>
+                <button className="usage-price-remove" onClick={() => handleRemovePrice(entry.model)}>Remove</button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <button onClick={handleAddPrice}>Add Price</button>
+      
+      <h4>Monthly Limits</h4>
+      <p className="usage-hint">
+        Past a limit you are asked before each request is sent; background checks stop until next month. Leave at 0 for no limit.
+      </p>
+      
+      <div className="setting-item">
+        <label htmlFor="usageMonthlyCost">Cost (USD):</label>
+        <input
+          id="usageMonthlyCost"
+          type="number"
+          min="0"
+          step="1"
+          value={limits.monthlyCost}
+          onChange={(e) => handleLimitChange('monthlyCost', e.target.value)}
+        />
+      </div>
+      
+      <div className="setting-item">
+        <label htmlFor="usageMonthlyTokens">Tokens:</label>
+        <input
+          id="usageMonthlyTokens"
+          type="number"
+          min="0"
+          step="10000"
+          value={limits.monthlyTokens}
+          onChange={(e) => handleLimitChange('monthlyTokens', e.target.value)}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default UsageView;
@@ -30,7 +30,7 @@ export const SettingsProvider: React.FC<SettingsProviderProps> = ({ children })
   // S2: Update specific setting
   // Changes a single setting value
   const updateSetting = (key: string, value: any) => {
-    // For nested settings like apiKeys.openai
+    // For nested settings like baseUrls.local
     if (key.includes('.')) {
       const [parentKey, childKey] = key.split('.');
       setSettings(prev => ({
@@ -1,67 +1,253 @@
-import { useState, useCallback } from 'react';
-import { LLMResponse } from '../interfaces/types';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import {
+  BatchOptions,
+  ChatContext,
+  ChatMessage,
+  LLMResponse,
+  LLMStreamChunk,
+  LLMStreamStart,
+  SummaryFormat,
+  TextOperation
+} from '../interfaces/types';
+import { IpcChannels } from '../interfaces/constants';
 import LLMProcessor from '../services/LLMProcessor';
+import IPCBridge from '../services/IPCBridge';
 
-export default function useLLM() {
+// LLM requests of one part of the UI
+// operations lists the operations whose streamed output and request IDs this instance follows, so the editor
+// and the chat never pick up each other's requests; it should be a constant, it is read once
+export default function useLLM(operations: string[]) {
   const [isProcessing, setIsProcessing] = useState<boolean>(false);
   const [error, setError] = useState<Error | null>(null);
+  const [streamingText, setStreamingText] = useState<string>('');
+  const [batchProgress, setBatchProgress] = useState<{ done: number; total: number } | null>(null);
+  const streamIdRef = useRef<string | null>(null);
+  // IDs of the requests started by the running batch, null when no batch runs
+  const batchIdsRef = useRef<Set<string> | null>(null);
+  // Debounced requests that have not settled yet
+  const pendingRef = useRef<number>(0);
+  const operationsRef = useRef<string[]>(operations);
+  
+  // Follow streamed output of the request currently in flight
+  useEffect(() => {
+    const removeStartListener = IPCBridge.on(IpcChannels.AI_STREAM_START, (data: LLMStreamStart) => {
+      // Requests of other operations belong to another instance
+      if (operationsRef.current.indexOf(data.operation) < 0) return;
+      
+      // Batch requests are only tracked for cancellation, their output isn't shown live
+      if (batchIdsRef.current) {
+        batchIdsRef.current.add(data.requestId);
+        return;
+      }
+      
+      streamIdRef.current = data.requestId;
+      setStreamingText('');
+    });
+    
+    const removeChunkListener = IPCBridge.on(IpcChannels.AI_STREAM_CHUNK, (data: LLMStreamChunk) => {
+      if (data.requestId === streamIdRef.current) {
+        setStreamingText(data.text);
+      }
+    });
+    
+    return () => {
+      removeStartListener();
+      removeChunkListener();
+    };
+  }, []);
+  
+  // Readable suggestions parsed from the partial output
+  const streamingSuggestions = useMemo(
+    () => LLMProcessor.parsePartialSuggestions(streamingText),
+    [streamingText]
+  );
+  
+  // Helper to stop following a stream once its request has settled
+  const endStream = useCallback(() => {
+    streamIdRef.current = null;
+    setStreamingText('');
+  }, []);
+  
+  // Helper to count a debounced request in
+  // A newer request supersedes one still waiting, which settles after the newer one has started
+  const beginRequest = useCallback(() => {
+    pendingRef.current++;
+    setIsProcessing(true);
+    setError(null);
+  }, []);
+  
+  // Helper to count a debounced request out, ending processing once none is left
+  const finishRequest = useCallback(() => {
+    pendingRef.current = Math.max(0, pendingRef.current - 1);
+    if (pendingRef.current === 0) {
+      setIsProcessing(false);
+      endStream();
+    }
+  }, [endStream]);
   
   // S1: Check grammar of text
   // Processes text for grammar, spelling, and punctuation errors
   const checkGrammar = useCallback(async (text: string, language?: string): Promise<LLMResponse> => {
     try {
-      setIsProcessing(true);
-      setError(null);
+      beginRequest();
       
       const response = await LLMProcessor.checkGrammar(text, language);
       
-      if (response.error) {
+      if (response.error && !LLMProcessor.isCancelled(response.error)) {
         setError(new Error(response.error));
       }
       
       return response;
     } catch (error) {
-      setError(error as Error);
+      if (!LLMProcessor.isCancelled((error as Error).message)) {
+        setError(error as Error);
+      }
       throw error;
     } finally {
-      setIsProcessing(false);
+      finishRequest();
     }
-  }, []);
+  }, [beginRequest, finishRequest]);
   
   // S2: Rephrase text with style
   // Generates rephrasing options for text with different styles
   const rephraseText = useCallback(async (text: string, style?: string): Promise<LLMResponse> => {
+    try {
+      beginRequest();
+      
+      const response = await LLMProcessor.rephraseText(text, style);
+      
+      if (response.error && !LLMProcessor.isCancelled(response.error)) {
+        setError(new Error(response.error));
+      }
+      
+      return response;
+    } catch (error) {
+      if (!LLMProcessor.isCancelled((error as Error).message)) {
+        setError(error as Error);
+      }
+      throw error;
+    } finally {
+      finishRequest();
+    }
+  }, [beginRequest, finishRequest]);
+  
+  // S5: Translate text
+  // Translates text into the target language
+  const translateText = useCallback(async (
+    text: string,
+    targetLanguage: string,
+    sourceLanguage?: string
+  ): Promise<LLMResponse> => {
+    try {
+      beginRequest();
+      
+      const response = await LLMProcessor.translateText(text, targetLanguage, sourceLanguage);
+      
+      if (response.error && !LLMProcessor.isCancelled(response.error)) {
+        setError(new Error(response.error));
+      }
+      
+      return response;
+    } catch (error) {
+      if (!LLMProcessor.isCancelled((error as Error).message)) {
+        setError(error as Error);
+      }
+      throw error;
+    } finally {
+      finishRequest();
+    }
+  }, [beginRequest, finishRequest]);
+  
+  // S6: Generate text
+  // Summarizes, expands or outlines text; the result is meant for insertion rather than replacement
+  const generateText = useCallback(async (
+    operation: TextOperation,
+    text: string,
+    summary: { format: SummaryFormat; targetLength?: number } = { format: 'bullets' }
+  ): Promise<LLMResponse> => {
+    try {
+      beginRequest();
+      
+      let response: LLMResponse;
+      if (operation === 'summarize') {
+        response = await LLMProcessor.summarizeText(text, summary.format, summary.targetLength);
+      } else if (operation === 'expand') {
+        response = await LLMProcessor.expandText(text);
+      } else {
+        response = await LLMProcessor.outlineText(text);
+      }
+      
+      if (response.error && !LLMProcessor.isCancelled(response.error)) {
+        setError(new Error(response.error));
+      }
+      
+      return response;
+    } catch (error) {
+      if (!LLMProcessor.isCancelled((error as Error).message)) {
+        setError(error as Error);
+      }
+      throw error;
+    } finally {
+      finishRequest();
+    }
+  }, [beginRequest, finishRequest]);
+  
+  // S7: Chat
+  // Gets a reply to the latest message of a conversation
+  const chat = useCallback(async (messages: ChatMessage[], context?: ChatContext): Promise<LLMResponse> => {
     try {
       setIsProcessing(true);
       setError(null);
       
-      const response = await LLMProcessor.rephraseText(text, style);
+      const response = await LLMProcessor.chat(messages, context);
       
-      if (response.error) {
+      if (response.error && !LLMProcessor.isCancelled(response.error)) {
         setError(new Error(response.error));
       }
       
       return response;
     } catch (error) {
-      setError(error as Error);
+      if (!LLMProcessor.isCancelled((error as Error).message)) {
+        setError(error as Error);
+      }
       throw error;
     } finally {
       setIsProcessing(false);
+      endStream();
+    }
+  }, [endStream]);
+  
+  // S8: Explain a correction
+  // Asks why the original was changed to the replacement; leaves isProcessing alone so the panel it is asked from stays open
+  const explainSuggestion = useCallback(async (original: string, replacement: string): Promise<LLMResponse> => {
+    try {
+      return await LLMProcessor.explainSuggestion(original, replacement);
+    } catch (error) {
+      setError(error as Error);
+      throw error;
     }
   }, []);
   
   // S3: Process batch of texts
   // Handles multiple text processing requests in batch
   const processBatch = useCallback(async (
-    texts: string[], 
-    operation: 'grammar-check' | 'rephrase', 
-    options?: any
+    texts: string[],
+    operation: 'grammar-check' | 'rephrase',
+    options: BatchOptions = {}
   ): Promise<LLMResponse[]> => {
     try {
       setIsProcessing(true);
       setError(null);
+      setBatchProgress({ done: 0, total: texts.length });
+      batchIdsRef.current = new Set();
       
-      const responses = await LLMProcessor.processBatch(texts, operation, options);
+      const responses = await LLMProcessor.processBatch(texts, operation, {
+        ...options,
+        onProgress: (done: number, total: number) => {
+          setBatchProgress({ done, total });
+          options.onProgress?.(done, total);
+        }
+      });
       
       // Check if any response has an error
       const errorResponse = responses.find(r => r.error);
@@ -71,18 +257,46 @@ export default function useLLM() {
       
       return responses;
     } catch (error) {
-      setError(error as Error);
+      if (!LLMProcessor.isCancelled((error as Error).message)) {
+        setError(error as Error);
+      }
       throw error;
     } finally {
       setIsProcessing(false);
+      setBatchProgress(null);
+      batchIdsRef.current = null;
+    }
+  }, []);
+  
+  // S4: Cancel request
+  // Stops the request in flight, if any, along with the debounced calls and batch this instance started
+  // An instance with none of those only stops its own request, so other parts of the UI keep theirs
+  const cancelRequest = useCallback(async (): Promise<void> => {
+    if (pendingRef.current === 0 && !batchIdsRef.current) {
+      await LLMProcessor.cancelRequest(streamIdRef.current);
+      return;
+    }
+    
+    await LLMProcessor.cancel(streamIdRef.current);
+    
+    // A batch may have several requests in flight
+    if (batchIdsRef.current) {
+      await Promise.all(Array.from(batchIdsRef.current).map(requestId => LLMProcessor.cancelRequest(requestId)));
     }
   }, []);
   
   return {
     checkGrammar,
     rephraseText,
+    translateText,
+    generateText,
+    chat,
+    explainSuggestion,
     processBatch,
+    cancelRequest,
     isProcessing,
+    batchProgress,
+    streamingSuggestions,
     error
   };
 }
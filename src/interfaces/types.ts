@@ -21,6 +21,42 @@ export interface LLMRequest {
   operation: string;
   style?: string;
   language?: string;
+  // Layout and target length in words of a summary
+  format?: SummaryFormat;
+  targetLength?: number;
+}
+
+// Layout of a summary
+export type SummaryFormat = 'bullets' | 'paragraph';
+
+// Operations that reply with a single generated text for insertion
+export type TextOperation = 'summarize' | 'expand' | 'outline';
+
+// One turn of a chat conversation
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: string;
+}
+
+// Editor text shared with a chat
+export interface ChatContext {
+  kind: 'selection' | 'document';
+  text: string;
+}
+
+// Grammar issue found in a span of the checked text
+// offset and length are character positions in LLMResponse.original
+export interface GrammarIssue {
+  offset: number;
+  length: number;
+  original: string;
+  replacement: string;
+  category: string;
+  explanation: string;
+  confidence: number;
+  // Other replacements, best first, offered by the offline spell checker
+  alternatives?: string[];
 }
 
 // LLM response interface
@@ -30,8 +66,137 @@ export interface LLMResponse {
     text: string;
     confidence: number;
     type: string;
+    // Why the text was changed, when the model gave a reason
+    explain?: string;
   }>;
+  issues?: GrammarIssue[];
+  // Language the model detected in the text of a translation
+  detectedLanguage?: string;
+  // Rule named by an explanation
+  rule?: string;
+  // Id of the provider that answered, which differs from the configured one after a fallback
+  provider?: string;
+  error?: string;
+  requestId?: string;
+}
+
+// Streamed LLM request start event
+export interface LLMStreamStart {
+  requestId: string;
+  operation: string;
+}
+
+// Streamed LLM output event carrying the text received so far
+export interface LLMStreamChunk {
+  requestId: string;
+  text: string;
+}
+
+// Piece of a longer text sent as its own LLM request
+// offset is the character position of the chunk in the full text
+export interface TextChunk {
+  offset: number;
+  text: string;
+}
+
+// Misspelled word found by the offline spell checker
+// offset is the character position of the word in the checked text
+export interface Misspelling {
+  offset: number;
+  length: number;
+  word: string;
+  // Likeliest spellings, best first; empty when the dictionary has nothing close
+  suggestions: string[];
+}
+
+// Request posted to the spell checker worker
+export interface SpellCheckRequest {
+  id: number;
+  text: string;
+  language: string;
+  // URL of the directory holding the dictionaries
+  dictionaryUrl: string;
+}
+
+// Reply of the spell checker worker to the request with the same id
+export interface SpellCheckReply {
+  id: number;
+  misspellings?: Misspelling[];
+  error?: string;
+}
+
+// Options for a batch of LLM requests
+export interface BatchOptions {
+  language?: string;
+  style?: string;
+  // Requests kept in flight at once
+  concurrency?: number;
+  onProgress?: (done: number, total: number) => void;
+}
+
+// State of the main process request queue
+export interface QueueStatus {
+  // Requests waiting for a provider slot, in total and by priority
+  queued: number;
+  queuedByPriority: Record<'interactive' | 'batch' | 'background', number>;
+  running: number;
+  // Average wait for a slot over the latest requests, in ms
+  averageWaitMs: number;
+  // How long the longest waiting request has been waiting, in ms
+  longestWaitMs: number;
+}
+
+// Result of a provider health check
+export interface ProviderHealth {
+  provider: string;
+  // 'unconfigured' when a cloud provider has no API key
+  status: 'ok' | 'error' | 'unconfigured';
+  // Round trip of the last check, in ms
+  latencyMs?: number;
   error?: string;
+  checkedAt: string;
+}
+
+// Health of the providers requests can go to, as reported by the main process
+export interface HealthStatus {
+  // Configured provider
+  provider: string;
+  // False once neither the configured provider nor a usable fallback can be reached
+  available: boolean;
+  providers: Record<string, ProviderHealth>;
+}
+
+// LLM response cache statistics reported by the main process
+export interface CacheStats {
+  entries: number;
+  sizeBytes: number;
+  maxSizeBytes: number;
+  ttlMs: number;
+  hits: number;
+  misses: number;
+  // Share of lookups answered from the cache, between 0 and 1
+  hitRate: number;
+}
+
+// Rephrase style defined by the user
+// The id is passed as the style of a rephrase request
+export interface CustomStyle {
+  id: string;
+  label: string;
+  instruction: string;
+  // Sample sentences written in the style
+  examples: string[];
+}
+
+// Prompt template of an operation, as edited in Settings
+// Placeholders: {text}, {language}, {style} and {source}
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  version: number;
+  system: string;
+  user: string;
+  isDefault: boolean;
 }
 
 // Text selection interface
@@ -41,6 +206,126 @@ export interface TextSelection {
   text: string;
 }
 
+// Which providers have an API key, as reported by the main process instead of the keys themselves
+export interface ApiKeyStatus {
+  // False when no OS keyring is available and keys are stored unencrypted
+  encrypted: boolean;
+  // 'undecryptable' keys are still stored but the keyring can no longer read them, so they have to be entered again
+  configured: Record<string, 'stored' | 'environment' | 'undecryptable'>;
+}
+
+// Model and sampling settings of an LLM operation, blank fields use the settings for all operations
+export interface OperationSettings {
+  // Model by provider id, since model names differ between providers
+  models?: Record<string, string>;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+// Redaction rule written by the user, matching a regular expression or a list of terms
+export interface RedactionRule {
+  // Placeholder name, e.g. CUSTOMER for [CUSTOMER_1]
+  kind: string;
+  pattern?: string;
+  // Words and phrases, matched as whole words ignoring case
+  terms?: string[];
+  enabled: boolean;
+}
+
+// Personal data replaced by placeholders before text is sent to a cloud provider
+export interface RedactionSettings {
+  enabled: boolean;
+  // Ids of REDACTION_DETECTORS turned off
+  disabledDetectors: string[];
+  rules: RedactionRule[];
+}
+
+// Prompt a cloud provider would receive for a sample text, as reported by the main process
+export interface RedactionPreview {
+  enabled: boolean;
+  // Whether requests can reach a cloud provider, as the configured provider or a fallback
+  cloud: boolean;
+  items: Array<{ placeholder: string; value: string; kind: string }>;
+  system: string;
+  user: string;
+}
+
+// Price of a model in USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// Monthly soft limits, 0 for none
+export interface UsageLimits {
+  monthlyCost: number;
+  monthlyTokens: number;
+}
+
+// This month's usage against the soft limits, as reported by the main process
+export interface UsageStatus {
+  // YYYY-MM
+  month: string;
+  requests: number;
+  tokens: number;
+  cost: number;
+  limits: UsageLimits;
+  level: 'ok' | 'warning' | 'exceeded';
+  // Whether the user chose to keep sending requests past the limit this month
+  acknowledged: boolean;
+}
+
+// Usage totals with their estimated cost in USD
+export interface UsageSummary {
+  requests: number;
+  cacheHits: number;
+  errors: number;
+  promptTokens: number;
+  completionTokens: number;
+  // Requests whose token counts were estimated from the text length
+  estimated: number;
+  latencyMs: number;
+  cost: number;
+}
+
+// Usage of the last days by day, model and operation
+export interface UsageReport {
+  from: string;
+  to: string;
+  totals: UsageSummary;
+  days: Array<UsageSummary & { date: string }>;
+  // priced is false for models without a configured price
+  models: Array<UsageSummary & { provider: string; model: string; priced: boolean }>;
+  operations: Array<UsageSummary & { operation: string }>;
+  status: UsageStatus;
+}
+
+// Suggestions matching a rule are never shown
+// A plain pattern matches the whole flagged text ignoring case, a regex pattern is searched in it
+export interface IgnoreRule {
+  pattern: string;
+  regex: boolean;
+  // Only suggestions of this category are ignored, all of them when empty
+  category?: string;
+}
+
+// Words and ignore rules of one scope
+export interface DictionaryEntries {
+  words: string[];
+  ignoreRules: IgnoreRule[];
+}
+
+// Entries shared by every document, or kept for the folder of the open document
+export type DictionaryScope = 'global' | 'workspace';
+
+// Entries that apply to the open document, as reported by the main process
+export interface UserDictionary {
+  global: DictionaryEntries;
+  // Folder of the document, null while it has never been saved
+  workspacePath: string | null;
+  workspace: DictionaryEntries | null;
+}
+
 // Theme type
 export type Theme = 'light' | 'dark' | 'system';
 
@@ -52,5 +337,25 @@ export interface AppSettings {
   wordWrap: boolean;
   defaultLanguage: string;
   llmProvider: string;
-  apiKeys: Record<string, string>;
+  baseUrls: Record<string, string>;
+  // Providers tried in order when llmProvider fails; cloud ones only with consent
+  fallbackProviders: string[];
+  cloudFallbackConsent: Record<string, boolean>;
+  // Settings by operation id, plus 'default' for every operation without its own
+  operationSettings: Record<string, OperationSettings>;
+  redaction: RedactionSettings;
+  // Prices by model name or name prefix, and the monthly soft limits
+  modelPrices: Record<string, ModelPrice>;
+  usageLimits: UsageLimits;
+  liveGrammarCheck: boolean;
+  customStyles: CustomStyle[];
+  // Where translations go: 'below' the original or 'replace' it
+  translationInsertMode: string;
+  // Target summary length in words, 0 leaves it to the model
+  summaryLength: number;
+  // Inline autocomplete and the pause in ms before it asks for a continuation
+  inlineCompletion: boolean;
+  inlineCompletionDelay: number;
+  // Where words and ignore rules added from a suggestion go
+  dictionaryScope: DictionaryScope;
 }
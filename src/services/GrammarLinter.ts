@@ -0,0 +1,312 @@
+import IPCBridge from './IPCBridge';
+import LLMProcessor from './LLMProcessor';
+import { IpcChannels, ErrorCodes } from '../interfaces/constants';
+import { GrammarIssue, LLMResponse } from '../interfaces/types';
+
+// Owner id of the markers published by the linter
+const MARKER_OWNER = 'grammar-lint';
+
+// Pause after the last keystroke before paragraphs are checked
+const LINT_DELAY = 1500;
+
+// Wait before trying again when the rate limiter turned a check away
+const RETRY_DELAY = 5000;
+
+// Wait before checking a paragraph again after its check failed for another reason
+const FAILURE_RETRY_DELAY = 60000;
+
+// Paragraph of the document with its offset in the model
+interface Paragraph {
+  offset: number;
+  text: string;
+}
+
+// Background grammar linter for a Monaco editor
+// Checks changed paragraphs after typing pauses and publishes the issues as markers with quick fixes
+export class GrammarLinter {
+  private editor: any;
+  private monaco: any;
+  private enabled: boolean = false;
+  private paused: boolean = false;
+  private running: boolean = false;
+  private language: string = 'en';
+  private timeout: NodeJS.Timeout | null = null;
+  // Issues of each checked paragraph, keyed by paragraph text so moved paragraphs keep their results
+  private paragraphIssues: Map<string, GrammarIssue[]> = new Map();
+  // Paragraphs whose check failed, keyed by text, with the time they may be checked again
+  private failedParagraphs: Map<string, number> = new Map();
+  // Issue behind each published marker, keyed by marker code
+  private markerIssues: Map<string, GrammarIssue> = new Map();
+  private disposables: Array<{ dispose: () => void }> = [];
+  
+  // S1: Initialize grammar linter
+  // Attaches the linter to an editor and registers the quick fix provider
+  constructor(editor: any, monaco: any) {
+    this.editor = editor;
+    this.monaco = monaco;
+    
+    this.disposables.push(
+      editor.onDidChangeModelContent(() => this.handleContentChange()),
+      monaco.languages.registerCodeActionProvider('plaintext', {
+        provideCodeActions: (model: any, _range: any, context: any) => this.provideCodeActions(model, context)
+      }),
+      { dispose: IPCBridge.on(IpcChannels.DICTIONARY_CHANGED, () => this.handleDictionaryChange()) }
+    );
+  }
+  
+  // S2: Enable or disable linting
+  // Starts checking the document when enabled and clears all markers when disabled
+  setEnabled(enabled: boolean, language: string = 'en'): void {
+    if (language !== this.language) {
+      this.language = language;
+      this.paragraphIssues.clear();
+      this.failedParagraphs.clear();
+    }
+    
+    this.enabled = enabled;
+    
+    if (enabled) {
+      this.schedule(0);
+    } else {
+      this.clearTimer();
+      this.paragraphIssues.clear();
+      this.failedParagraphs.clear();
+      this.publishMarkers();
+    }
+  }
+  
+  // S3: Pause linting
+  // Holds background checks back while another AI request is in flight
+  setPaused(paused: boolean): void {
+    this.paused = paused;
+    
+    if (paused) {
+      this.clearTimer();
+    } else {
+      this.schedule(LINT_DELAY);
+    }
+  }
+  
+  // S4: Dispose linter
+  // Removes listeners, the quick fix provider and all markers
+  dispose(): void {
+    this.clearTimer();
+    this.enabled = false;
+    this.paragraphIssues.clear();
+    this.failedParagraphs.clear();
+    this.publishMarkers();
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.disposables = [];
+  }
+  
+  // Helper method to react to edits
+  private handleContentChange(): void {
+    if (!this.enabled) return;
+    
+    // Drop markers of edited paragraphs right away, check them once typing pauses
+    this.publishMarkers();
+    this.schedule(LINT_DELAY);
+  }
+  
+  // Helper method to check every paragraph again once words or ignore rules change
+  private handleDictionaryChange(): void {
+    this.paragraphIssues.clear();
+    this.failedParagraphs.clear();
+    
+    if (this.enabled) {
+      this.publishMarkers();
+      this.schedule(0);
+    }
+  }
+  
+  // Helper method to (re)start the lint timer
+  private schedule(delay: number): void {
+    this.clearTimer();
+    
+    if (!this.enabled || this.paused) return;
+    
+    this.timeout = setTimeout(() => {
+      this.timeout = null;
+      this.lintNextParagraph();
+    }, delay);
+  }
+  
+  // Helper method to stop the lint timer
+  private clearTimer(): void {
+    if (this.timeout) {
+      clearTimeout(this.timeout);
+      this.timeout = null;
+    }
+  }
+  
+  // Helper method to check the first paragraph without results
+  // Paragraphs are sent one at a time; cached ones come straight back from LLMService
+  private async lintNextParagraph(): Promise<void> {
+    if (!this.enabled || this.paused || this.running) return;
+    
+    const paragraphs = this.getParagraphs();
+    const current = new Set(paragraphs.map(paragraph => paragraph.text));
+    
+    // Forget paragraphs that no longer exist
+    Array.from(this.paragraphIssues.keys()).forEach(text => {
+      if (!current.has(text)) {
+        this.paragraphIssues.delete(text);
+      }
+    });
+    Array.from(this.failedParagraphs.keys()).forEach(text => {
+      if (!current.has(text)) {
+        this.failedParagraphs.delete(text);
+      }
+    });
+    
+    // A paragraph that keeps failing waits its turn so the ones after it still get checked
+    const now = Date.now();
+    const next = paragraphs.find(paragraph =>
+      !this.paragraphIssues.has(paragraph.text) && (this.failedParagraphs.get(paragraph.text) || 0) <= now);
+    if (!next) {
+      this.publishMarkers();
+      
+      const retries = Array.from(this.failedParagraphs.values());
+      if (retries.length > 0) {
+        this.schedule(Math.max(Math.min(...retries) - now, 0));
+      }
+      return;
+    }
+    
+    this.running = true;
+    
+    try {
+      // Offline the spell checker keeps the document linted
+      const response = LLMProcessor.isOffline()
+        ? await LLMProcessor.handleOfflineMode(next.text, this.language)
+        : await IPCBridge.invoke<LLMResponse>(
+          IpcChannels.AI_LINT_GRAMMAR,
+          { text: next.text, language: this.language }
+        );
+      
+      if (response.error) {
+        // Try again soon when the rate limiter is busy, otherwise set the paragraph aside and go on
+        if (response.error.startsWith(ErrorCodes.RATE_LIMIT_ERROR)) {
+          this.schedule(RETRY_DELAY);
+        } else {
+          this.recordFailure(next.text, response.error);
+        }
+        return;
+      }
+      
+      this.failedParagraphs.delete(next.text);
+      this.paragraphIssues.set(next.text, response.issues || []);
+      this.publishMarkers();
+      this.schedule(0);
+    } catch (error) {
+      this.recordFailure(next.text, error);
+    } finally {
+      this.running = false;
+    }
+  }
+  
+  // Helper method to set a paragraph aside after a failed check and move on to the next one
+  // Only the first failure of a paragraph is logged, not every retry
+  private recordFailure(text: string, error: unknown): void {
+    if (!this.failedParagraphs.has(text)) {
+      console.error('Grammar linting error:', error);
+    }
+    
+    this.failedParagraphs.set(text, Date.now() + FAILURE_RETRY_DELAY);
+    this.schedule(0);
+  }
+  
+  // Helper method to split the document into paragraphs separated by blank lines
+  private getParagraphs(): Paragraph[] {
+    const model = this.editor.getModel();
+    if (!model) return [];
+    
+    const paragraphs: Paragraph[] = [];
+    const paragraphPattern = /\S(?:[^\n]|\n(?![ \t]*(?:\n|$)))*/g;
+    const content: string = model.getValue();
+    
+    let match: RegExpExecArray | null;
+    while ((match = paragraphPattern.exec(content)) !== null) {
+      paragraphs.push({ offset: match.index, text: match[0].replace(/\s+$/, '') });
+    }
+    
+    return paragraphs;
+  }
+  
+  // Helper method to publish markers for all paragraphs with known issues
+  private publishMarkers(): void {
+    const model = this.editor.getModel();
+    if (!model) return;
+    
+    const markers: any[] = [];
+    this.markerIssues.clear();
+    
+    this.getParagraphs().forEach(paragraph => {
+      const issues = this.paragraphIssues.get(paragraph.text) || [];
+      
+      issues.forEach(issue => {
+        const start = model.getPositionAt(paragraph.offset + issue.offset);
+        const end = model.getPositionAt(paragraph.offset + issue.offset + issue.length);
+        const code = `${MARKER_OWNER}-${markers.length}`;
+        
+        this.markerIssues.set(code, issue);
+        markers.push({
+          severity: issue.category === 'spelling'
+            ? this.monaco.MarkerSeverity.Error
+            : this.monaco.MarkerSeverity.Warning,
+          message: issue.explanation || `Possible ${issue.category} issue`,
+          source: issue.category,
+          code,
+          startLineNumber: start.lineNumber,
+          startColumn: start.column,
+          endLineNumber: end.lineNumber,
+          endColumn: end.column
+        });
+      });
+    });
+    
+    this.monaco.editor.setModelMarkers(model, MARKER_OWNER, markers);
+  }
+  
+  // Helper method to offer the fixes of each linter marker under the cursor
+  // Issues with alternatives get one fix per replacement, the suggested one first
+  private provideCodeActions(model: any, context: any) {
+    const actions: any[] = [];
+    
+    context.markers
+      .filter((marker: any) => marker.owner === MARKER_OWNER && this.markerIssues.has(marker.code))
+      .forEach((marker: any) => {
+        const issue = this.markerIssues.get(marker.code)!;
+        
+        // A misspelling the dictionary has nothing for keeps itself as replacement, which fixes nothing
+        const replacements = [issue.replacement].concat(issue.alternatives || [])
+          .filter(replacement => replacement !== issue.original);
+        
+        replacements.forEach((replacement, index) => {
+          actions.push({
+            title: replacement ? `Change to "${replacement}"` : `Remove "${issue.original}"`,
+            kind: 'quickfix',
+            diagnostics: [marker],
+            isPreferred: index === 0,
+            edit: {
+              edits: [{
+                resource: model.uri,
+                textEdit: {
+                  range: {
+                    startLineNumber: marker.startLineNumber,
+                    startColumn: marker.startColumn,
+                    endLineNumber: marker.endLineNumber,
+                    endColumn: marker.endColumn
+                  },
+                  text: replacement
+                },
+                versionId: undefined
+              }]
+            }
+          });
+        });
+      });
+    
+    return { actions, dispose: () => {} };
+  }
+}
@@ -0,0 +1,664 @@
+// Suggestions returned for a misspelled word unless told otherwise
+const MAX_SUGGESTIONS = 5;
+
+// Most words a compound is split into
+const MAX_COMPOUND_PARTS = 3;
+
+// Roots the n-gram pass hands on for ranking
+const MAX_NGRAM_CANDIDATES = 20;
+
+// Least n-gram similarity for a root to count as a suggestion
+const NGRAM_THRESHOLD = 0.5;
+
+// Keyboard rows used for typo suggestions when the .aff file has no KEY
+const DEFAULT_KEY = 'qwertyuiop|asdfghjkl|zxcvbnm';
+
+// Affix rule of the .aff file, flags are stored in their internal one-character form
+interface Affix {
+  flag: string;
+  crossProduct: boolean;
+  strip: string;
+  add: string;
+  // Flags the affixed form carries on: a second affix, compound positions, NEEDAFFIX and the like
+  continuation: string;
+  condition: RegExp | null;
+}
+
+// What a form has to satisfy to be accepted
+interface FormRule {
+  // Flag the root or one of its affixes has to carry, used for compound parts
+  flag: string | null;
+  compound: boolean;
+  // Case of the word was changed to find it, which KEEPCASE roots don't allow
+  caseChanged: boolean;
+  // Forms of NOSUGGEST roots are known words but never offered as suggestions
+  suggesting: boolean;
+}
+
+// Suggestion found for a misspelled word, with what it is ranked by
+interface Candidate {
+  text: string;
+  // Lower ranks go first: case fixes, REP table hits, single edits, split words, similar roots
+  rank: number;
+  distance: number;
+  // Spellings of the same length break ties, since a wrong letter is likelier than a missing one
+  lengthDifference: number;
+  similarity: number;
+  order: number;
+}
+
+// Capitalization of a word
+type CapType = 'none' | 'initial' | 'all' | 'mixed';
+
+// Hunspell dictionary
+// Reads the .aff and .dic files of a Hunspell dictionary and checks words the way Hunspell does:
+// a word is known when it is a root of the dictionary, a root with a prefix and up to two suffixes, or a compound of such words
+export class HunspellDictionary {
+  // Flags of each root, one string per homonym
+  private words: Map<string, string[]> = new Map();
+  private prefixes: Map<string, Affix[]> = new Map();
+  private suffixes: Map<string, Affix[]> = new Map();
+  private replacements: Array<[string, string]> = [];
+  private tryChars: string[] = [];
+  private keyNeighbors: Map<string, string> = new Map();
+  private flagMode: string = 'short';
+  private flagCodes: Map<string, string> = new Map();
+  private aliases: string[] = [];
+  private forbidden: string | null = null;
+  private needAffix: string | null = null;
+  private keepCase: string | null = null;
+  private noSuggest: string | null = null;
+  private onlyInCompound: string | null = null;
+  private circumfix: string | null = null;
+  private compoundFlag: string | null = null;
+  private compoundBegin: string | null = null;
+  private compoundMiddle: string | null = null;
+  private compoundEnd: string | null = null;
+  private compoundMin: number = 3;
+  private splitSuggestions: boolean = true;
+  
+  // S1: Load dictionary
+  // Takes the contents of the .aff and .dic files, both decoded as UTF-8
+  constructor(aff: string, dic: string) {
+    this.parseAffixFile(aff);
+    this.parseDictionaryFile(dic);
+  }
+  
+  // S2: Check word
+  // Tells whether the word is spelled correctly, allowing the case changes Hunspell allows
+  check(word: string): boolean {
+    return this.checkWord(word, false);
+  }
+  
+  // S3: Suggest corrections
+  // Returns the likeliest spellings of a misspelled word, best first
+  suggest(word: string, limit: number = MAX_SUGGESTIONS): string[] {
+    const capType = getCapType(word);
+    const base = capType === 'mixed' ? word : word.toLowerCase();
+    const candidates: Candidate[] = [];
+    const seen: Set<string> = new Set([word]);
+    
+    const add = (text: string, rank: number) => {
+      // Fragments such as "-trasse" only exist to build compounds
+      if (seen.has(text) || /^-|-$/.test(text)) return;
+      seen.add(text);
+      candidates.push({
+        text,
+        rank,
+        // Capitalizing a lowercase word counts as half an edit, so proper nouns come after common words
+        distance: editDistance(base, text.toLowerCase(), this.keyNeighbors)
+          + (capType === 'none' && text.charAt(0) !== text.charAt(0).toLowerCase() ? 0.5 : 0),
+        lengthDifference: Math.abs(text.length - base.length),
+        similarity: ngramSimilarity(base, text.toLowerCase()),
+        order: candidates.length
+      });
+    };
+    
+    // Edits are made on the lowercase word, then given back the case of the misspelling
+    const consider = (candidate: string, rank: number) => {
+      const cased = restoreCase(candidate, capType);
+      if (this.checkWord(cased, true)) {
+        add(cased, rank);
+      } else if (capType === 'none' && this.checkWord(capitalize(candidate), true)) {
+        add(capitalize(candidate), rank);
+      }
+    };
+    
+    // Right word in the wrong case; all capitals only for words the dictionary spells that way
+    [word.toLowerCase(), capitalize(word.toLowerCase())].forEach(variant => {
+      if (variant !== word && this.checkWord(variant, true)) {
+        add(variant, 0);
+      }
+    });
+    if (word.toUpperCase() !== word && this.words.has(word.toUpperCase())) {
+      add(word.toUpperCase(), 0);
+    }
+    
+    this.generateReplacements(base, candidate => consider(candidate, 1));
+    this.generateEdits(base, candidate => consider(candidate, 2));
+    
+    if (this.splitSuggestions) {
+      this.generateSplits(base, capType, split => add(split, 3));
+    }
+    
+    // Misspellings further than one edit away are looked up by similarity among the roots
+    if (candidates.length === 0) {
+      this.findSimilarRoots(base).forEach(root => consider(root, 4));
+    }
+    
+    return candidates
+      .sort((a, b) => a.rank - b.rank
+        || a.distance - b.distance
+        || a.lengthDifference - b.lengthDifference
+        || b.similarity - a.similarity
+        || a.order - b.order)
+      .slice(0, limit)
+      .map(candidate => candidate.text);
+  }
+  
+  // Helper method to check a word, trying the other apostrophe and the case variants the capitalization allows
+  private checkWord(word: string, suggesting: boolean): boolean {
+    if (!word) return true;
+    
+    if (this.checkCased(word, suggesting)) return true;
+    
+    const apostrophe = word.indexOf('’') >= 0
+      ? word.replace(/’/g, '\'')
+      : word.replace(/'/g, '’');
+    
+    return apostrophe !== word && this.checkCased(apostrophe, suggesting);
+  }
+  
+  // Helper method to check a word as written, then lowercased or capitalized when it starts with a capital
+  private checkCased(word: string, suggesting: boolean): boolean {
+    if (this.isForbidden(word)) return false;
+    
+    const rule: FormRule = { flag: null, compound: false, caseChanged: false, suggesting };
+    if (this.findWord(word, rule)) return true;
+    
+    const capType = getCapType(word);
+    if (capType !== 'initial' && capType !== 'all') return false;
+    
+    const changed: FormRule = { ...rule, caseChanged: true };
+    const lower = word.toLowerCase();
+    if (!this.isForbidden(lower) && this.findWord(lower, changed)) return true;
+    
+    return capType === 'all' && !this.isForbidden(capitalize(lower)) && this.findWord(capitalize(lower), changed);
+  }
+  
+  // Helper method to tell whether the dictionary lists the word as forbidden
+  private isForbidden(word: string): boolean {
+    const homonyms = this.words.get(word);
+    return !!homonyms && homonyms.some(flags => hasFlag(flags, this.forbidden));
+  }
+  
+  // Helper method to find a word as a single form or as a compound
+  // Compounds are valid words but never suggested, made-up ones would crowd out the real corrections
+  private findWord(word: string, rule: FormRule): boolean {
+    return this.findForm(word, rule) || (!rule.suggesting && this.findCompound(word, 0));
+  }
+  
+  // Helper method to find a word as a root with a prefix, up to two suffixes, or a prefix and a suffix
+  private findForm(word: string, rule: FormRule): boolean {
+    if (this.rootMatches(word, rule, [], [])) return true;
+    
+    const suffixed = this.matchSuffixes(word, (stem, suffix) =>
+      this.rootMatches(stem, rule, [suffix.flag], [suffix]) ||
+      // Twofold suffixes: the outer suffix is allowed by the continuation flags of the inner one
+      this.matchSuffixes(stem, (root, inner) =>
+        hasFlag(inner.continuation, suffix.flag) && this.rootMatches(root, rule, [inner.flag], [inner, suffix])));
+    if (suffixed) return true;
+    
+    return this.matchPrefixes(word, (stem, prefix) =>
+      this.rootMatches(stem, rule, [prefix.flag], [prefix]) ||
+      (prefix.crossProduct && this.matchSuffixes(stem, (root, suffix) => suffix.crossProduct && (
+        this.rootMatches(root, rule, [prefix.flag, suffix.flag], [suffix, prefix]) ||
+        (hasFlag(suffix.continuation, prefix.flag) && this.rootMatches(root, rule, [suffix.flag], [suffix, prefix]))
+      ))));
+  }
+  
+  // Helper method to find a word as a compound, each part carrying the flag of its position
+  private findCompound(word: string, depth: number): boolean {
+    if (!this.compoundFlag && !this.compoundBegin) return false;
+    
+    for (let split = this.compoundMin; split <= word.length - this.compoundMin; split++) {
+      if (!this.isCompoundPart(word.slice(0, split), depth === 0 ? this.compoundBegin : this.compoundMiddle)) continue;
+      
+      const rest = word.slice(split);
+      if (this.isCompoundPart(rest, this.compoundEnd)) return true;
+      if (depth < MAX_COMPOUND_PARTS - 2 && this.findCompound(rest, depth + 1)) return true;
+    }
+    
+    return false;
+  }
+  
+  // Helper method to check one part of a compound
+  private isCompoundPart(part: string, positionFlag: string | null): boolean {
+    const rule: FormRule = { flag: this.compoundFlag, compound: true, caseChanged: false, suggesting: false };
+    
+    return (!!this.compoundFlag && this.findForm(part, rule)) ||
+      (!!positionFlag && this.findForm(part, { ...rule, flag: positionFlag }));
+  }
+  
+  // Helper method to undo each suffix the word ends with, until the callback accepts a stem
+  private matchSuffixes(word: string, accept: (stem: string, suffix: Affix) => boolean): boolean {
+    for (let start = word.length; start >= 1; start--) {
+      const group = this.suffixes.get(word.slice(start));
+      if (!group) continue;
+      
+      const base = word.slice(0, start);
+      for (const suffix of group) {
+        const stem = base + suffix.strip;
+        if ((!suffix.condition || suffix.condition.test(stem)) && accept(stem, suffix)) return true;
+      }
+    }
+    
+    return false;
+  }
+  
+  // Helper method to undo each prefix the word starts with, until the callback accepts a stem
+  private matchPrefixes(word: string, accept: (stem: string, prefix: Affix) => boolean): boolean {
+    for (let end = 0; end < word.length; end++) {
+      const group = this.prefixes.get(word.slice(0, end));
+      if (!group) continue;
+      
+      const rest = word.slice(end);
+      for (const prefix of group) {
+        const stem = prefix.strip + rest;
+        if ((!prefix.condition || prefix.condition.test(stem)) && accept(stem, prefix)) return true;
+      }
+    }
+    
+    return false;
+  }
+  
+  // Helper method to tell whether a root takes the given affixes under the rule
+  private rootMatches(root: string, rule: FormRule, required: string[], affixes: Affix[]): boolean {
+    const homonyms = this.words.get(root);
+    if (!homonyms) return false;
+    
+    const continuation = affixes.map(affix => affix.continuation).join('');
+    
+    return homonyms.some(flags => {
+      if (required.some(flag => flags.indexOf(flag) < 0)) return false;
+      if (hasFlag(flags, this.forbidden)) return false;
+      if (rule.suggesting && hasFlag(flags, this.noSuggest)) return false;
+      if (rule.caseChanged && hasFlag(flags, this.keepCase)) return false;
+      
+      // NEEDAFFIX roots only appear with an affix, NEEDAFFIX affixes only with another one
+      if (affixes.length === 0 && hasFlag(flags, this.needAffix)) return false;
+      if (affixes.length > 0 && affixes.every(affix => hasFlag(affix.continuation, this.needAffix))) return false;
+      
+      // A circumfix needs both of its halves
+      if (affixes.filter(affix => hasFlag(affix.continuation, this.circumfix)).length === 1) return false;
+      
+      if (!rule.compound && (hasFlag(flags, this.onlyInCompound) || hasFlag(continuation, this.onlyInCompound))) return false;
+      
+      return !rule.flag || hasFlag(flags, rule.flag) || hasFlag(continuation, rule.flag);
+    });
+  }
+  
+  // Helper method to pass on the word with each REP table replacement applied
+  private generateReplacements(word: string, visit: (candidate: string) => void): void {
+    this.replacements.forEach(([from, to]) => {
+      const atStart = from.charAt(0) === '^';
+      const atEnd = from.charAt(from.length - 1) === '$';
+      const pattern = from.slice(atStart ? 1 : 0, atEnd ? -1 : undefined);
+      if (!pattern) return;
+      
+      let index = word.indexOf(pattern);
+      while (index >= 0) {
+        if ((!atStart || index === 0) && (!atEnd || index + pattern.length === word.length)) {
+          visit(word.slice(0, index) + to + word.slice(index + pattern.length));
+        }
+        index = word.indexOf(pattern, index + 1);
+      }
+    });
+  }
+  
+  // Helper method to pass on every spelling one edit away: a key next to the one pressed, a swapped pair,
+  // a missing or extra letter, or another letter of the TRY list
+  private generateEdits(word: string, visit: (candidate: string) => void): void {
+    const chars = Array.from(word);
+    const join = (parts: string[]) => parts.join('');
+    
+    chars.forEach((char, index) => {
+      const before = chars.slice(0, index);
+      const after = chars.slice(index + 1);
+      
+      (this.keyNeighbors.get(char) || '').split('').forEach(key => visit(join(before.concat(key, after))));
+      
+      if (index < chars.length - 1 && chars[index + 1] !== char) {
+        visit(join(before.concat(chars[index + 1], char, chars.slice(index + 2))));
+      }
+      
+      visit(join(before.concat(after)));
+    });
+    
+    chars.forEach((char, index) => {
+      this.tryChars.forEach(replacement => {
+        if (replacement !== char) {
+          visit(join(chars.slice(0, index).concat(replacement, chars.slice(index + 1))));
+        }
+      });
+    });
+    
+    for (let index = 0; index <= chars.length; index++) {
+      this.tryChars.forEach(insert => visit(join(chars.slice(0, index).concat(insert, chars.slice(index)))));
+    }
+  }
+  
+  // Helper method to pass on the word split in two known words, as for a missed space
+  private generateSplits(word: string, capType: CapType, visit: (candidate: string) => void): void {
+    for (let split = 2; split <= word.length - 2; split++) {
+      const first = restoreCase(word.slice(0, split), capType);
+      const second = capType === 'all' ? word.slice(split).toUpperCase() : word.slice(split);
+      
+      if (this.checkWord(first, true) && this.checkWord(second, true)) {
+        visit(`${first} ${second}`);
+      }
+    }
+  }
+  
+  // Helper method to list the roots closest to the word by n-gram similarity
+  // Only roots of about the same length and with the same first letter are compared, which keeps the pass quick
+  private findSimilarRoots(word: string): string[] {
+    const scored: Array<{ root: string; similarity: number }> = [];
+    const first = word.charAt(0);
+    
+    this.words.forEach((homonyms, root) => {
+      if (Math.abs(root.length - word.length) > 2 || root.charAt(0).toLowerCase() !== first) return;
+      
+      const similarity = ngramSimilarity(word, root.toLowerCase());
+      if (similarity >= NGRAM_THRESHOLD) {
+        scored.push({ root, similarity });
+      }
+    });
+    
+    return scored
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, MAX_NGRAM_CANDIDATES)
+      .map(item => item.root.toLowerCase());
+  }
+  
+  // Helper method to read the settings and affix rules of the .aff file
+  private parseAffixFile(aff: string): void {
+    const lines = aff.split(/\r?\n/);
+    
+    // Flags can only be read once their format is known
+    const flagLine = lines.find(line => /^FLAG\s/.test(line));
+    if (flagLine) {
+      this.flagMode = flagLine.split(/\s+/)[1];
+    }
+    
+    const affixHeaders: Map<string, boolean> = new Map();
+    let tryChars = '';
+    let key = DEFAULT_KEY;
+    
+    lines.forEach(line => {
+      const parts = line.trim().split(/\s+/);
+      const option = parts[0];
+      
+      switch (option) {
+        case 'TRY':
+          tryChars = parts[1] || '';
+          break;
+        case 'KEY':
+          key = parts[1] || DEFAULT_KEY;
+          break;
+        case 'REP':
+          // The first REP line only holds the number of entries
+          if (parts.length >= 3) {
+            this.replacements.push([parts[1].replace(/_/g, ' '), parts[2].replace(/_/g, ' ')]);
+          }
+          break;
+        case 'AF':
+          if (parts.length >= 2 && !/^\d+$/.test(parts[1])) {
+            this.aliases.push(this.parseFlags(parts[1]));
+          }
+          break;
+        case 'PFX':
+        case 'SFX': {
+          const flag = this.flagCode(parts[1]);
+          if (!affixHeaders.has(flag)) {
+            affixHeaders.set(flag, parts[2] === 'Y');
+            break;
+          }
+          this.addAffix(option, flag, affixHeaders.get(flag)!, parts);
+          break;
+        }
+        case 'FORBIDDENWORD':
+          this.forbidden = this.flagCode(parts[1]);
+          break;
+        case 'NEEDAFFIX':
+        case 'PSEUDOROOT':
+          this.needAffix = this.flagCode(parts[1]);
+          break;
+        case 'KEEPCASE':
+          this.keepCase = this.flagCode(parts[1]);
+          break;
+        case 'NOSUGGEST':
+          this.noSuggest = this.flagCode(parts[1]);
+          break;
+        case 'ONLYINCOMPOUND':
+          this.onlyInCompound = this.flagCode(parts[1]);
+          break;
+        case 'CIRCUMFIX':
+          this.circumfix = this.flagCode(parts[1]);
+          break;
+        case 'COMPOUNDFLAG':
+          this.compoundFlag = this.flagCode(parts[1]);
+          break;
+        case 'COMPOUNDBEGIN':
+          this.compoundBegin = this.flagCode(parts[1]);
+          break;
+        case 'COMPOUNDMIDDLE':
+          this.compoundMiddle = this.flagCode(parts[1]);
+          break;
+        case 'COMPOUNDEND':
+          this.compoundEnd = this.flagCode(parts[1]);
+          break;
+        case 'COMPOUNDMIN':
+          this.compoundMin = Math.max(1, parseInt(parts[1], 10) || 1);
+          break;
+        case 'NOSPLITSUGS':
+          this.splitSuggestions = false;
+          break;
+      }
+    });
+    
+    // Uppercase TRY letters are left out, suggestions are made on the lowercase word
+    this.tryChars = Array.from(new Set(Array.from(tryChars).filter(char => char === char.toLowerCase())));
+    
+    key.split('|').forEach(row => {
+      const keys = Array.from(row);
+      keys.forEach((char, index) => {
+        const neighbors = (keys[index - 1] || '') + (keys[index + 1] || '');
+        this.keyNeighbors.set(char, (this.keyNeighbors.get(char) || '') + neighbors);
+      });
+    });
+  }
+  
+  // Helper method to add one PFX or SFX rule line
+  private addAffix(kind: string, flag: string, crossProduct: boolean, parts: string[]): void {
+    const [add, continuation] = (parts[3] || '').split('/');
+    const affix: Affix = {
+      flag,
+      crossProduct,
+      strip: parts[2] === '0' ? '' : parts[2] || '',
+      add: add === '0' ? '' : add,
+      continuation: continuation ? this.parseFlags(continuation) : '',
+      condition: toCondition(parts[4], kind === 'SFX')
+    };
+    
+    const index = kind === 'SFX' ? this.suffixes : this.prefixes;
+    const group = index.get(affix.add);
+    if (group) {
+      group.push(affix);
+    } else {
+      index.set(affix.add, [affix]);
+    }
+  }
+  
+  // Helper method to read the roots of the .dic file, whose first line holds their number
+  private parseDictionaryFile(dic: string): void {
+    dic.split(/\r?\n/).forEach((line, index) => {
+      // Lines starting with a tab are comments, anything after whitespace is morphological data
+      if (index === 0 || !line || line.charAt(0) === '\t' || line.charAt(0) === '/') return;
+      
+      const entry = line.split(/\s/)[0];
+      const slash = entry.search(/[^\\]\//);
+      const word = (slash >= 0 ? entry.slice(0, slash + 1) : entry).replace(/\\\//g, '/');
+      if (!word) return;
+      
+      const flags = slash >= 0 ? this.parseFlags(entry.slice(slash + 2)) : '';
+      const homonyms = this.words.get(word);
+      if (homonyms) {
+        homonyms.push(flags);
+      } else {
+        this.words.set(word, [flags]);
+      }
+    });
+  }
+  
+  // Helper method to turn flags as written in the files into their internal form
+  private parseFlags(value: string): string {
+    if (this.aliases.length > 0 && /^\d+$/.test(value)) {
+      return this.aliases[parseInt(value, 10) - 1] || '';
+    }
+    
+    let names: string[];
+    switch (this.flagMode) {
+      case 'long':
+        names = value.match(/[\s\S]{1,2}/g) || [];
+        break;
+      case 'num':
+        names = value.split(',');
+        break;
+      default:
+        names = Array.from(value);
+    }
+    
+    return names.map(name => this.flagCode(name)).join('');
+  }
+  
+  // Helper method to map a flag to one character, whatever the flag format of the file
+  private flagCode(name: string): string {
+    let code = this.flagCodes.get(name);
+    if (code === undefined) {
+      code = String.fromCharCode(0xE000 + this.flagCodes.size);
+      this.flagCodes.set(name, code);
+    }
+    return code;
+  }
+}
+
+// Helper to tell whether a set of flags holds the given flag, unset flags are never held
+function hasFlag(flags: string, flag: string | null): boolean {
+  return !!flag && flags.indexOf(flag) >= 0;
+}
+
+// Helper to turn an affix condition into a regular expression tested against the root
+// Conditions use single characters, [...] and [^...] classes and . for any character
+function toCondition(condition: string | undefined, suffix: boolean): RegExp | null {
+  if (!condition || condition === '.') return null;
+  
+  const pattern = condition.replace(/[\\{}()*+?|$]/g, '\\$&');
+  try {
+    return new RegExp(suffix ? `(?:${pattern})$` : `^(?:${pattern})`);
+  } catch (error) {
+    return null;
+  }
+}
+
+// Helper to tell how a word is capitalized
+function getCapType(word: string): CapType {
+  const upper = word.toUpperCase();
+  const lower = word.toLowerCase();
+  
+  if (word === lower) return 'none';
+  if (word === upper && word.length > 1) return 'all';
+  if (word.charAt(0) !== lower.charAt(0) && word.slice(1) === lower.slice(1)) return 'initial';
+  if (word === upper) return 'initial';
+  return 'mixed';
+}
+
+// Helper to give a lowercase suggestion the capitalization of the misspelled word
+function restoreCase(word: string, capType: CapType): string {
+  if (capType === 'all') return word.toUpperCase();
+  if (capType === 'initial') return capitalize(word);
+  return word;
+}
+
+// Helper to uppercase the first letter of a word
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+// Helper to strip accents, so a missing accent counts as a small mistake
+function baseLetter(char: string): string {
+  return char.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+// Helper to measure the edit distance between two words
+// Swapping two letters, doubling a letter or not, hitting a neighboring key or dropping an accent costs half an edit
+function editDistance(a: string, b: string, keyNeighbors: Map<string, string>): number {
+  const rows: number[][] = [];
+  for (let i = 0; i <= a.length; i++) {
+    rows.push([i]);
+  }
+  for (let j = 1; j <= b.length; j++) {
+    rows[0].push(j);
+  }
+  
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const x = a.charAt(i - 1);
+      const y = b.charAt(j - 1);
+      let substitution = 1;
+      if (x === y) {
+        substitution = 0;
+      } else if (baseLetter(x) === baseLetter(y) || (keyNeighbors.get(x) || '').indexOf(y) >= 0) {
+        substitution = 0.5;
+      }
+      
+      const deletion = i > 1 && x === a.charAt(i - 2) ? 0.5 : 1;
+      const insertion = j > 1 && y === b.charAt(j - 2) ? 0.5 : 1;
+      
+      rows[i][j] = Math.min(rows[i - 1][j] + deletion, rows[i][j - 1] + insertion, rows[i - 1][j - 1] + substitution);
+      if (i > 1 && j > 1 && x === b.charAt(j - 2) && a.charAt(i - 2) === y) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 0.5);
+      }
+    }
+  }
+  
+  return rows[a.length][b.length];
+}
+
+// Helper to measure how alike two words are by their shared letter pairs, from 0 to 1
+function ngramSimilarity(a: string, b: string): number {
+  const pairs = (word: string): string[] => {
+    const padded = ` ${word} `;
+    const result: string[] = [];
+    for (let i = 0; i < padded.length - 1; i++) {
+      result.push(padded.slice(i, i + 2));
+    }
+    return result;
+  };
+  
+  const left = pairs(a);
+  const right = pairs(b);
+  const counts: Map<string, number> = new Map();
+  left.forEach(pair => counts.set(pair, (counts.get(pair) || 0) + 1));
+  
+  let shared = 0;
+  right.forEach(pair => {
+    const count = counts.get(pair) || 0;
+    if (count > 0) {
+      shared++;
+      counts.set(pair, count - 1);
+    }
+  });
+  
+  return (2 * shared) / (left.length + right.length);
+}
@@ -149,8 +149,41 @@ class IPCBridge {
       'file:save-as': 'fileSaveAs',
       'ai:check-grammar': 'aiCheckGrammar',
       'ai:rephrase-text': 'aiRephraseText',
+      'ai:cancel': 'aiCancel',
+      'ai:lint-grammar': 'aiLintGrammar',
+      'ai:translate-text': 'aiTranslateText',
+      'ai:summarize-text': 'aiSummarizeText',
+      'ai:expand-text': 'aiExpandText',
+      'ai:outline-text': 'aiOutlineText',
+      'ai:complete-text': 'aiCompleteText',
+      'ai:chat': 'aiChat',
+      'ai:explain-suggestion': 'aiExplainSuggestion',
+      'ai:list-models': 'aiListModels',
+      'ai:health-check': 'aiHealthCheck',
+      'ai:health-get': 'aiHealthGet',
+      'ai:redaction-preview': 'aiRedactionPreview',
       'settings:get': 'settingsGet',
       'settings:save': 'settingsSave',
+      'keys:status': 'apiKeysStatus',
+      'keys:set': 'apiKeysSet',
+      'cache:stats': 'cacheStats',
+      'cache:clear': 'cacheClear',
+      'cache:export': 'cacheExport',
+      'usage:report': 'usageReport',
+      'usage:status': 'usageStatus',
+      'usage:clear': 'usageClear',
+      'prompts:list': 'promptsList',
+      'prompts:save': 'promptsSave',
+      'prompts:reset': 'promptsReset',
+      'prompts:preview': 'promptsPreview',
+      'chat:history-get': 'chatHistoryGet',
+      'chat:history-save': 'chatHistorySave',
+      'chat:history-clear': 'chatHistoryClear',
+      'dictionary:get': 'dictionaryGet',
+      'dictionary:add-word': 'dictionaryAddWord',
+      'dictionary:add-ignore': 'dictionaryAddIgnore',
+      'dictionary:save': 'dictionarySave',
+      'dictionary:filter': 'dictionaryFilter',
       'ui:show-settings': 'uiShowSettings',
       'ui:show-documentation': 'uiShowDocumentation',
       'view:toggle-theme': 'viewToggleTheme',
@@ -0,0 +1,167 @@
+import IPCBridge from './IPCBridge';
+import { IpcChannels, ErrorCodes } from '../interfaces/constants';
+import { LLMResponse } from '../interfaces/types';
+
+// Characters before the cursor sent as context for a continuation
+const CONTEXT_CHARS = 1500;
+
+// Text shorter than this gives the model too little to go on
+const MIN_CONTEXT_CHARS = 20;
+
+// Pause after the last keystroke used until the setting is known
+const DEFAULT_DELAY = 800;
+
+// No completions to show
+const NO_COMPLETIONS = { items: [] };
+
+// Inline AI autocomplete for a Monaco editor
+// Asks for a short continuation of the text before the cursor once typing pauses and shows it as ghost text;
+// Monaco's inline suggest accepts it with Tab and dismisses it with Escape
+export class InlineCompleter {
+  private editor: any;
+  private monaco: any;
+  private enabled: boolean = false;
+  private paused: boolean = false;
+  private delay: number = DEFAULT_DELAY;
+  private requestCounter: number = 0;
+  // ID of the continuation request in flight, null when there is none
+  private activeRequestId: string | null = null;
+  private disposables: Array<{ dispose: () => void }> = [];
+  
+  // S1: Initialize inline completer
+  // Attaches the completer to an editor and registers the inline completions provider
+  constructor(editor: any, monaco: any) {
+    this.editor = editor;
+    this.monaco = monaco;
+    
+    this.disposables.push(
+      monaco.languages.registerInlineCompletionsProvider('plaintext', {
+        provideInlineCompletions: (model: any, position: any, _context: any, token: any) =>
+          this.provideCompletions(model, position, token),
+        freeInlineCompletions: () => {}
+      })
+    );
+  }
+  
+  // S2: Enable or disable autocomplete
+  // Turns ghost text on or off and sets the pause before a continuation is requested
+  setEnabled(enabled: boolean, delay: number = DEFAULT_DELAY): void {
+    this.enabled = enabled;
+    this.delay = delay > 0 ? delay : DEFAULT_DELAY;
+    this.editor.updateOptions({ inlineSuggest: { enabled } });
+    
+    if (!enabled) {
+      this.cancel();
+    }
+  }
+  
+  // S3: Pause autocomplete
+  // Holds continuations back while another AI request is in flight
+  setPaused(paused: boolean): void {
+    this.paused = paused;
+    
+    if (paused) {
+      this.cancel();
+    }
+  }
+  
+  // S4: Cancel continuation
+  // Stops the request in flight; its result would no longer match the text
+  cancel(): void {
+    if (this.activeRequestId) {
+      this.cancelRequest(this.activeRequestId);
+      this.activeRequestId = null;
+    }
+  }
+  
+  // S5: Dispose completer
+  // Cancels the request in flight and removes the provider
+  dispose(): void {
+    this.enabled = false;
+    this.cancel();
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.disposables = [];
+  }
+  
+  // Helper method to answer Monaco's request for inline completions
+  // Monaco cancels the token as soon as the user types on, which drops the pause or the request in flight
+  private async provideCompletions(model: any, position: any, token: any) {
+    if (!this.enabled || this.paused) return NO_COMPLETIONS;
+    
+    // Only continue at the end of a line so ghost text never covers existing text
+    if (position.column !== model.getLineMaxColumn(position.lineNumber)) return NO_COMPLETIONS;
+    
+    const context: string = model.getValueInRange({
+      startLineNumber: 1,
+      startColumn: 1,
+      endLineNumber: position.lineNumber,
+      endColumn: position.column
+    }).slice(-CONTEXT_CHARS);
+    
+    if (context.trim().length < MIN_CONTEXT_CHARS) return NO_COMPLETIONS;
+    
+    if (!(await this.waitForPause(token))) return NO_COMPLETIONS;
+    
+    // Only the latest continuation is of any use
+    this.cancel();
+    
+    const requestId = `complete-${Date.now()}-${++this.requestCounter}`;
+    this.activeRequestId = requestId;
+    const cancelListener = token.onCancellationRequested(() => this.cancelRequest(requestId));
+    
+    try {
+      const response = await IPCBridge.invoke<LLMResponse>(IpcChannels.AI_COMPLETE_TEXT, { text: context, requestId });
+      
+      if (token.isCancellationRequested) return NO_COMPLETIONS;
+      
+      if (response.error || response.suggestions.length === 0) {
+        // Busy providers and cancelled requests are expected while typing
+        if (response.error && !response.error.startsWith(ErrorCodes.RATE_LIMIT_ERROR) &&
+            !response.error.startsWith(ErrorCodes.CANCELLED)) {
+          console.error('Inline completion error:', response.error);
+        }
+        return NO_COMPLETIONS;
+      }
+      
+      return {
+        items: [{
+          insertText: response.suggestions[0].text,
+          range: new this.monaco.Range(position.lineNumber, position.column, position.lineNumber, position.column)
+        }]
+      };
+    } catch (error) {
+      console.error('Inline completion error:', error);
+      return NO_COMPLETIONS;
+    } finally {
+      cancelListener.dispose();
+      if (this.activeRequestId === requestId) {
+        this.activeRequestId = null;
+      }
+    }
+  }
+  
+  // Helper method to wait out the pause, resolving false when the user types on
+  private waitForPause(token: any): Promise<boolean> {
+    return new Promise(resolve => {
+      let timeout: NodeJS.Timeout | null = null;
+      
+      const cancelListener = token.onCancellationRequested(() => {
+        if (timeout) clearTimeout(timeout);
+        cancelListener.dispose();
+        resolve(false);
+      });
+      
+      timeout = setTimeout(() => {
+        cancelListener.dispose();
+        resolve(!token.isCancellationRequested);
+      }, this.delay);
+    });
+  }
+  
+  // Helper method to cancel a continuation request in the main process
+  private cancelRequest(requestId: string): void {
+    IPCBridge.invoke(IpcChannels.AI_CANCEL, requestId).catch(error => {
+      console.error('Error cancelling inline completion:', error);
+    });
+  }
+}
@@ -1,11 +1,33 @@
-import { LRUCache } from 'lru-cache';
 import IPCBridge from './IPCBridge';
-import { IpcChannels } from '../interfaces/constants';
-import { LLMResponse } from '../interfaces/types';
+import { IpcChannels, ErrorCodes, LANGUAGE_NAMES, SPELLCHECK_LANGUAGES } from '../interfaces/constants';
+import {
+  BatchOptions,
+  ChatContext,
+  ChatMessage,
+  GrammarIssue,
+  HealthStatus,
+  LLMResponse,
+  Misspelling,
+  SpellCheckReply,
+  SummaryFormat,
+  TextChunk
+} from '../interfaces/types';
+
+// Character budget of one chunk in a whole-document pass
+// Keeps both the prompt and the returned issue list well inside the provider's max tokens
+const CHUNK_CHAR_BUDGET = 2000;
+
+// Requests a batch keeps in flight unless told otherwise
+const BATCH_CONCURRENCY = 2;
+
+// Confidence given to misspellings found by the offline spell checker
+const SPELLING_CONFIDENCE = 0.8;
 
 // Debouncer class for throttling requests
+// Only the latest call is sent; the promise of a call superseded before its delay passed is rejected as cancelled
 class Debouncer {
   private timeout: NodeJS.Timeout | null = null;
+  private pendingReject: ((reason: Error) => void) | null = null;
   private lastCall: number = 0;
   private delay: number;
   
@@ -14,18 +36,19 @@ class Debouncer {
   }
   
   debounce<T>(func: (...args: any[]) => Promise<T>, ...args: any[]): Promise<T> {
+    // Settle the call still waiting for its delay rather than leaving its caller hanging
+    this.cancel(new Error(`${ErrorCodes.CANCELLED}: Request superseded by a newer one`));
+    
     return new Promise((resolve, reject) => {
-      // Clear any existing timeout
-      if (this.timeout) {
-        clearTimeout(this.timeout);
-      }
-      
       // Calculate time since last call
       const now = Date.now();
       const timeSinceLastCall = now - this.lastCall;
       
       // Set a new timeout
+      this.pendingReject = reject;
       this.timeout = setTimeout(async () => {
+        this.timeout = null;
+        this.pendingReject = null;
         this.lastCall = Date.now();
         try {
           const result = await func(...args);
@@ -36,41 +59,70 @@ class Debouncer {
       }, Math.max(0, this.delay - timeSinceLastCall));
     });
   }
+  
+  // Drop the call waiting for its delay to pass, rejecting its promise
+  cancel(reason: Error): void {
+    if (this.timeout) {
+      clearTimeout(this.timeout);
+      this.timeout = null;
+    }
+    
+    if (this.pendingReject) {
+      this.pendingReject(reason);
+      this.pendingReject = null;
+    }
+  }
 }
 
 class LLMProcessor {
   private requestDebouncer: Debouncer;
   private worker: Worker | null = null;
-  private cache: LRUCache<string, LLMResponse>;
+  // Spell checks waiting for the worker, by request id
+  private spellChecks: Map<number, { resolve: (misspellings: Misspelling[]) => void; reject: (error: Error) => void }> = new Map();
+  private nextSpellCheckId: number = 1;
+  private batchCancelled: boolean = false;
+  // Provider health reported by the main process, null until it is known
+  private health: HealthStatus | null = null;
   
   // S1: Initialize LLM processor
-  // Sets up the LLM processor with caching and debouncing
+  // Sets up the LLM processor with debouncing; responses are cached by the main process
   constructor() {
     this.requestDebouncer = new Debouncer(500); // 500ms debounce delay
-    this.cache = new LRUCache({
-      max: 100, // Store max 100 responses
-      ttl: 1000 * 60 * 60, // Cache for 1 hour
-      allowStale: false
-    });
     
     // Initialize web worker if supported
     this.initializeWorker();
+    
+    // Follow provider health, which decides when to work offline
+    this.followHealth();
   }
   
   // S2: Initialize web worker
-  // Sets up a web worker for background processing if supported
+  // Starts the spell checker worker, which loads its dictionaries the first time a language is checked
   private initializeWorker(): void {
     // Check if Web Workers are supported
     if (typeof Worker !== 'undefined') {
       try {
-        // In a real app, you'd have a separate worker file
-        // For now, we'll just simulate it
-        // this.worker = new Worker('/llm-worker.js');
+        this.worker = new Worker(new URL('./SpellChecker.worker.ts', import.meta.url));
+        
+        this.worker.onmessage = (event: MessageEvent<SpellCheckReply>) => {
+          const { id, misspellings, error } = event.data;
+          const pending = this.spellChecks.get(id);
+          if (!pending) return;
+          
+          this.spellChecks.delete(id);
+          if (error) {
+            pending.reject(new Error(error));
+          } else {
+            pending.resolve(misspellings || []);
+          }
+        };
         
-        // Set up message handler
-        /* this.worker.onmessage = (event) => {
-          console.log('Received result from worker:', event.data);
-        }; */
+        // A worker that failed can't answer, so its waiting checks fail rather than hang
+        this.worker.onerror = (event) => {
+          console.error('Spell checker worker error:', event.message);
+          this.spellChecks.forEach(pending => pending.reject(new Error(event.message || 'Spell checker failed')));
+          this.spellChecks.clear();
+        };
       } catch (error) {
         console.error('Failed to initialize Web Worker:', error);
       }
@@ -81,21 +133,11 @@ class LLMProcessor {
   // Processes grammar checking request
   async checkGrammar(text: string, language?: string): Promise<LLMResponse> {
     try {
-      // Generate cache key
-      const cacheKey = `grammar:${language || 'en'}:${text}`;
-      
-      // Check cache
-      const cachedResponse = this.getCachedResponse(cacheKey);
-      if (cachedResponse) {
-        console.log('Returning cached grammar check response');
-        return cachedResponse;
-      }
-      
       // Debounce request
       return await this.requestDebouncer.debounce(async () => {
         // Check if we're offline
-        if (!navigator.onLine) {
-          return this.handleOfflineMode(text);
+        if (this.isOffline()) {
+          return this.handleOfflineMode(text, language);
         }
         
         // Make request to main process
@@ -104,11 +146,6 @@ class LLMProcessor {
           { text, language }
         );
         
-        // Cache response
-        if (response && !response.error) {
-          this.cache.set(cacheKey, response);
-        }
-        
         return response;
       });
     } catch (error) {
@@ -121,20 +158,10 @@ class LLMProcessor {
   // Processes text rephrasing request
   async rephraseText(text: string, style?: string): Promise<LLMResponse> {
     try {
-      // Generate cache key
-      const cacheKey = `rephrase:${style || 'formal'}:${text}`;
-      
-      // Check cache
-      const cachedResponse = this.getCachedResponse(cacheKey);
-      if (cachedResponse) {
-        console.log('Returning cached rephrase response');
-        return cachedResponse;
-      }
-      
       // Debounce request
       return await this.requestDebouncer.debounce(async () => {
         // Check if we're offline
-        if (!navigator.onLine) {
+        if (this.isOffline()) {
           return this.handleOfflineMode(text);
         }
         
@@ -144,11 +171,6 @@ class LLMProcessor {
           { text, style }
         );
         
-        // Cache response
-        if (response && !response.error) {
-          this.cache.set(cacheKey, response);
-        }
-        
         return response;
       });
     } catch (error) {
@@ -157,20 +179,139 @@ class LLMProcessor {
     }
   }
   
+  // S11: Translate text
+  // Processes translation request, the source language is detected when not given
+  async translateText(text: string, targetLanguage: string, sourceLanguage?: string): Promise<LLMResponse> {
+    try {
+      // Debounce request
+      return await this.requestDebouncer.debounce(async () => {
+        // Translation needs a model, there is no offline fallback
+        if (this.isOffline()) {
+          return {
+            original: text,
+            suggestions: [],
+            error: `${ErrorCodes.NETWORK_ERROR}: Translation is not available offline`
+          };
+        }
+        
+        // Make request to main process
+        return await IPCBridge.invoke<LLMResponse>(
+          IpcChannels.AI_TRANSLATE_TEXT,
+          { text, targetLanguage, sourceLanguage }
+        );
+      });
+    } catch (error) {
+      console.error('Error translating text:', error);
+      throw error;
+    }
+  }
+  
+  // S12: Summarize text
+  // Processes a summary request in the given layout and rough length in words
+  async summarizeText(text: string, format: SummaryFormat, targetLength?: number): Promise<LLMResponse> {
+    try {
+      return await this.generateText(IpcChannels.AI_SUMMARIZE_TEXT, { text, format, targetLength }, 'Summarizing');
+    } catch (error) {
+      console.error('Error summarizing text:', error);
+      throw error;
+    }
+  }
+  
+  // S13: Expand text
+  // Processes a request to turn notes into prose
+  async expandText(text: string): Promise<LLMResponse> {
+    try {
+      return await this.generateText(IpcChannels.AI_EXPAND_TEXT, { text }, 'Expanding text');
+    } catch (error) {
+      console.error('Error expanding text:', error);
+      throw error;
+    }
+  }
+  
+  // S14: Outline text
+  // Processes a request for an outline of the text
+  async outlineText(text: string): Promise<LLMResponse> {
+    try {
+      return await this.generateText(IpcChannels.AI_OUTLINE_TEXT, { text }, 'Generating an outline');
+    } catch (error) {
+      console.error('Error outlining text:', error);
+      throw error;
+    }
+  }
+  
+  // S15: Chat
+  // Sends a conversation for a reply; not debounced, every message the user sends gets an answer
+  async chat(messages: ChatMessage[], context?: ChatContext): Promise<LLMResponse> {
+    try {
+      // Chat needs a model, there is no offline fallback
+      if (this.isOffline()) {
+        return {
+          original: '',
+          suggestions: [],
+          error: `${ErrorCodes.NETWORK_ERROR}: Chat is not available offline`
+        };
+      }
+      
+      return await IPCBridge.invoke<LLMResponse>(IpcChannels.AI_CHAT, {
+        messages: messages.map(message => ({ role: message.role, content: message.content })),
+        context
+      });
+    } catch (error) {
+      console.error('Error in chat:', error);
+      throw error;
+    }
+  }
+  
+  // S16: Explain a correction
+  // Asks why the original was changed to the replacement; not debounced, it is asked for one item at a time
+  async explainSuggestion(original: string, replacement: string): Promise<LLMResponse> {
+    try {
+      // Explanations need a model, there is no offline fallback
+      if (this.isOffline()) {
+        return {
+          original,
+          suggestions: [],
+          error: `${ErrorCodes.NETWORK_ERROR}: Explanations are not available offline`
+        };
+      }
+      
+      return await IPCBridge.invoke<LLMResponse>(IpcChannels.AI_EXPLAIN_SUGGESTION, { original, replacement });
+    } catch (error) {
+      console.error('Error explaining suggestion:', error);
+      throw error;
+    }
+  }
+  
   // S5: Process batch of texts
-  // Processes multiple text requests in batch
-  async processBatch(texts: string[], operation: 'grammar-check' | 'rephrase', options?: any): Promise<LLMResponse[]> {
+  // Runs the texts through a bounded-concurrency queue, results keep the order of the texts
+  async processBatch(texts: string[], operation: 'grammar-check' | 'rephrase', options: BatchOptions = {}): Promise<LLMResponse[]> {
     try {
-      // Process each text and collect results
-      const results = await Promise.all(
-        texts.map(text => {
-          if (operation === 'grammar-check') {
-            return this.checkGrammar(text, options?.language);
-          } else {
-            return this.rephraseText(text, options?.style);
-          }
-        })
-      );
+      this.batchCancelled = false;
+      
+      const results: LLMResponse[] = new Array(texts.length);
+      const concurrency = Math.max(1, options.concurrency || BATCH_CONCURRENCY);
+      let next = 0;
+      let done = 0;
+      
+      // Each worker takes the next text until the queue is empty or the batch is cancelled
+      const worker = async () => {
+        while (next < texts.length && !this.batchCancelled) {
+          const index = next++;
+          results[index] = await this.processBatchItem(texts[index], operation, options);
+          done++;
+          options.onProgress?.(done, texts.length);
+        }
+      };
+      
+      const workers: Array<Promise<void>> = [];
+      for (let i = 0; i < Math.min(concurrency, texts.length); i++) {
+        workers.push(worker());
+      }
+      await Promise.all(workers);
+      
+      if (this.batchCancelled) {
+        throw new Error(`${ErrorCodes.CANCELLED}: Request cancelled`);
+      }
       
       return results;
     } catch (error) {
@@ -180,59 +321,269 @@ class LLMProcessor {
   }
   
   // S6: Handle offline mode
-  // Provides basic functionality when offline
-  handleOfflineMode(text: string): LLMResponse {
-    console.log('Operating in offline mode');
-    
-    // Perform basic spell checking
-    const words = text.split(/\s+/);
-    const misspelledWords = this.findMisspelledWords(words);
-    
-    // Generate suggestions
-    const suggestions = misspelledWords.map(word => ({
-      text: word.suggestion,
-      confidence: 0.7,
-      type: 'spelling'
-    }));
-    
-    return {
-      original: text,
-      suggestions,
-      error: suggestions.length === 0 ? 'No issues found in offline mode' : undefined
-    };
-  }
-  
-  // S7: Get cached response
-  // Retrieves a cached response if available
-  getCachedResponse(key: string): LLMResponse | undefined {
-    return this.cache.get(key);
-  }
-  
-  // Helper method for basic spell checking
-  private findMisspelledWords(words: string[]): Array<{ original: string, suggestion: string }> {
-    // This is a very simplified spell checker for offline mode
-    // In a real app, you'd use a proper spell checking library
-    const commonMisspellings: Record<string, string> = {
-      'teh': 'the',
-      'adn': 'and',
-      'waht': 'what',
-      'thier': 'their',
-      'recieve': 'receive',
-      'alot': 'a lot',
-      'seperate': 'separate',
-      'definately': 'definitely',
-      'accomodate': 'accommodate',
-      'occured': 'occurred',
-      'untill': 'until',
-      'wierd': 'weird'
-    };
-    
-    return words
-      .filter(word => commonMisspellings[word.toLowerCase()])
-      .map(word => ({
-        original: word,
-        suggestion: commonMisspellings[word.toLowerCase()]
+  // Spell checks the text against the bundled dictionary of its language when no provider can be reached
+  // Misspellings not covered by the user dictionary come back as issues; the suggestion is the whole text with each one corrected
+  async handleOfflineMode(text: string, language: string = 'en'): Promise<LLMResponse> {
+    const languageName = LANGUAGE_NAMES[language] || language;
+    
+    if (SPELLCHECK_LANGUAGES.indexOf(language) < 0) {
+      return {
+        original: text,
+        suggestions: [],
+        error: `${ErrorCodes.NETWORK_ERROR}: Offline spell checking is not available for ${languageName}`
+      };
+    }
+    
+    try {
+      const misspellings = await this.checkSpelling(text, language);
+    
+      const found: GrammarIssue[] = misspellings.map(misspelling => ({
+        offset: misspelling.offset,
+        length: misspelling.length,
+        original: misspelling.word,
+        replacement: misspelling.suggestions[0] || misspelling.word,
+        category: 'spelling',
+        explanation: misspelling.suggestions.length > 0
+          ? `Not in the ${languageName} dictionary`
+          : `Not in the ${languageName} dictionary, and nothing close to it is`,
+        confidence: SPELLING_CONFIDENCE,
+        alternatives: misspelling.suggestions.slice(1)
       }));
+      const ignored = await this.findIgnoredIssues(found);
+      const issues = found.filter((_, index) => ignored.indexOf(index) < 0);
+      
+      // Corrections are applied back to front so earlier offsets stay valid
+      const corrected = issues.reduceRight(
+        (result, issue) => result.slice(0, issue.offset) + issue.replacement + result.slice(issue.offset + issue.length),
+        text
+      );
+      
+      return {
+        original: text,
+        suggestions: issues.length > 0 ? [{ text: corrected, confidence: SPELLING_CONFIDENCE, type: 'spelling' }] : [],
+        issues
+      };
+    } catch (error) {
+      console.error('Error spell checking offline:', error);
+      return {
+        original: text,
+        suggestions: [],
+        error: `${ErrorCodes.UNKNOWN_ERROR}: Offline spell checking failed`
+      };
+    }
+  }
+  
+  // S18: Check spelling
+  // Finds the misspelled words of a text in the spell checker worker, which needs no network
+  checkSpelling(text: string, language: string): Promise<Misspelling[]> {
+    if (!this.worker) {
+      return Promise.reject(new Error('Spell checker is not available'));
+    }
+    
+    const id = this.nextSpellCheckId++;
+    const dictionaryUrl = new URL('dictionaries/', document.baseURI).href;
+    
+    return new Promise((resolve, reject) => {
+      this.spellChecks.set(id, { resolve, reject });
+      this.worker!.postMessage({ id, text, language, dictionaryUrl });
+    });
+  }
+  
+  // S7: Cancel request
+  // Stops a debounced call that hasn't been sent yet, the running batch and the request in flight
+  async cancel(requestId: string | null): Promise<void> {
+    this.batchCancelled = true;
+    this.requestDebouncer.cancel(new Error(`${ErrorCodes.CANCELLED}: Request cancelled`));
+    
+    await this.cancelRequest(requestId);
+  }
+  
+  // S19: Cancel one request
+  // Stops only the request in flight with this ID, leaving debounced calls and batches of other callers alone
+  async cancelRequest(requestId: string | null): Promise<void> {
+    if (!requestId) return;
+    
+    try {
+      await IPCBridge.invoke<boolean>(IpcChannels.AI_CANCEL, requestId);
+    } catch (error) {
+      console.error('Error cancelling request:', error);
+    }
+  }
+  
+  // S17: Check offline state
+  // Offline means no provider requests can go to is reachable, not that the network is down:
+  // a local server works without one, and a cloud provider can fail with it
+  isOffline(): boolean {
+    return !!this.health && !this.health.available;
+  }
+  
+  // S8: Check for cancellation
+  // Tells whether an error message comes from a cancelled request
+  isCancelled(errorMessage?: string): boolean {
+    return !!errorMessage && errorMessage.startsWith(ErrorCodes.CANCELLED);
+  }
+  
+  // S9: Parse partial suggestions
+  // Extracts readable suggestion texts (or grammar replacements, translations) from JSON that is still streaming in
+  parsePartialSuggestions(streamedText: string): string[] {
+    const texts: string[] = [];
+    const textPattern = /"(?:text|replacement|translation)"\s*:\s*"((?:[^"\\]|\\.)*)/g;
+    
+    let match: RegExpExecArray | null;
+    while ((match = textPattern.exec(streamedText)) !== null) {
+      const text = this.decodePartialString(match[1]);
+      if (text) {
+        texts.push(text);
+      }
+    }
+    
+    return texts;
+  }
+  
+  // S10: Split text into chunks
+  // Groups paragraphs into chunks within the character budget, splitting oversized paragraphs at sentence ends
+  splitIntoChunks(text: string, budget: number = CHUNK_CHAR_BUDGET): TextChunk[] {
+    const chunks: TextChunk[] = [];
+    const paragraphPattern = /\S(?:[^\n]|\n(?![ \t]*(?:\n|$)))*/g;
+    let current: TextChunk | null = null;
+    
+    let match: RegExpExecArray | null;
+    while ((match = paragraphPattern.exec(text)) !== null) {
+      const paragraph = { offset: match.index, text: match[0].replace(/\s+$/, '') };
+      const pieces = paragraph.text.length > budget ? this.splitParagraph(paragraph, budget) : [paragraph];
+      
+      for (let i = 0; i < pieces.length; i++) {
+        const end = pieces[i].offset + pieces[i].text.length;
+        
+        if (current && end - current.offset <= budget) {
+          // Keep the text between paragraphs so offsets inside the chunk stay valid
+          current.text = text.slice(current.offset, end);
+        } else {
+          if (current) chunks.push(current);
+          current = { ...pieces[i] };
+        }
+      }
+    }
+    
+    if (current) chunks.push(current);
+    
+    return chunks;
+  }
+  
+  // Helper method to keep the provider health up to date
+  private followHealth(): void {
+    if (typeof window === 'undefined' || !window.electronAPI) return;
+    
+    IPCBridge.on(IpcChannels.AI_HEALTH_STATUS, (status: HealthStatus) => {
+      this.health = status;
+    });
+    
+    IPCBridge.invoke<HealthStatus>(IpcChannels.AI_HEALTH_GET)
+      .then(status => {
+        // An update may have arrived first
+        if (!this.health) this.health = status;
+      })
+      .catch(error => console.error('Error getting provider health:', error));
+  }
+  
+  // Helper method to find the issues the user dictionary of the open document hides, hiding none when it can't be read
+  private async findIgnoredIssues(issues: GrammarIssue[]): Promise<number[]> {
+    if (issues.length === 0 || typeof window === 'undefined' || !window.electronAPI) return [];
+    
+    try {
+      return await IPCBridge.invoke<number[]>(IpcChannels.DICTIONARY_FILTER, { issues });
+    } catch (error) {
+      console.error('Error applying the user dictionary:', error);
+      return [];
+    }
+  }
+  
+  // Helper method to send a debounced request for generated text, which has no offline fallback
+  private generateText(
+    channel: string,
+    data: { text: string; format?: SummaryFormat; targetLength?: number },
+    action: string
+  ): Promise<LLMResponse> {
+    return this.requestDebouncer.debounce(async () => {
+      if (this.isOffline()) {
+        return {
+          original: data.text,
+          suggestions: [],
+          error: `${ErrorCodes.NETWORK_ERROR}: ${action} is not available offline`
+        };
+      }
+      
+      return await IPCBridge.invoke<LLMResponse>(channel, data);
+    });
+  }
+  
+  // Helper method to send one text of a batch straight to the main process
+  // Bypasses the debouncer, which would cancel all but the last call; failures become response errors
+  private async processBatchItem(text: string, operation: 'grammar-check' | 'rephrase', options: BatchOptions): Promise<LLMResponse> {
+    try {
+      // Offline the spell checker stands in for grammar checks
+      if (this.isOffline() && operation === 'grammar-check') {
+        return await this.handleOfflineMode(text, options.language);
+      }
+      
+      // Marked as batch work so the main process queues it behind interactive requests
+      const response = operation === 'grammar-check'
+        ? await IPCBridge.invoke<LLMResponse>(IpcChannels.AI_CHECK_GRAMMAR, { text, language: options.language, batch: true })
+        : await IPCBridge.invoke<LLMResponse>(IpcChannels.AI_REPHRASE_TEXT, { text, style: options.style, batch: true });
+      
+      return response;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return { original: text, suggestions: [], error: errorMessage };
+    }
+  }
+  
+  // Helper method to cut a paragraph longer than the budget into pieces
+  // Prefers sentence ends, then whitespace, and only cuts mid-word as a last resort
+  private splitParagraph(paragraph: TextChunk, budget: number): TextChunk[] {
+    const pieces: TextChunk[] = [];
+    const text = paragraph.text;
+    let start = 0;
+    
+    while (text.length - start > budget) {
+      const window = text.slice(start, start + budget);
+      
+      let cut = -1;
+      const sentenceEnd = /[.!?]["')\]]*\s/g;
+      let match: RegExpExecArray | null;
+      while ((match = sentenceEnd.exec(window)) !== null) {
+        cut = match.index + match[0].length - 1;
+      }
+      
+      if (cut <= 0) {
+        cut = window.lastIndexOf(' ');
+      }
+      if (cut <= 0) {
+        cut = budget;
+      }
+      
+      pieces.push({ offset: paragraph.offset + start, text: window.slice(0, cut).replace(/\s+$/, '') });
+      
+      start += cut;
+      while (start < text.length && /\s/.test(text[start])) {
+        start++;
+      }
+    }
+    
+    pieces.push({ offset: paragraph.offset + start, text: text.slice(start) });
+    
+    return pieces;
+  }
+  
+  // Helper method to decode a JSON string body that may be cut off mid unicode escape
+  private decodePartialString(value: string): string {
+    const complete = value.replace(/\\u[0-9a-fA-F]{0,3}$/, '');
+    
+    try {
+      return JSON.parse(`"${complete}"`);
+    } catch (error) {
+      return complete;
+    }
   }
 }
 
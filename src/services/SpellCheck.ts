@@ -0,0 +1,44 @@
+import { Misspelling } from '../interfaces/types';
+
+// Words: letters, marks and digits, joined by inner apostrophes and hyphens
+const WORD_PATTERN = /[\p{L}\p{M}\p{N}_]+(?:['’-][\p{L}\p{M}\p{N}_]+)*/gu;
+
+// Spans that aren't prose: links and email addresses
+const SKIP_PATTERN = /(?:https?:\/\/|www\.)\S+|[^\s@]+@[^\s@]+\.[^\s@]+/g;
+
+// Words with digits or underscores are codes and identifiers, not misspellings
+const CODE_PATTERN = /[\p{N}_]/u;
+
+// Helper to find the misspelled words of a text
+// checkWord returns the suggestions of a misspelled word and null for one spelled correctly
+// A hyphenated word that isn't in the dictionary as a whole is fine when each of its parts is
+export const findMisspellings = (text: string, checkWord: (word: string) => string[] | null): Misspelling[] => {
+  const prose = text.replace(SKIP_PATTERN, match => ' '.repeat(match.length));
+  const misspellings: Misspelling[] = [];
+  
+  let match: RegExpExecArray | null;
+  WORD_PATTERN.lastIndex = 0;
+  while ((match = WORD_PATTERN.exec(prose)) !== null) {
+    const word = match[0];
+    if (CODE_PATTERN.test(word)) continue;
+    
+    const suggestions = checkWord(word);
+    if (!suggestions) continue;
+    
+    if (word.indexOf('-') < 0) {
+      misspellings.push({ offset: match.index, length: word.length, word, suggestions });
+      continue;
+    }
+    
+    let offset = match.index;
+    word.split('-').forEach(part => {
+      const partSuggestions = checkWord(part);
+      if (partSuggestions) {
+        misspellings.push({ offset, length: part.length, word: part, suggestions: partSuggestions });
+      }
+      offset += part.length + 1;
+    });
+  }
+  
+  return misspellings;
+};
@@ -0,0 +1,83 @@
+import { HunspellDictionary } from './HunspellDictionary';
+import { findMisspellings } from './SpellCheck';
+import { SpellCheckReply, SpellCheckRequest } from '../interfaces/types';
+
+// Results kept per language before the word cache starts over
+const MAX_CACHED_WORDS = 5000;
+
+// Spell checker worker
+// Loads the bundled Hunspell dictionaries on first use and reports the misspelled words of each text it is sent,
+// so checking and suggesting never block the editor
+
+// eslint-disable-next-line no-restricted-globals
+const context = self as unknown as Worker;
+
+// Dictionaries by language; a dictionary that failed to load is tried again on the next request
+const dictionaries: Map<string, Promise<HunspellDictionary>> = new Map();
+
+// Suggestions of each word checked so far by language, null for words spelled correctly
+const wordCache: Map<string, Map<string, string[] | null>> = new Map();
+
+// Helper to load a text file
+// XMLHttpRequest rather than fetch, which doesn't read the file: URLs the packaged app is served from
+const loadText = (url: string): Promise<string> => new Promise((resolve, reject) => {
+  const request = new XMLHttpRequest();
+  request.open('GET', url);
+  request.overrideMimeType('text/plain; charset=utf-8');
+  request.onload = () => {
+    // file: URLs answer with status 0
+    if (request.status === 200 || (request.status === 0 && request.responseText)) {
+      resolve(request.responseText);
+    } else {
+      reject(new Error(`Failed to load ${url} (status ${request.status})`));
+    }
+  };
+  request.onerror = () => reject(new Error(`Failed to load ${url}`));
+  request.send();
+});
+
+// Helper to get the dictionary of a language, loading it on first use
+const getDictionary = (language: string, dictionaryUrl: string): Promise<HunspellDictionary> => {
+  let dictionary = dictionaries.get(language);
+  
+  if (!dictionary) {
+    const base = `${dictionaryUrl}${language}/index`;
+    dictionary = Promise.all([loadText(`${base}.aff`), loadText(`${base}.dic`)])
+      .then(([aff, dic]) => new HunspellDictionary(aff, dic));
+    dictionary.catch(() => dictionaries.delete(language));
+    dictionaries.set(language, dictionary);
+  }
+  
+  return dictionary;
+};
+
+// Helper to check one word, returning its suggestions when misspelled and null otherwise
+const checkWord = (dictionary: HunspellDictionary, language: string, word: string): string[] | null => {
+  let cache = wordCache.get(language);
+  if (!cache || cache.size >= MAX_CACHED_WORDS) {
+    cache = new Map();
+    wordCache.set(language, cache);
+  }
+  
+  let result = cache.get(word);
+  if (result === undefined) {
+    result = dictionary.check(word) ? null : dictionary.suggest(word);
+    cache.set(word, result);
+  }
+  
+  return result;
+};
+
+context.addEventListener('message', async (event: MessageEvent<SpellCheckRequest>) => {
+  const { id, text, language, dictionaryUrl } = event.data;
+  let reply: SpellCheckReply;
+  
+  try {
+    const dictionary = await getDictionary(language, dictionaryUrl);
+    reply = { id, misspellings: findMisspellings(text, word => checkWord(dictionary, language, word)) };
+  } catch (error) {
+    reply = { id, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+  
+  context.postMessage(reply);
+});
@@ -0,0 +1,355 @@
+/**
+ * @jest-environment node
+ */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as electronLog from 'electron-log';
+import {
+  LLMService,
+  LLMError,
+  OpenAICompatibleProvider,
+  createDefaultRegistry
+} from '../../main/llm-service';
+import { LLMCache } from '../../main/llm-cache';
+import { PromptTemplateStore } from '../../main/prompt-templates';
+import { UsageLog } from '../../main/usage-log';
+import { ErrorCodes } from '../../main/constants';
+import { MockLLMServer, MockReply } from './mock-llm-server';
+
+// The service only reaches Electron for its default storage paths, which every test replaces
+jest.mock('electron', () => ({
+  app: {
+    getPath: () => require('os').tmpdir(),
+    getName: () => 'ai-notepad-test',
+    getVersion: () => '0.0.0',
+    on: () => undefined,
+    isReady: () => true
+  }
+}));
+jest.mock('electron-store', () => jest.fn());
+
+// Local server that gives up quickly, so timeouts don't hold the suite up
+class QuickLocalProvider extends OpenAICompatibleProvider {
+  readonly defaultTimeout: number = 200;
+}
+
+const TEXT = 'She go to school every day.';
+
+// Grammar reply for TEXT
+const GRAMMAR_REPLY = JSON.stringify({
+  issues: [{
+    original: 'go',
+    replacement: 'goes',
+    offset: 4,
+    category: 'grammar',
+    explanation: 'The verb must agree with a singular subject.',
+    confidence: 0.9
+  }]
+});
+
+// Rephrase reply for TEXT
+const REPHRASE_REPLY = JSON.stringify({
+  suggestions: [{ text: 'She attends school every day.', confidence: 0.8, type: 'rephrasing' }]
+});
+
+// Helper to script a completion text
+const text = (content: string): MockReply => ({ kind: 'text', text: content });
+
+// Helper to read the error code of a failed response
+const errorCode = (error?: string): string => (error || '').split(':')[0];
+
+describe('LLMService provider contract', () => {
+  const server = new MockLLMServer();
+  let dataDir: string;
+  let service: LLMService;
+  
+  // Helper to create a service storing its cache, templates and usage in the test's directory
+  const createService = (registry = createDefaultRegistry()): LLMService => new LLMService(
+    registry,
+    new LLMCache(path.join(dataDir, 'llm-cache.json')),
+    new PromptTemplateStore(path.join(dataDir, 'prompt-templates.json')),
+    new UsageLog(path.join(dataDir, 'usage-log.jsonl'), path.join(dataDir, 'usage-daily.json'))
+  );
+  
+  beforeAll(async () => {
+    electronLog.transports.console.level = false;
+    electronLog.transports.file.level = false;
+    await server.start();
+  });
+  
+  afterAll(async () => {
+    await server.stop();
+  });
+  
+  beforeEach(() => {
+    server.reset();
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-contract-'));
+    service = createService();
+    service.initialize('local', {}, { local: server.openaiUrl });
+  });
+  
+  afterEach(() => {
+    service.flushCache();
+    service.flushUsage();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+  
+  describe('OpenAI-compatible protocol', () => {
+    test('checkGrammar sends the text and returns located issues', async () => {
+      server.enqueue(text(GRAMMAR_REPLY));
+      
+      const response = await service.checkGrammar(TEXT, 'en');
+      
+      expect(response.error).toBeUndefined();
+      expect(response.issues).toEqual([expect.objectContaining({ offset: 4, length: 2, original: 'go', replacement: 'goes' })]);
+      expect(server.requests).toHaveLength(1);
+      expect(server.requests[0].protocol).toBe('openai');
+      expect(server.requests[0].body.messages.map((message: any) => message.role)).toEqual(['system', 'user']);
+      expect(server.requests[0].body.messages[1].content).toContain(TEXT);
+    });
+    
+    test('checkGrammar asks once for a repair of malformed JSON', async () => {
+      server.enqueue(text('{"issues": [{"original": "go"'), text(GRAMMAR_REPLY));
+      
+      const response = await service.checkGrammar(TEXT, 'en');
+      
+      expect(response.error).toBeUndefined();
+      expect(response.issues).toHaveLength(1);
+      expect(server.requests).toHaveLength(2);
+    });
+    
+    test('checkGrammar reports a parse error when the repair is malformed too', async () => {
+      server.enqueue(text('not json'), text('still not json'));
+      
+      const response = await service.checkGrammar(TEXT, 'en');
+      
+      expect(errorCode(response.error)).toBe(ErrorCodes.LLM_PARSE_ERROR);
+      expect(response.issues).toBeUndefined();
+      expect(server.requests).toHaveLength(2);
+    });
+    
+    test('rephraseText returns the suggestions', async () => {
+      server.enqueue(text(REPHRASE_REPLY));
+      
+      const response = await service.rephraseText(TEXT, 'formal');
+      
+      expect(response.error).toBeUndefined();
+      expect(response.provider).toBe('local');
+      expect(response.suggestions).toEqual([
+        expect.objectContaining({ text: 'She attends school every day.', type: 'rephrasing' })
+      ]);
+    });
+    
+    test('a fence around the reply is unwrapped but fences inside its text are kept', async () => {
+      const suggestion = 'Run this:\n```js\nconsole.log("hi");\n```\nThen stop.';
+      const reply = JSON.stringify({ suggestions: [{ text: suggestion, confidence: 0.8, type: 'rephrasing' }] });
+      server.enqueue(text(`\`\`\`json\n${reply}\n\`\`\``), text(reply));
+      
+      const fencedResponse = await service.rephraseText(TEXT, 'formal');
+      const plainResponse = await service.rephraseText('Another text to rephrase.', 'formal');
+      
+      expect(fencedResponse.error).toBeUndefined();
+      expect(fencedResponse.suggestions[0].text).toBe(suggestion);
+      expect(plainResponse.suggestions[0].text).toBe(suggestion);
+    });
+    
+    test('rephraseText streams the reply as it arrives', async () => {
+      const chunks = [REPHRASE_REPLY.slice(0, 20), REPHRASE_REPLY.slice(20, 50), REPHRASE_REPLY.slice(50)];
+      server.enqueue({ kind: 'stream', chunks, delayMs: 5 });
+      const deltas: string[] = [];
+      
+      const response = await service.rephraseText(TEXT, 'formal', { onDelta: delta => deltas.push(delta) });
+      
+      expect(server.requests[0].stream).toBe(true);
+      expect(deltas).toEqual([chunks[0], chunks[0] + chunks[1], REPHRASE_REPLY]);
+      expect(response.suggestions[0].text).toBe('She attends school every day.');
+    });
+    
+    test('a malformed response body is reported as an invalid response', async () => {
+      server.enqueue({ kind: 'malformed' });
+      
+      const response = await service.rephraseText(TEXT, 'formal');
+      
+      expect(errorCode(response.error)).toBe(ErrorCodes.LLM_INVALID_RESPONSE);
+    });
+  });
+  
+  describe('Gemini protocol', () => {
+    beforeEach(() => {
+      service.initialize('gemini', { gemini: 'test-key' }, { gemini: server.geminiUrl });
+    });
+    
+    test('checkGrammar calls generateContent with the API key', async () => {
+      server.enqueue(text(GRAMMAR_REPLY));
+      
+      const response = await service.checkGrammar(TEXT, 'en');
+      
+      expect(response.error).toBeUndefined();
+      expect(response.issues).toEqual([expect.objectContaining({ offset: 4, replacement: 'goes' })]);
+      expect(server.requests[0].protocol).toBe('gemini');
+      expect(server.requests[0].path).toMatch(/:generateContent$/);
+      expect(server.requests[0].headers['x-goog-api-key']).toBe('test-key');
+      expect(server.requests[0].body.contents[0].parts[0].text).toContain(TEXT);
+    });
+    
+    test('rephraseText streams through streamGenerateContent', async () => {
+      server.enqueue({ kind: 'stream', chunks: [REPHRASE_REPLY.slice(0, 30), REPHRASE_REPLY.slice(30)] });
+      const deltas: string[] = [];
+      
+      const response = await service.rephraseText(TEXT, 'formal', { onDelta: delta => deltas.push(delta) });
+      
+      expect(server.requests[0].path).toMatch(/:streamGenerateContent$/);
+      expect(deltas).toHaveLength(2);
+      expect(response.suggestions[0].text).toBe('She attends school every day.');
+    });
+    
+    test('a rejected API key is reported as an auth error without retrying', async () => {
+      server.enqueue({ kind: 'error', status: 401, message: 'API key not valid' });
+      
+      const response = await service.rephraseText(TEXT, 'formal');
+      
+      expect(errorCode(response.error)).toBe(ErrorCodes.AUTH_ERROR);
+      expect(response.error).toContain('API key not valid');
+      expect(server.requests).toHaveLength(1);
+    });
+  });
+  
+  describe('caching', () => {
+    test('an identical request is answered from the cache', async () => {
+      server.enqueue(text(REPHRASE_REPLY));
+      
+      const first = await service.rephraseText(TEXT, 'formal');
+      const second = await service.rephraseText(TEXT, 'formal');
+      
+      expect(second.suggestions).toEqual(first.suggestions);
+      expect(server.requests).toHaveLength(1);
+      expect(service.getCacheStats().hits).toBe(1);
+    });
+    
+    test('a request with other options is sent again', async () => {
+      server.enqueue(text(REPHRASE_REPLY), text(REPHRASE_REPLY));
+      
+      await service.rephraseText(TEXT, 'formal');
+      await service.rephraseText(TEXT, 'casual');
+      
+      expect(server.requests).toHaveLength(2);
+    });
+    
+    test('failed requests are not cached', async () => {
+      server.enqueue({ kind: 'error', status: 401 }, text(REPHRASE_REPLY));
+      
+      const failed = await service.rephraseText(TEXT, 'formal');
+      const retried = await service.rephraseText(TEXT, 'formal');
+      
+      expect(failed.error).toBeDefined();
+      expect(retried.error).toBeUndefined();
+      expect(server.requests).toHaveLength(2);
+    });
+  });
+  
+  describe('fallback', () => {
+    beforeEach(() => {
+      service.initialize('local', { gemini: 'test-key' }, { local: server.openaiUrl, gemini: server.geminiUrl });
+    });
+    
+    test('a failing provider falls back to the next one the user allowed', async () => {
+      service.setFallbackChain(['gemini'], { gemini: true });
+      server.enqueue({ kind: 'error', status: 401 }, text(REPHRASE_REPLY));
+      
+      const response = await service.rephraseText(TEXT, 'formal');
+      
+      expect(response.error).toBeUndefined();
+      expect(response.provider).toBe('gemini');
+      expect(server.requests.map(request => request.protocol)).toEqual(['openai', 'gemini']);
+    });
+    
+    test('a cloud fallback without consent is skipped', async () => {
+      service.setFallbackChain(['gemini'], {});
+      server.enqueue({ kind: 'error', status: 401 });
+      
+      const response = await service.rephraseText(TEXT, 'formal');
+      
+      expect(errorCode(response.error)).toBe(ErrorCodes.AUTH_ERROR);
+      expect(server.requests.map(request => request.protocol)).toEqual(['openai']);
+    });
+    
+    test('a fallback reply is not cached for the configured provider', async () => {
+      service.setFallbackChain(['gemini'], { gemini: true });
+      server.enqueue({ kind: 'error', status: 401 }, text(REPHRASE_REPLY), text(REPHRASE_REPLY));
+      
+      await service.rephraseText(TEXT, 'formal');
+      const response = await service.rephraseText(TEXT, 'formal');
+      
+      expect(response.provider).toBe('local');
+      expect(server.requests.map(request => request.protocol)).toEqual(['openai', 'gemini', 'openai']);
+    });
+  });
+  
+  describe('handleError code mapping', () => {
+    test('401 maps to an auth error', async () => {
+      server.enqueue({ kind: 'error', status: 401, message: 'Invalid API key' });
+      
+      const response = await service.checkGrammar(TEXT, 'en');
+      
+      expect(errorCode(response.error)).toBe(ErrorCodes.AUTH_ERROR);
+      expect(response.original).toBe(TEXT);
+      expect(response.suggestions).toEqual([]);
+    });
+    
+    test('429 maps to a rate limit error once the retries are used up', async () => {
+      server.enqueue(
+        { kind: 'error', status: 429, message: 'Slow down' },
+        { kind: 'error', status: 429, message: 'Slow down' },
+        { kind: 'error', status: 429, message: 'Slow down' }
+      );
+      
+      const response = await service.rephraseText(TEXT, 'formal');
+      
+      expect(errorCode(response.error)).toBe(ErrorCodes.RATE_LIMIT_ERROR);
+      expect(server.requests).toHaveLength(3);
+    });
+    
+    test('429 is retried and a later success is returned', async () => {
+      server.enqueue({ kind: 'error', status: 429 }, text(REPHRASE_REPLY));
+      
+      const response = await service.rephraseText(TEXT, 'formal');
+      
+      expect(response.error).toBeUndefined();
+      expect(server.requests).toHaveLength(2);
+    });
+    
+    test('a server that never answers maps to a timeout error', async () => {
+      const registry = createDefaultRegistry();
+      registry.register(new QuickLocalProvider());
+      service = createService(registry);
+      service.initialize('local', {}, { local: server.openaiUrl });
+      server.enqueue({ kind: 'timeout' });
+      
+      // Background requests aren't retried
+      const response = await service.rephraseText(TEXT, 'formal', { background: true });
+      
+      expect(errorCode(response.error)).toBe(ErrorCodes.TIMEOUT_ERROR);
+    });
+    
+    test('an unreachable server maps to a network error', async () => {
+      service.initialize('local', {}, { local: 'http://127.0.0.1:9/v1' });
+      
+      const response = await service.rephraseText(TEXT, 'formal', { background: true });
+      
+      expect(errorCode(response.error)).toBe(ErrorCodes.NETWORK_ERROR);
+    });
+    
+    test('errors that were not mapped by a provider are classified by their message', () => {
+      const request = { text: TEXT, operation: 'rephrase' };
+      
+      expect(service.handleError(new LLMError(ErrorCodes.VALIDATION_ERROR, 'Too long'), request).error)
+        .toBe(`${ErrorCodes.VALIDATION_ERROR}: Too long`);
+      expect(errorCode(service.handleError(new Error('Gemini API key not configured'), request).error))
+        .toBe(ErrorCodes.AUTH_ERROR);
+      expect(errorCode(service.handleError(new Error('Request timeout'), request).error))
+        .toBe(ErrorCodes.TIMEOUT_ERROR);
+      expect(errorCode(service.handleError('boom', request).error)).toBe(ErrorCodes.UNKNOWN_ERROR);
+    });
+  });
+});
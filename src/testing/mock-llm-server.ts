@@ -0,0 +1,275 @@
+import * as http from 'http';
+import { AddressInfo, Socket } from 'net';
+
+// Scripted reply of the mock server, used for the next request it receives
+export type MockReply =
+  // Completion text, streamed as a single event when the request asks for a stream
+  | { kind: 'text'; text: string; usage?: MockUsage }
+  // Completion text split into stream events, joined when the request doesn't ask for a stream
+  | { kind: 'stream'; chunks: string[]; delayMs?: number; usage?: MockUsage }
+  // A 200 response whose body is cut off mid-JSON
+  | { kind: 'malformed' }
+  // An error status in the protocol's error format, e.g. 401 or 429
+  | { kind: 'error'; status: number; message?: string }
+  // No answer at all until the client gives up or the server stops
+  | { kind: 'timeout' };
+
+// Token counts reported with a reply
+export interface MockUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+// Request received by the mock server
+export interface MockRequest {
+  protocol: 'openai' | 'gemini';
+  method: string;
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+  model: string;
+  stream: boolean;
+}
+
+// Model listed by both protocols
+const MOCK_MODEL = 'mock-model';
+
+// Mock LLM server
+// Speaks the OpenAI-compatible chat completions protocol under /v1 and the Gemini generateContent protocol under /v1beta,
+// answering each completion with the next scripted reply
+export class MockLLMServer {
+  // Every request received, oldest first
+  readonly requests: MockRequest[] = [];
+  private server: http.Server;
+  private replies: MockReply[] = [];
+  private defaultReply: MockReply | null;
+  // Open connections, closed on stop so requests left hanging by a timeout reply end too
+  private sockets: Set<Socket> = new Set();
+  private port: number = 0;
+  
+  // S1: Create mock server
+  // Takes the reply used once the scripted ones run out; without one such requests get a 500
+  constructor(defaultReply: MockReply | null = null) {
+    this.defaultReply = defaultReply;
+    this.server = http.createServer((req, res) => this.handle(req, res));
+    this.server.on('connection', socket => {
+      this.sockets.add(socket);
+      socket.on('close', () => this.sockets.delete(socket));
+    });
+  }
+  
+  // S2: Start server
+  // Listens on a free local port, or the given one
+  start(port: number = 0): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, '127.0.0.1', () => {
+        this.port = (this.server.address() as AddressInfo).port;
+        resolve();
+      });
+    });
+  }
+  
+  // S3: Stop server
+  // Closes the server along with any request still waiting for an answer
+  stop(): Promise<void> {
+    this.sockets.forEach(socket => socket.destroy());
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+  
+  // S4: Get base URLs
+  // Returns the base URL of each protocol, as set in the app's provider settings
+  get openaiUrl(): string {
+    return `http://127.0.0.1:${this.port}/v1`;
+  }
+  
+  get geminiUrl(): string {
+    return `http://127.0.0.1:${this.port}/v1beta`;
+  }
+  
+  // S5: Script replies
+  // Queues replies for the next completion requests, whichever protocol they use
+  enqueue(...replies: MockReply[]): void {
+    this.replies.push(...replies);
+  }
+  
+  // S6: Reset server
+  // Drops the scripted replies and the request log
+  reset(): void {
+    this.replies = [];
+    this.requests.length = 0;
+  }
+  
+  // Helper method to route a request by protocol
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    let raw = '';
+    req.setEncoding('utf8');
+    req.on('data', chunk => {
+      raw += chunk;
+    });
+    req.on('end', () => {
+      const url = new URL(req.url || '/', `http://127.0.0.1:${this.port}`);
+      const method = req.method || 'GET';
+      
+      if (method === 'GET' && url.pathname === '/v1/models') {
+        this.sendJson(res, 200, { object: 'list', data: [{ id: MOCK_MODEL, object: 'model' }] });
+        return;
+      }
+      
+      if (method === 'GET' && url.pathname === '/v1beta/models') {
+        this.sendJson(res, 200, {
+          models: [{ name: `models/${MOCK_MODEL}`, supportedGenerationMethods: ['generateContent'] }]
+        });
+        return;
+      }
+      
+      let body: any = null;
+      try {
+        body = raw ? JSON.parse(raw) : null;
+      } catch (error: unknown) {
+        this.sendJson(res, 400, { error: { message: 'Request body is not valid JSON' } });
+        return;
+      }
+      
+      const gemini = url.pathname.match(/^\/v1beta\/models\/([^/:]+):(generateContent|streamGenerateContent)$/);
+      let request: MockRequest;
+      if (method === 'POST' && url.pathname === '/v1/chat/completions') {
+        request = { protocol: 'openai', method, path: url.pathname, headers: req.headers, body, model: body?.model || '', stream: !!body?.stream };
+      } else if (method === 'POST' && gemini) {
+        request = { protocol: 'gemini', method, path: url.pathname, headers: req.headers, body, model: gemini[1], stream: gemini[2] === 'streamGenerateContent' };
+      } else {
+        this.sendJson(res, 404, { error: { message: `No mock route for ${method} ${url.pathname}` } });
+        return;
+      }
+      
+      this.requests.push(request);
+      this.reply(request, res);
+    });
+  }
+  
+  // Helper method to answer a completion request with the next scripted reply
+  private async reply(request: MockRequest, res: http.ServerResponse): Promise<void> {
+    const reply = this.replies.shift() || this.defaultReply;
+    
+    if (!reply) {
+      this.sendError(request, res, 500, 'No scripted reply left');
+      return;
+    }
+    
+    switch (reply.kind) {
+      case 'timeout':
+        // Leave the request open, stop() or the client closes it
+        return;
+      case 'malformed':
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(request.protocol === 'openai' ? '{"choices": [{"message": {"content": "' : '{"candidates": [{"content": ');
+        return;
+      case 'error':
+        this.sendError(request, res, reply.status, reply.message || http.STATUS_CODES[reply.status] || 'Error');
+        return;
+    }
+    
+    const chunks = reply.kind === 'stream' ? reply.chunks : [reply.text];
+    if (!request.stream) {
+      this.sendJson(res, 200, this.buildCompletion(request, chunks.join(''), reply.usage));
+      return;
+    }
+    
+    res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+    for (let index = 0; index < chunks.length; index++) {
+      if (reply.kind === 'stream' && reply.delayMs) {
+        await new Promise(resolve => setTimeout(resolve, reply.delayMs));
+      }
+      const last = index === chunks.length - 1;
+      res.write(`data: ${JSON.stringify(this.buildStreamEvent(request, chunks[index], last ? reply.usage : undefined))}\n\n`);
+    }
+    
+    if (request.protocol === 'openai') {
+      // Usage comes in an event of its own when the client asks for it
+      if (reply.usage && request.body?.stream_options?.include_usage) {
+        res.write(`data: ${JSON.stringify({ choices: [], usage: toOpenAIUsage(reply.usage) })}\n\n`);
+      }
+      res.write('data: [DONE]\n\n');
+    }
+    res.end();
+  }
+  
+  // Helper method to build a full completion response
+  private buildCompletion(request: MockRequest, text: string, usage?: MockUsage): any {
+    if (request.protocol === 'gemini') {
+      return {
+        candidates: [{ content: { role: 'model', parts: [{ text }] }, finishReason: 'STOP', index: 0 }],
+        ...(usage ? { usageMetadata: toGeminiUsage(usage) } : {})
+      };
+    }
+    
+    return {
+      id: 'chatcmpl-mock',
+      object: 'chat.completion',
+      model: request.model,
+      choices: [{ index: 0, message: { role: 'assistant', content: text }, finish_reason: 'stop' }],
+      ...(usage ? { usage: toOpenAIUsage(usage) } : {})
+    };
+  }
+  
+  // Helper method to build one stream event, carrying the usage on the Gemini protocol's last event
+  private buildStreamEvent(request: MockRequest, text: string, usage?: MockUsage): any {
+    if (request.protocol === 'gemini') {
+      return {
+        candidates: [{ content: { role: 'model', parts: [{ text }] }, index: 0 }],
+        ...(usage ? { usageMetadata: toGeminiUsage(usage) } : {})
+      };
+    }
+    
+    return {
+      id: 'chatcmpl-mock',
+      object: 'chat.completion.chunk',
+      model: request.model,
+      choices: [{ index: 0, delta: { content: text } }]
+    };
+  }
+  
+  // Helper method to send an error in the format of the request's protocol
+  private sendError(request: MockRequest, res: http.ServerResponse, status: number, message: string): void {
+    if (request.protocol === 'gemini') {
+      this.sendJson(res, status, { error: { code: status, message, status: GEMINI_STATUS[status] || 'UNKNOWN' } });
+      return;
+    }
+    
+    this.sendJson(res, status, { error: { message, type: status === 429 ? 'rate_limit_exceeded' : 'api_error' } });
+  }
+  
+  // Helper method to send a JSON response
+  private sendJson(res: http.ServerResponse, status: number, data: any): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(data));
+  }
+}
+
+// Gemini error statuses by HTTP status
+const GEMINI_STATUS: Record<number, string> = {
+  400: 'INVALID_ARGUMENT',
+  401: 'UNAUTHENTICATED',
+  403: 'PERMISSION_DENIED',
+  429: 'RESOURCE_EXHAUSTED',
+  500: 'INTERNAL',
+  503: 'UNAVAILABLE'
+};
+
+// Helper to report token counts the way OpenAI does
+function toOpenAIUsage(usage: MockUsage): any {
+  return {
+    prompt_tokens: usage.promptTokens,
+    completion_tokens: usage.completionTokens,
+    total_tokens: usage.promptTokens + usage.completionTokens
+  };
+}
+
+// Helper to report token counts the way Gemini does
+function toGeminiUsage(usage: MockUsage): any {
+  return {
+    promptTokenCount: usage.promptTokens,
+    candidatesTokenCount: usage.completionTokens,
+    totalTokenCount: usage.promptTokens + usage.completionTokens
+  };
+}
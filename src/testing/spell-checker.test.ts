@@ -0,0 +1,154 @@
+import { HunspellDictionary } from '../services/HunspellDictionary';
+import { findMisspellings } from '../services/SpellCheck';
+
+// Small dictionary exercising the affix, compound, case and suggestion rules the checker implements
+const AFF = [
+  'SET UTF-8',
+  'TRY esianrtolcdugmphbyfvkwz',
+  'KEEPCASE K',
+  'COMPOUNDFLAG C',
+  'COMPOUNDMIN 3',
+  'ONLYINCOMPOUND O',
+  '',
+  'REP 1',
+  'REP f ph',
+  '',
+  'PFX U Y 1',
+  'PFX U 0 un .',
+  '',
+  'PFX R N 1',
+  'PFX R 0 re .',
+  '',
+  'SFX S Y 2',
+  'SFX S y ies [^aeiou]y',
+  'SFX S 0 s [^y]',
+  '',
+  'SFX D N 1',
+  'SFX D 0 ed .'
+].join('\n');
+
+const DIC = [
+  '14',
+  'lady/S',
+  'lock/USD',
+  'read/RS',
+  'cat/S',
+  'cut/S',
+  'bone',
+  'phone',
+  'foot/C',
+  'ball/C',
+  'inter/CO',
+  'gmail/K',
+  'Paris',
+  'well',
+  'known'
+].join('\n');
+
+describe('HunspellDictionary', () => {
+  let dictionary: HunspellDictionary;
+  
+  beforeEach(() => {
+    dictionary = new HunspellDictionary(AFF, DIC);
+  });
+  
+  test('suffixes are stripped when their condition holds', () => {
+    expect(dictionary.check('lady')).toBe(true);
+    expect(dictionary.check('ladies')).toBe(true);
+    expect(dictionary.check('ladys')).toBe(false);
+    expect(dictionary.check('cats')).toBe(true);
+  });
+  
+  test('prefixes are stripped', () => {
+    expect(dictionary.check('unlock')).toBe(true);
+    expect(dictionary.check('reread')).toBe(true);
+    expect(dictionary.check('unread')).toBe(false);
+  });
+  
+  test('a prefix and a suffix combine only when both allow cross products', () => {
+    expect(dictionary.check('unlocks')).toBe(true);
+    expect(dictionary.check('locked')).toBe(true);
+    expect(dictionary.check('unlocked')).toBe(false);
+    expect(dictionary.check('reads')).toBe(true);
+    expect(dictionary.check('rereads')).toBe(false);
+  });
+  
+  test('COMPOUNDFLAG words join into compounds, ONLYINCOMPOUND words only appear in them', () => {
+    expect(dictionary.check('football')).toBe(true);
+    expect(dictionary.check('ballfoot')).toBe(true);
+    expect(dictionary.check('footcat')).toBe(false);
+    expect(dictionary.check('interball')).toBe(true);
+    expect(dictionary.check('inter')).toBe(false);
+  });
+  
+  test('compounds are known words but never suggested', () => {
+    expect(dictionary.suggest('fotball')).not.toContain('football');
+  });
+  
+  test('lowercase roots allow title case and capitals unless marked KEEPCASE', () => {
+    expect(dictionary.check('Cat')).toBe(true);
+    expect(dictionary.check('CAT')).toBe(true);
+    expect(dictionary.check('gmail')).toBe(true);
+    expect(dictionary.check('Gmail')).toBe(false);
+    expect(dictionary.check('GMAIL')).toBe(false);
+  });
+  
+  test('title case roots allow capitals but not lower case', () => {
+    expect(dictionary.check('Paris')).toBe(true);
+    expect(dictionary.check('PARIS')).toBe(true);
+    expect(dictionary.check('paris')).toBe(false);
+  });
+  
+  test('REP table replacements rank ahead of single edits', () => {
+    expect(dictionary.suggest('fone')).toEqual(['phone', 'bone']);
+  });
+  
+  test('suggestions get the case of the misspelling', () => {
+    expect(dictionary.suggest('Fone')[0]).toBe('Phone');
+    expect(dictionary.suggest('paris')).toEqual(['Paris']);
+  });
+  
+  test('TRY letters fill in edits, a neighboring key ranking first', () => {
+    expect(dictionary.suggest('cst')).toEqual(['cat', 'cut']);
+    expect(dictionary.suggest('cxt')).toEqual(expect.arrayContaining(['cat', 'cut']));
+  });
+  
+  test('suggest stops at the limit', () => {
+    expect(dictionary.suggest('cxt', 1)).toHaveLength(1);
+  });
+});
+
+describe('findMisspellings', () => {
+  let dictionary: HunspellDictionary;
+  
+  // Same contract as the worker's cached lookup
+  const check = (word: string) => (dictionary.check(word) ? null : dictionary.suggest(word));
+  
+  beforeEach(() => {
+    dictionary = new HunspellDictionary(AFF, DIC);
+  });
+  
+  test('reports misspelled words with their position and suggestions', () => {
+    expect(findMisspellings('The cst ladies', check)).toEqual([
+      expect.objectContaining({ offset: 0, length: 3, word: 'The' }),
+      { offset: 4, length: 3, word: 'cst', suggestions: ['cat', 'cut'] }
+    ]);
+  });
+  
+  test('links and email addresses are skipped', () => {
+    const text = 'cats at https://www.example.com/cst and www.cxt.org or cst@example.org';
+    
+    expect(findMisspellings(text, check).map(misspelling => misspelling.word)).toEqual(['at', 'and', 'or']);
+  });
+  
+  test('words with digits or underscores are skipped', () => {
+    expect(findMisspellings('cat v2 snake_case', check)).toEqual([]);
+  });
+  
+  test('hyphenated words are checked by part', () => {
+    expect(findMisspellings('well-known', check)).toEqual([]);
+    expect(findMisspellings('well-knwn bone', check)).toEqual([
+      expect.objectContaining({ offset: 5, length: 4, word: 'knwn' })
+    ]);
+  });
+});
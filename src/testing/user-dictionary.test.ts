@@ -0,0 +1,163 @@
+/**
+ * @jest-environment node
+ */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as electronLog from 'electron-log';
+import {
+  UserDictionary,
+  UserDictionaryStore,
+  emptyEntries,
+  findDictionaryTerms,
+  isIgnoredIssue
+} from '../../main/user-dictionary';
+
+// The store only reaches Electron for its default path, which every test replaces
+jest.mock('electron', () => ({
+  app: {
+    getPath: () => require('os').tmpdir()
+  }
+}));
+jest.mock('electron-store', () => jest.fn());
+
+// Helper to build a dictionary from global words and rules
+const dictionaryOf = (words: string[], ignoreRules: UserDictionary['global']['ignoreRules'] = []): UserDictionary => ({
+  global: { words, ignoreRules },
+  workspacePath: null,
+  workspace: null
+});
+
+// Helper to build a spelling issue
+const issue = (original: string, replacement: string, category: string = 'spelling') => ({ original, replacement, category });
+
+describe('user dictionary', () => {
+  describe('isIgnoredIssue', () => {
+    test('an issue flagging a dictionary word is ignored', () => {
+      const dictionary = dictionaryOf(['kubectl']);
+      
+      expect(isIgnoredIssue(issue('kubectl', 'kubect'), dictionary)).toBe(true);
+      expect(isIgnoredIssue(issue('Kubectl', 'Kubect'), dictionary)).toBe(true);
+      expect(isIgnoredIssue(issue('kubect', 'kubectl'), dictionary)).toBe(false);
+    });
+    
+    test('words with capitals only match as written', () => {
+      const dictionary = dictionaryOf(['Acme']);
+      
+      expect(isIgnoredIssue(issue('Acme', 'Acne'), dictionary)).toBe(true);
+      expect(isIgnoredIssue(issue('acme', 'acne'), dictionary)).toBe(false);
+    });
+    
+    test('a longer fragment is ignored only when the fix changes the dictionary word', () => {
+      const dictionary = dictionaryOf(['Acme']);
+      
+      expect(isIgnoredIssue(issue('the Acme tool', 'the Acne tool'), dictionary)).toBe(true);
+      expect(isIgnoredIssue(issue('Acme are great', 'Acme is great', 'grammar'), dictionary)).toBe(false);
+    });
+    
+    test('dictionary words only match whole words', () => {
+      const dictionary = dictionaryOf(['kube']);
+      
+      expect(isIgnoredIssue(issue('kubectl', 'kubect'), dictionary)).toBe(false);
+    });
+    
+    test('plain ignore rules match the whole text ignoring case', () => {
+      const dictionary = dictionaryOf([], [{ pattern: 'e-mail', regex: false }]);
+      
+      expect(isIgnoredIssue(issue(' E-mail ', 'email', 'style'), dictionary)).toBe(true);
+      expect(isIgnoredIssue(issue('e-mails', 'emails', 'style'), dictionary)).toBe(false);
+    });
+    
+    test('regex ignore rules are searched in the text', () => {
+      const dictionary = dictionaryOf([], [{ pattern: '^v\\d+(\\.\\d+)*$', regex: true }]);
+      
+      expect(isIgnoredIssue(issue('v1.2.3', 'version 1.2.3'), dictionary)).toBe(true);
+      expect(isIgnoredIssue(issue('version 1', 'v1'), dictionary)).toBe(false);
+    });
+    
+    test('ignore rules with a category only hide issues of that category', () => {
+      const dictionary = dictionaryOf([], [{ pattern: 'e-mail', regex: false, category: 'Style' }]);
+      
+      expect(isIgnoredIssue(issue('e-mail', 'email', 'style'), dictionary)).toBe(true);
+      expect(isIgnoredIssue(issue('e-mail', 'email', 'spelling'), dictionary)).toBe(false);
+    });
+    
+    test('invalid regex rules match nothing', () => {
+      const dictionary = dictionaryOf([], [{ pattern: '(unclosed', regex: true }]);
+      
+      expect(isIgnoredIssue(issue('(unclosed', 'unclosed'), dictionary)).toBe(false);
+    });
+    
+    test('workspace entries apply along with the global ones', () => {
+      const dictionary: UserDictionary = {
+        global: emptyEntries(),
+        workspacePath: '/docs',
+        workspace: { words: ['kubectl'], ignoreRules: [] }
+      };
+      
+      expect(isIgnoredIssue(issue('kubectl', 'kubect'), dictionary)).toBe(true);
+    });
+  });
+  
+  describe('findDictionaryTerms', () => {
+    test('lists the dictionary words in a text', () => {
+      const dictionary = dictionaryOf(['kubectl', 'Acme', 'helm']);
+      
+      expect(findDictionaryTerms('Run KUBECTL for Acme, not acme.', dictionary)).toEqual(['kubectl', 'Acme']);
+    });
+  });
+  
+  describe('UserDictionaryStore', () => {
+    let directory: string;
+    let store: UserDictionaryStore;
+    
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ai-notepad-dictionary-'));
+      store = new UserDictionaryStore(path.join(directory, 'user-dictionary.json'));
+      jest.spyOn(electronLog, 'warn').mockImplementation(() => undefined);
+    });
+    
+    afterEach(() => {
+      jest.restoreAllMocks();
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+    
+    test('words are kept per scope and saved to disk', () => {
+      const document = path.join(directory, 'docs', 'notes.md');
+      
+      store.addWord('global', document, 'Acme');
+      store.addWord('workspace', document, 'kubectl');
+      
+      const reloaded = new UserDictionaryStore(path.join(directory, 'user-dictionary.json'));
+      expect(reloaded.get(document)).toEqual({
+        global: { words: ['Acme'], ignoreRules: [] },
+        workspacePath: path.dirname(document),
+        workspace: { words: ['kubectl'], ignoreRules: [] }
+      });
+      expect(reloaded.get(path.join(directory, 'other', 'notes.md')).workspace).toEqual(emptyEntries());
+    });
+    
+    test('blank and repeated entries are dropped', () => {
+      store.addWord('global', '', 'Acme');
+      store.addWord('global', '', ' Acme ');
+      store.addIgnoreRule('global', '', { pattern: 'e-mail', regex: false });
+      store.addIgnoreRule('global', '', { pattern: 'e-mail', regex: false, category: ' ' });
+      
+      expect(store.get('').global).toEqual({ words: ['Acme'], ignoreRules: [{ pattern: 'e-mail', regex: false }] });
+      expect(store.save('global', '', { words: ['Acme', '', 'Acme'], ignoreRules: [{ pattern: ' ', regex: false }] }).global)
+        .toEqual({ words: ['Acme'], ignoreRules: [] });
+    });
+    
+    test('an unsaved document has no workspace entries', () => {
+      expect(store.get('').workspace).toBeNull();
+      expect(() => store.addWord('workspace', '', 'kubectl')).toThrow();
+    });
+    
+    test('a file with an unknown layout is ignored', () => {
+      fs.writeFileSync(path.join(directory, 'user-dictionary.json'), JSON.stringify({ version: 99, words: ['Acme'] }));
+      
+      expect(store.get('').global).toEqual(emptyEntries());
+      expect(electronLog.warn).toHaveBeenCalled();
+    });
+  });
+});
@@ -1,3 +1,22 @@
+import {
+  ApiKeyStatus,
+  CacheStats,
+  ChatContext,
+  ChatMessage,
+  DictionaryEntries,
+  DictionaryScope,
+  GrammarIssue,
+  HealthStatus,
+  IgnoreRule,
+  PromptTemplate,
+  ProviderHealth,
+  RedactionPreview,
+  RedactionSettings,
+  UsageReport,
+  UsageStatus,
+  UserDictionary
+} from '../interfaces/types';
+
 export interface ElectronAPI {
   // File operations
   fileNew: () => Promise<void>;
@@ -10,9 +29,54 @@ export interface ElectronAPI {
   settingsGet: () => Promise<any>;
   settingsSave: (settings: any) => Promise<void>;
   
+  // API key operations
+  apiKeysStatus: () => Promise<ApiKeyStatus>;
+  apiKeysSet: (data: { provider: string; key: string }) => Promise<boolean>;
+  
+  // Response cache operations
+  cacheStats: () => Promise<CacheStats>;
+  cacheClear: () => Promise<boolean>;
+  cacheExport: () => Promise<number | null>;
+  
+  // Usage operations
+  usageReport: (data?: { days?: number }) => Promise<UsageReport>;
+  usageStatus: () => Promise<UsageStatus>;
+  usageClear: () => Promise<boolean>;
+  
+  // Prompt template operations
+  promptsList: () => Promise<PromptTemplate[]>;
+  promptsSave: (data: { id: string; system: string; user: string }) => Promise<PromptTemplate>;
+  promptsReset: (id: string) => Promise<PromptTemplate>;
+  promptsPreview: (data: { system: string; user: string; text: string; language?: string; style?: string }) => Promise<{ system: string; user: string }>;
+  
+  // Chat history operations
+  chatHistoryGet: (filePath: string) => Promise<ChatMessage[]>;
+  chatHistorySave: (data: { filePath: string; messages: ChatMessage[] }) => Promise<boolean>;
+  chatHistoryClear: (filePath: string) => Promise<boolean>;
+  
+  // User dictionary operations
+  dictionaryGet: () => Promise<UserDictionary>;
+  dictionaryAddWord: (data: { scope: DictionaryScope; word: string }) => Promise<UserDictionary>;
+  dictionaryAddIgnore: (data: { scope: DictionaryScope; rule: IgnoreRule }) => Promise<UserDictionary>;
+  dictionarySave: (data: { scope: DictionaryScope; entries: DictionaryEntries }) => Promise<UserDictionary>;
+  dictionaryFilter: (data: { issues: GrammarIssue[] }) => Promise<number[]>;
+  
   // AI operations
-  aiCheckGrammar: (data: { text: string; language?: string }) => Promise<string>;
-  aiRephraseText: (data: { text: string; style?: string }) => Promise<string>;
+  aiCheckGrammar: (data: { text: string; language?: string; batch?: boolean }) => Promise<string>;
+  aiRephraseText: (data: { text: string; style?: string; batch?: boolean }) => Promise<string>;
+  aiCancel: (requestId: string) => Promise<boolean>;
+  aiLintGrammar: (data: { text: string; language?: string }) => Promise<any>;
+  aiTranslateText: (data: { text: string; targetLanguage: string; sourceLanguage?: string }) => Promise<any>;
+  aiSummarizeText: (data: { text: string; format?: string; targetLength?: number }) => Promise<any>;
+  aiExpandText: (data: { text: string }) => Promise<any>;
+  aiOutlineText: (data: { text: string }) => Promise<any>;
+  aiCompleteText: (data: { text: string; requestId: string }) => Promise<any>;
+  aiChat: (data: { messages: Array<{ role: string; content: string }>; context?: ChatContext }) => Promise<any>;
+  aiExplainSuggestion: (data: { original: string; replacement: string }) => Promise<any>;
+  aiListModels: (data: { provider: string; baseUrl?: string }) => Promise<string[]>;
+  aiHealthCheck: (data: { provider: string; baseUrl?: string; apiKey?: string }) => Promise<ProviderHealth>;
+  aiHealthGet: () => Promise<HealthStatus>;
+  aiRedactionPreview: (data: { text: string; operation?: string; settings?: RedactionSettings }) => Promise<RedactionPreview>;
   
   // UI operations
   uiShowSettings: () => void;